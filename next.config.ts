@@ -1,7 +1,21 @@
 import type { NextConfig } from "next";
 
+// Allow next/image to load listing photos from the S3-compatible bucket, when one is configured
+const s3PublicUrl = process.env.S3_PUBLIC_URL ? new URL(process.env.S3_PUBLIC_URL) : null;
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: s3PublicUrl
+      ? [
+        {
+          protocol: s3PublicUrl.protocol.replace(":", "") as "http" | "https",
+          hostname: s3PublicUrl.hostname,
+          port: s3PublicUrl.port,
+          pathname: `${s3PublicUrl.pathname.replace(/\/$/, "")}/**`,
+        },
+      ]
+      : [],
+  },
 };
 
 export default nextConfig;
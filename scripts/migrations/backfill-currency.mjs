@@ -0,0 +1,79 @@
+/**
+ * @file Migration: set the currency and the base price of existing listings.
+ * @description Listing prices used to have no currency; they were all in EGP. This migration sets `currency` to "EGP" on
+ * listings without one, then recomputes `basePrice` (the price in EGP, used by the price filters, sorts and facets) of
+ * every listing from its `regularPrice` and the stored exchange rates, along with the price per m² (`pricePerSqm`) of
+ * listings with an area. Listings quoted in a currency without a rate keep
+ * their base price and are reported. It is safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:backfill-currency
+ */
+
+import mongoose from "mongoose";
+
+// Same as BASE_CURRENCY in src/lib/pricing/currency.ts
+const BASE_CURRENCY = "EGP";
+
+// Same as the price per m² computed by `setExchangeRate` in src/lib/pricing/exchange.rates.ts
+const pricePerSqmStage = {
+    $set: {
+        pricePerSqm: { $cond: [{ $gt: ["$area", 0] }, { $round: [{ $divide: ["$basePrice", "$area"] }, 0] }, "$$REMOVE"] },
+    },
+};
+
+/**
+ * @function migrate
+ * @description Sets the missing currencies and recomputes the base prices.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const listings = mongoose.connection.db.collection("listings");
+    const exchangeRates = mongoose.connection.db.collection("exchangerates");
+
+    // Listings created before currencies existed are priced in EGP
+    const defaulted = await listings.updateMany({ currency: { $exists: false } }, { $set: { currency: BASE_CURRENCY } });
+    console.log(`Set the currency of ${defaulted.modifiedCount} listings to ${BASE_CURRENCY}`);
+
+    // Base prices of EGP listings are their price
+    const base = await listings.updateMany({ currency: BASE_CURRENCY }, [
+        { $set: { basePrice: "$regularPrice" } },
+        pricePerSqmStage,
+    ]);
+    let repriced = base.modifiedCount;
+
+    // Other currencies are converted with their stored rate
+    const rates = await exchangeRates.find({}).toArray();
+    for (const { currency, rate } of rates) {
+        const result = await listings.updateMany({ currency }, [
+            { $set: { basePrice: { $round: [{ $multiply: ["$regularPrice", rate] }, 0] } } },
+            pricePerSqmStage,
+        ]);
+        repriced += result.modifiedCount;
+    }
+    console.log(`Recomputed the base price of ${repriced} listings`);
+
+    // Listings in a currency without a rate cannot be converted until an admin sets it
+    const unconverted = await listings.countDocuments({
+        currency: { $nin: [BASE_CURRENCY, ...rates.map(({ currency }) => currency)] },
+    });
+    if (unconverted > 0) {
+        console.warn(`${unconverted} listings are in a currency without an exchange rate; set it at /admin/exchange-rates`);
+    }
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,78 @@
+/**
+ * @file Migration: create developers from the free-text developer names of existing projects.
+ * @description Projects used to store their developer only as free text in `developer`. This migration creates one
+ * developer per distinct name (ignoring case and extra spaces), points each project's `developerRef` at it and copies
+ * the `developerRef` onto the project's listings. Projects that already have a `developerRef` only get their listings
+ * synced, so it is safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:backfill-developers
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @function normalizeDeveloperName
+ * @description Same normalization as `normalizeDeveloperName` in src/lib/modals/developer.modal.ts.
+ *
+ * @param {string} name - The developer name.
+ * @returns {string} The normalized name.
+ */
+const normalizeDeveloperName = (name) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * @function migrate
+ * @description Creates the missing developers and links the projects and listings to them.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const developers = mongoose.connection.db.collection("developers");
+    const projects = mongoose.connection.db.collection("projects");
+    const listings = mongoose.connection.db.collection("listings");
+
+    const allProjects = await projects
+        .find({}, { projection: { developer: 1, developerRef: 1 } })
+        .toArray();
+
+    let linked = 0;
+    for (const project of allProjects) {
+        let developerRef = project.developerRef;
+
+        // Find or create the developer with this normalized name
+        const name = String(project.developer ?? "").trim().replace(/\s+/g, " ");
+        if (!developerRef && name) {
+            const now = new Date();
+            const developer = await developers.findOneAndUpdate(
+                { normalizedName: normalizeDeveloperName(name) },
+                { $setOnInsert: { name, normalizedName: normalizeDeveloperName(name), createdAt: now, updatedAt: now } },
+                { upsert: true, returnDocument: "after" }
+            );
+            developerRef = developer._id;
+            await projects.updateOne({ _id: project._id }, { $set: { developerRef, developer: developer.name } });
+            linked++;
+        }
+
+        // Copy the developer onto the project's listings
+        if (developerRef) {
+            await listings.updateMany({ projectRef: project._id }, { $set: { developerRef } });
+        }
+    }
+
+    console.log(`Linked ${linked} projects to their developer`);
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
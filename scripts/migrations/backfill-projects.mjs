@@ -0,0 +1,92 @@
+/**
+ * @file Migration: create projects from the free-text project names of existing listings.
+ * @description Listings used to store their project only as free text in `projectName`. This migration creates one
+ * project per distinct name (ignoring case and extra spaces, so "Mountain View" and "mountain view " become one project),
+ * points each listing's `projectRef` at it and rewrites `projectName` to the project's name. Listings that already have a
+ * `projectRef` are left alone, so it is safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:backfill-projects
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @function normalizeProjectName
+ * @description Same normalization as `normalizeProjectName` in src/lib/modals/project.modal.ts.
+ *
+ * @param {string} name - The project name.
+ * @returns {string} The normalized name.
+ */
+const normalizeProjectName = (name) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * @function migrate
+ * @description Creates the missing projects and links the listings to them.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const listings = mongoose.connection.db.collection("listings");
+    const projects = mongoose.connection.db.collection("projects");
+
+    const unlinked = await listings
+        .find({ projectRef: { $exists: false } }, { projection: { projectName: 1 } })
+        .toArray();
+    console.log(`Found ${unlinked.length} listings without a project`);
+
+    let failed = 0;
+    for (const listing of unlinked) {
+        const name = String(listing.projectName ?? "").trim().replace(/\s+/g, " ");
+        if (!name) continue;
+
+        // Find or create the project with this normalized name
+        const now = new Date();
+        const project = await projects.findOneAndUpdate(
+            { normalizedName: normalizeProjectName(name) },
+            {
+                $setOnInsert: {
+                    name,
+                    normalizedName: normalizeProjectName(name),
+                    developer: "",
+                    location: "",
+                    amenities: [],
+                    createdAt: now,
+                    updatedAt: now,
+                },
+            },
+            { upsert: true, returnDocument: "after" }
+        );
+
+        try {
+            await listings.updateOne(
+                { _id: listing._id },
+                { $set: { projectRef: project._id, projectName: project.name } }
+            );
+        } catch (error) {
+            // Two spellings of the same project may contain the same unit; those listings need a manual fix
+            failed++;
+            console.error(`Could not link listing ${listing._id} to "${project.name}":`, error.message);
+        }
+    }
+
+    if (failed > 0) {
+        process.exitCode = 1;
+        console.error(`${failed} listings could not be linked`);
+    }
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
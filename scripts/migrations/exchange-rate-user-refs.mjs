@@ -0,0 +1,48 @@
+/**
+ * @file Migration: replace the emails stored on the exchange rates with user IDs.
+ * @description Exchange rates used to record the admin who last set them as their email (`updatedBy`). They now store
+ * the ID of the admin, which the rate table resolves to a name. This migration replaces each stored email with the ID of
+ * its account, and clears the ones whose account no longer exists. It is safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:exchange-rate-user-refs
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @function migrate
+ * @description Links the exchange rates to the admins who set them and drops the emails.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const exchangeRates = mongoose.connection.db.collection("exchangerates");
+    const users = mongoose.connection.db.collection("users");
+
+    // Emails are stored in lowercase, as in the users collection
+    let linked = 0;
+    let cleared = 0;
+    for (const { _id, updatedBy } of await exchangeRates.find({ updatedBy: { $type: "string" } }).toArray()) {
+        const user = await users.findOne({ email: updatedBy.toLowerCase() }, { projection: { _id: 1 } });
+        await exchangeRates.updateOne({ _id }, { $set: { updatedBy: user?._id ?? null } });
+        if (user) linked += 1;
+        else cleared += 1;
+    }
+    console.log(`Linked ${linked} exchange rates to their admins and cleared ${cleared} unknown emails`);
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,54 @@
+/**
+ * @file Migration: replace the emails stored in the listing history with user IDs.
+ * @description History entries used to record who made a change as their email (`changedBy`). They now store the ID of
+ * the user (`userRef`), which the history route resolves to a name. This migration sets `userRef` on the entries whose
+ * email belongs to an existing account, then removes every stored email, including the ones of deleted accounts. It is
+ * safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:history-user-refs
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @function migrate
+ * @description Links the history entries to their users and drops the emails.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const history = mongoose.connection.db.collection("listinghistories");
+    const users = mongoose.connection.db.collection("users");
+
+    // Emails are stored in lowercase, as in the users collection
+    const emails = await history.distinct("changedBy", { changedBy: { $type: "string" } });
+    let linked = 0;
+    for (const email of emails) {
+        const user = await users.findOne({ email: email.toLowerCase() }, { projection: { _id: 1 } });
+        if (!user) continue;
+
+        const result = await history.updateMany({ changedBy: email }, { $set: { userRef: user._id } });
+        linked += result.modifiedCount;
+    }
+    console.log(`Linked ${linked} history entries to their users`);
+
+    // Entries of deleted accounts keep no author rather than an email
+    const cleared = await history.updateMany({ changedBy: { $exists: true } }, { $unset: { changedBy: "" } });
+    console.log(`Removed the email from ${cleared.modifiedCount} history entries`);
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
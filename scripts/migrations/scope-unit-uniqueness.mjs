@@ -0,0 +1,70 @@
+/**
+ * @file Migration: scope unit uniqueness to the project.
+ * @description Listings used to have globally unique `unitName` and `unitNumber` indexes, so unit 101 in one project
+ * blocked unit 101 in every other project, and later `(projectName, ...)` indexes, so projects sharing a display name
+ * blocked each other. This migration drops those indexes and creates the `(projectRef, unitNumber)` and
+ * `(projectRef, unitName)` unique indexes declared on the `Listing` model. It needs every listing to be linked to its
+ * project first (`npm run migrate:backfill-projects`). It is safe to run more than once.
+ *
+ * @example
+ * // Run against the database in MONGO_URL
+ * MONGO_URL="mongodb://localhost:27017/nawy" npm run migrate:unit-uniqueness
+ */
+
+import mongoose from "mongoose";
+
+// The old global indexes created by `unique: true` on the schema fields, and the project-name indexes that replaced them
+const LEGACY_INDEXES = ["unitName_1", "unitNumber_1", "projectName_unitNumber_unique", "projectName_unitName_unique"];
+
+// Must match the indexes declared in src/lib/modals/listing.modal.ts
+const linkedToProject = { projectRef: { $type: "objectId" } };
+const COMPOUND_INDEXES = [
+    { key: { projectRef: 1, unitNumber: 1 }, name: "projectRef_unitNumber_unique" },
+    { key: { projectRef: 1, unitName: 1 }, name: "projectRef_unitName_unique" },
+];
+
+/**
+ * @function migrate
+ * @description Drops the legacy indexes and creates the per-project ones.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+const migrate = async () => {
+    if (!process.env.MONGO_URL) {
+        throw new Error("MONGO_URL is not set.");
+    }
+
+    await mongoose.connect(process.env.MONGO_URL);
+    const listings = mongoose.connection.db.collection("listings");
+
+    // Listings without a project would lose their uniqueness check: link them first
+    const unlinked = await listings.countDocuments({ projectRef: { $not: { $type: "objectId" } } });
+    if (unlinked > 0) {
+        throw new Error(`${unlinked} listings are not linked to a project; run npm run migrate:backfill-projects first.`);
+    }
+
+    // Drop the old indexes, if they are still there
+    const existing = (await listings.indexes()).map((index) => index.name);
+    for (const name of LEGACY_INDEXES) {
+        if (existing.includes(name)) {
+            await listings.dropIndex(name);
+            console.log(`Dropped index ${name}`);
+        }
+    }
+
+    // Create the per-project indexes (a no-op when they already exist)
+    for (const { key, name } of COMPOUND_INDEXES) {
+        await listings.createIndex(key, { unique: true, name, partialFilterExpression: linkedToProject });
+        console.log(`Ensured index ${name}`);
+    }
+};
+
+migrate()
+    .then(() => console.log("Migration complete"))
+    .catch((error) => {
+        // Most likely two units of the same project already share a name or number; fix them and run again
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,166 @@
+/**
+ * @file ManageExchangeRates component for maintaining the exchange rates.
+ * @module ManageExchangeRates
+ * @description This admin-only component lists the rate of every supported currency, in EGP per unit, and lets an admin
+ * change them. Rates are loaded from `/api/exchange-rates` and saved through the same route, which also re-prices the
+ * listings quoted in the changed currencies so price filters and sorts follow the new rates.
+ *
+ * @returns {JSX.Element} The rendered ManageExchangeRates component.
+ *
+ * @example
+ * // Usage in a Next.js route
+ * <ManageExchangeRates />
+ */
+
+"use client";
+import { FormEvent, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import FieldError from "@/components/FieldError";
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode } from "@/lib/pricing/currency";
+
+// Currencies whose rate can be set (the base currency is always 1)
+const rateCurrencies = CURRENCIES.filter((currency) => currency !== BASE_CURRENCY);
+
+/**
+ * @function ManageExchangeRates
+ * @description Displays a rate input for each currency and saves the changed rates.
+ *
+ * @returns {JSX.Element} The rendered ManageExchangeRates component.
+ */
+export default function ManageExchangeRates() {
+    const [rates, setRates] = useState<Partial<Record<CurrencyCode, string>>>({}); // Rates as typed in the inputs
+    const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+    const [updatedBy, setUpdatedBy] = useState<string | null>(null); // Name of the admin who made the last change
+    const [errors, setErrors] = useState<Record<string, string>>({}); // Field-level validation messages from the API
+    const [loading, setLoading] = useState<boolean>(true);
+    const [saving, setSaving] = useState<boolean>(false);
+    const [error, setError] = useState<string>("");
+
+    /**
+     * @function applyTable
+     * @description Shows the rates and the update date returned by the API.
+     *
+     * @param {Object} data - The exchange rate table.
+     */
+    const applyTable = (data: {
+        rates: Partial<Record<CurrencyCode, number>>;
+        updatedAt: string | null;
+        updatedBy?: string | null;
+    }) => {
+        setRates(Object.fromEntries(rateCurrencies.map((currency) => [currency, data.rates[currency]?.toString() ?? ""])));
+        setUpdatedAt(data.updatedAt);
+        setUpdatedBy(data.updatedBy ?? null);
+    };
+
+    /**
+     * @function useEffect
+     * @description Fetches the current exchange rates when the component mounts.
+     */
+    useEffect(() => {
+        const fetchRates = async () => {
+            try {
+                const res = await fetch("/api/exchange-rates", { cache: "no-store" });
+                const data = await res.json();
+
+                if (data.success === false) {
+                    setError(data.message); // Display error message from the backend
+                    return;
+                }
+
+                applyTable(data);
+            } catch (error) {
+                console.error("Error fetching exchange rates:", error);
+                setError("Failed to load exchange rates. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchRates();
+    }, []);
+
+    /**
+     * @function handleSubmit
+     * @description Saves the rates that were filled in. Empty inputs leave the rate of their currency unchanged.
+     *
+     * @async
+     * @param {FormEvent<HTMLFormElement>} e - The form submission event.
+     * @returns {Promise<void>}
+     */
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setSaving(true);
+        setErrors({});
+        try {
+            const res = await fetch("/api/exchange-rates", {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    rates: Object.fromEntries(Object.entries(rates).filter(([, rate]) => rate !== "")),
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success === false) {
+                setErrors(data.errors || {}); // Show the messages next to their inputs
+                toast.error(data.message); // Display error message from the backend
+            } else {
+                applyTable(data);
+                toast.success(`Exchange rates saved. ${data.repriced} listing${data.repriced === 1 ? "" : "s"} re-priced.`);
+            }
+        } catch (error) {
+            console.error("Error saving exchange rates:", error);
+            toast.error("An unexpected error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-100 p-6 min-h-screen">
+            <div className="max-w-4xl mx-auto bg-white p-8 rounded-lg shadow-lg">
+                <h1 className="text-2xl font-bold text-[#244856] mb-2">Exchange Rates</h1>
+                <p className="text-gray-600 mb-6">
+                    How many {BASE_CURRENCY} one unit of each currency is worth.
+                    {updatedAt && ` Last updated ${new Date(updatedAt).toLocaleString()}${updatedBy ? ` by ${updatedBy}` : ""}.`}
+                </p>
+                {loading && <p className="text-gray-600">Loading...</p>}
+                {!loading && error && <p className="text-[#e74833]">{error}</p>}
+                {!loading && !error && (
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-4 max-w-sm">
+                        {rateCurrencies.map((currency) => (
+                            <div key={currency}>
+                                <label className="block text-sm font-medium text-[#244856]">
+                                    1 {currency} = ? {BASE_CURRENCY}
+                                </label>
+                                <input
+                                    type="number"
+                                    name={currency}
+                                    value={rates[currency] ?? ""}
+                                    onChange={(e) => {
+                                        setErrors((prev) => ({ ...prev, [`rates.${currency}`]: "" }));
+                                        setRates((prev) => ({ ...prev, [currency]: e.target.value }));
+                                    }}
+                                    placeholder="Not set"
+                                    className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                                    min={0.0001}
+                                    step="any"
+                                />
+                                <FieldError message={errors[`rates.${currency}`]} />
+                            </div>
+                        ))}
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="bg-[#e74833] text-white p-3 rounded-lg uppercase hover:opacity-95 disabled:opacity-80"
+                        >
+                            {saving ? "Saving..." : "Save Rates"}
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+/**
+ * @file ManageUsers component for changing user roles.
+ * @module ManageUsers
+ * @description This admin-only component lists every user account and lets an admin change each user's role
+ * (admin, agent or viewer). Roles are loaded from `/api/user/get` and saved through `/api/user/update`.
+ * 
+ * @returns {JSX.Element} The rendered ManageUsers component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <ManageUsers />
+ */
+
+"use client";
+import { ChangeEvent, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+// Define the type for a user account
+interface UserAccount {
+    _id: string;
+    name: string;
+    email: string;
+    role: string;
+}
+
+// Roles an admin can assign
+const roleOptions = ["admin", "agent", "viewer"];
+
+/**
+ * @function ManageUsers
+ * @description Displays the user accounts with a role selector for each of them.
+ * 
+ * @returns {JSX.Element} The rendered ManageUsers component.
+ */
+export default function ManageUsers() {
+    const [users, setUsers] = useState<UserAccount[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+
+    /**
+     * @function useEffect
+     * @description Fetches the user accounts when the component mounts.
+     */
+    useEffect(() => {
+        const fetchUsers = async () => {
+            try {
+                const res = await fetch("/api/user/get", { method: "POST" });
+                const data = await res.json();
+
+                if (data.success === false) {
+                    setError(data.message); // Display error message from the backend
+                    return;
+                }
+
+                setUsers(data);
+            } catch (error) {
+                console.error("Error fetching users:", error);
+                setError("Failed to load users. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchUsers();
+    }, []);
+
+    /**
+     * @function handleRoleChange
+     * @description Saves the new role of a user and updates the list on success.
+     * 
+     * @async
+     * @param {string} userId - The ID of the user to update.
+     * @param {ChangeEvent<HTMLSelectElement>} e - The change event from the role selector.
+     * @returns {Promise<void>}
+     */
+    const handleRoleChange = async (userId: string, e: ChangeEvent<HTMLSelectElement>) => {
+        const role = e.target.value;
+        try {
+            const res = await fetch("/api/user/update", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ userId, role }),
+            });
+            const data = await res.json();
+
+            if (data.success === false) {
+                toast.error(data.message); // Display error message from the backend
+            } else {
+                setUsers((prev) => prev.map((user) => (user._id === userId ? { ...user, role } : user)));
+                toast.success(`${data.user.name} is now ${role === "admin" ? "an" : "a"} ${role}.`);
+            }
+        } catch (error) {
+            console.error("Error updating role:", error);
+            toast.error("An unexpected error occurred. Please try again.");
+        }
+    };
+
+    return (
+        <div className="bg-gray-100 p-6 min-h-screen">
+            <div className="max-w-4xl mx-auto bg-white p-8 rounded-lg shadow-lg">
+                <h1 className="text-2xl font-bold text-[#244856] mb-6">Manage Users</h1>
+                {loading && <p className="text-gray-600">Loading...</p>}
+                {!loading && error && <p className="text-[#e74833]">{error}</p>}
+                {!loading && !error && (
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="text-gray-600 border-b">
+                                <th className="py-2">Name</th>
+                                <th className="py-2">Email</th>
+                                <th className="py-2">Role</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {users.map((user) => (
+                                <tr key={user._id} className="border-b">
+                                    <td className="py-2 text-[#244856] font-semibold">{user.name}</td>
+                                    <td className="py-2 text-gray-600">{user.email}</td>
+                                    <td className="py-2">
+                                        <select
+                                            value={user.role}
+                                            onChange={(e) => handleRoleChange(user._id, e)}
+                                            className="border rounded-lg p-2 capitalize"
+                                        >
+                                            {roleOptions.map((role) => (
+                                                <option key={role} value={role}>
+                                                    {role}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
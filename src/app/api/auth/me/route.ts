@@ -0,0 +1,40 @@
+import { getCurrentUser } from "@/lib/auth/session";
+
+/**
+ * GET API Route Handler for the Current User
+ * 
+ * This function returns the user attached to the session cookie, or `null` if no one is signed in.
+ * 
+ * @async
+ * @function
+ * @returns {Response} - Returns a JSON response containing the current user, along with appropriate status codes.
+ * 
+ * @example
+ * // Example response when signed in:
+ * // {
+ * //   "user": { "id": "650a1b2c3d4e5f6a7b8c9d0", "name": "Mona Hassan", "email": "mona@example.com", "role": "agent" }
+ * // }
+ * 
+ * // Example response when signed out:
+ * // {
+ * //   "user": null
+ * // }
+ */
+export const GET = async () => {
+    try {
+        // Resolve the user from the session cookie
+        const user = await getCurrentUser();
+
+        return new Response(JSON.stringify({ user }), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting current user:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,72 @@
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { verifyPassword } from "@/lib/auth/password";
+import { createSession } from "@/lib/auth/session";
+
+/**
+ * POST API Route Handler for Signing In
+ * 
+ * This function signs a user in with their email and password. If the credentials match, it creates a session and sets the
+ * HTTP-only session cookie. The same error message is returned for an unknown email and a wrong password.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the credentials in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "email": "mona@example.com",
+ * //   "password": "s3cret-pass"
+ * // }
+ * 
+ * // Example response for success:
+ * // {
+ * //   "success": true,
+ * //   "user": { "id": "650a1b2c3d4e5f6a7b8c9d0", "name": "Mona Hassan", "email": "mona@example.com", "role": "agent" }
+ * // }
+ * 
+ * // Example response for invalid credentials:
+ * // {
+ * //   "success": false,
+ * //   "message": "Invalid email or password."
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Parse the request body to extract the credentials
+        const data = await req.json();
+        const email = typeof data.email === "string" ? data.email.trim().toLowerCase() : "";
+        const password = typeof data.password === "string" ? data.password : "";
+
+        // Look up the user, including the password hash which is not selected by default
+        const user = await User.findOne({ email }).select("+passwordHash");
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+            return new Response(
+                JSON.stringify({ success: false, message: "Invalid email or password." }),
+                { status: 401 }
+            );
+        }
+
+        // Sign the user in
+        await createSession(user._id.toString());
+
+        return new Response(
+            JSON.stringify({ success: true, user: { id: user._id, name: user.name, email: user.email, role: user.role } }),
+            { status: 200 }
+        );
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error signing in:', error);
+
+        // Return a generic error message for server errors
+        return new Response(
+            JSON.stringify({ success: false, message: "Internal Server Error. Please try again later." }),
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,35 @@
+import { destroySession } from "@/lib/auth/session";
+
+/**
+ * POST API Route Handler for Signing Out
+ * 
+ * This function deletes the current session and clears the session cookie. It succeeds even if no one is signed in.
+ * 
+ * @async
+ * @function
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example response for success:
+ * // {
+ * //   "success": true
+ * // }
+ */
+export const POST = async () => {
+    try {
+        // Delete the session and clear the cookie
+        await destroySession();
+
+        return new Response(JSON.stringify({ success: true }), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error signing out:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
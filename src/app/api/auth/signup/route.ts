@@ -0,0 +1,132 @@
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { hashPassword } from "@/lib/auth/password";
+import { createSession } from "@/lib/auth/session";
+import { isDuplicateKeyError } from "@/lib/validation/duplicateKey";
+
+/**
+ * @function createFirstAdmin
+ * @description Creates the account as the admin when no admin exists yet. The check and the insert are a single upsert,
+ * and the unique `firstAdmin` index rejects the loser of two concurrent first sign-ups, so only one account can win.
+ *
+ * @async
+ * @param {Object} account - The validated account data.
+ * @returns {Promise<InstanceType<typeof User> | null>} The new admin, or `null` when an admin already exists.
+ */
+const createFirstAdmin = async (account: {
+    name: string;
+    email: string;
+    passwordHash: string;
+}): Promise<InstanceType<typeof User> | null> => {
+    try {
+        const result = await User.findOneAndUpdate(
+            { $or: [{ role: "admin" }, { firstAdmin: true }] },
+            { $setOnInsert: { ...account, role: "admin", firstAdmin: true } },
+            { upsert: true, new: true, includeResultMetadata: true }
+        );
+        return result.lastErrorObject?.updatedExisting ? null : result.value;
+    } catch (error) {
+        // Another first sign-up won the race
+        if (isDuplicateKeyError(error) && error.keyPattern && "firstAdmin" in error.keyPattern) return null;
+        throw error;
+    }
+};
+
+/**
+ * POST API Route Handler for Signing Up
+ * 
+ * This function creates a new user account. It checks that the name, email and password are valid and that the email
+ * is not already registered, hashes the password, saves the user and signs them in by setting the session cookie.
+ * New accounts get the "viewer" role, except the very first account, which becomes the "admin" so someone can manage users.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the account data in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "name": "Mona Hassan",
+ * //   "email": "mona@example.com",
+ * //   "password": "s3cret-pass"
+ * // }
+ * 
+ * // Example response for success:
+ * // {
+ * //   "success": true,
+ * //   "user": { "id": "650a1b2c3d4e5f6a7b8c9d0", "name": "Mona Hassan", "email": "mona@example.com", "role": "viewer" }
+ * // }
+ * 
+ * // Example response for an already registered email:
+ * // {
+ * //   "success": false,
+ * //   "message": "An account with this email already exists."
+ * // }
+ * 
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error. Please try again later."
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Parse the request body to extract the account data
+        const data = await req.json();
+        const name = typeof data.name === "string" ? data.name.trim() : "";
+        const email = typeof data.email === "string" ? data.email.trim().toLowerCase() : "";
+        const password = typeof data.password === "string" ? data.password : "";
+
+        // Validate the account data
+        if (!name || !/^\S+@\S+\.\S+$/.test(email) || password.length < 8) {
+            return new Response(
+                JSON.stringify({ success: false, message: "Please provide a name, a valid email and a password of at least 8 characters." }),
+                { status: 400 }
+            );
+        }
+
+        // Check for an already registered email
+        const existingUser = await User.findOne({ email });
+        if (existingUser) {
+            return new Response(
+                JSON.stringify({ success: false, message: "An account with this email already exists." }),
+                { status: 409 }
+            );
+        }
+
+        // The first account bootstraps the admin; everyone else starts as a viewer until an admin promotes them
+        const passwordHash = await hashPassword(password);
+        const newUser =
+            (await createFirstAdmin({ name, email, passwordHash })) ??
+            (await User.create({ name, email, role: "viewer", passwordHash }));
+
+        // Sign the new user in
+        await createSession(newUser._id.toString());
+
+        return new Response(
+            JSON.stringify({ success: true, user: { id: newUser._id, name: newUser.name, email: newUser.email, role: newUser.role } }),
+            { status: 201 }
+        );
+    } catch (error) {
+        // The email was registered by a concurrent sign-up after the check above
+        if (isDuplicateKeyError(error)) {
+            return new Response(
+                JSON.stringify({ success: false, message: "An account with this email already exists." }),
+                { status: 409 }
+            );
+        }
+
+        // Log the error for debugging purposes
+        console.log('Error signing up:', error);
+
+        // Return a generic error message for server errors
+        return new Response(
+            JSON.stringify({ success: false, message: "Internal Server Error. Please try again later." }),
+            { status: 500 }
+        );
+    }
+};
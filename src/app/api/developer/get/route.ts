@@ -0,0 +1,106 @@
+import Developer from "@/lib/modals/developer.modal";
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { escapeRegex, toObjectId } from "@/lib/filters/listing.filters";
+
+/**
+ * POST API Route Handler for Fetching Developers
+ * 
+ * This function retrieves developers sorted by name, each with the number of projects they own (`projectCount`) and the number
+ * of listed units in those projects (`unitCount`). It supports fetching a single developer by `developerId` and filtering by a
+ * `searchTerm` matched against the developer name. Developers are public, so no authentication is required. In case of any
+ * server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the search criteria in JSON format.
+ * @returns {Response} - Returns a JSON response containing the fetched developers or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "developerId": "650a1b2c3d4e5f6a7b8c9b0", // Optional: Fetch a single developer
+ * //   "searchTerm": "palm",                      // Optional: Case-insensitive match on the developer name
+ * //   "limit": 100                               // Optional: Maximum number of developers (default: 100)
+ * // }
+ * 
+ * // Example response for successful fetch:
+ * // [
+ * //   {
+ * //     "_id": "650a1b2c3d4e5f6a7b8c9b0",
+ * //     "name": "Palm Hills Developments",
+ * //     "projectCount": 3,
+ * //     "unitCount": 42
+ * //   },
+ * //   ...
+ * // ]
+ * 
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error"
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Parse the request body to extract the search criteria
+        const data = await req.json();
+        const limit = parseInt(data.limit) || 100; // Default limit: 100
+
+        // Build the filter from the optional developerId and search term (`$match` does not cast ids)
+        const filter: Record<string, unknown> = {};
+        if (data.developerId) filter._id = toObjectId(data.developerId);
+        if (typeof data.searchTerm === "string" && data.searchTerm.trim()) {
+            filter.name = { $regex: escapeRegex(data.searchTerm.trim()), $options: "i" };
+        }
+
+        const developers = await Developer.aggregate([
+            { $match: filter },
+            { $sort: { normalizedName: 1 } },
+            { $limit: limit },
+            // Count the projects and listed units of every developer
+            {
+                $lookup: {
+                    from: Project.collection.name,
+                    localField: "_id",
+                    foreignField: "developerRef",
+                    pipeline: [{ $count: "count" }],
+                    as: "projects",
+                },
+            },
+            {
+                $lookup: {
+                    from: Listing.collection.name,
+                    localField: "_id",
+                    foreignField: "developerRef",
+                    pipeline: [{ $count: "count" }],
+                    as: "units",
+                },
+            },
+            {
+                $addFields: {
+                    projectCount: { $ifNull: [{ $first: "$projects.count" }, 0] },
+                    unitCount: { $ifNull: [{ $first: "$units.count" }, 0] },
+                },
+            },
+            { $project: { projects: 0, units: 0, normalizedName: 0 } },
+        ]);
+
+        // Return the fetched developers
+        return new Response(JSON.stringify(developers), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting developers:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,124 @@
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser, requireUser } from "@/lib/auth/session";
+import { isCurrencyCode } from "@/lib/pricing/currency";
+import { getExchangeRateTable, setExchangeRate } from "@/lib/pricing/exchange.rates";
+import { validateExchangeRatesInput } from "@/lib/validation/exchangeRate.validation";
+import { validationErrorResponse } from "@/lib/validation/validation";
+
+/**
+ * GET API Route Handler for the Exchange Rates
+ * 
+ * This function returns the current exchange rates, used by the currency switcher to convert listing prices. Rates are the
+ * number of EGP (the base currency) per unit of each currency; currencies without a rate are left out. The rates are public,
+ * so no authentication is required; admins also get the name of the admin who made the last change (`updatedBy`). In case
+ * of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @returns {Response} - Returns the exchange rates or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // GET /api/exchange-rates
+ * 
+ * // Example response for success:
+ * // {
+ * //   "base": "EGP",
+ * //   "rates": { "EGP": 1, "USD": 48.5, "EUR": 52.75 },
+ * //   "updatedAt": "2025-01-15T09:30:00.000Z"
+ * // }
+ */
+export const GET = async () => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        const user = await getCurrentUser();
+        return new Response(JSON.stringify(await getExchangeRateTable(user?.role === "admin")), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting exchange rates:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
+
+/**
+ * PUT API Route Handler for Updating the Exchange Rates
+ * 
+ * This function sets the rates of the currencies in the body (EGP per unit) and re-prices the listings quoted in them, so
+ * the price filters and sorts follow the new rates. Currencies left out keep their rate. It is reserved for admins:
+ * anonymous requests get a 401 response and other roles a 403 response. Invalid rates get a 422 response. In case of any
+ * server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the new rates in JSON format.
+ * @returns {Response} - Returns the updated exchange rates or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // PUT /api/exchange-rates
+ * // { "rates": { "USD": 48.5, "EUR": 52.75 } }
+ * 
+ * // Example response for success:
+ * // {
+ * //   "base": "EGP",
+ * //   "rates": { "EGP": 1, "USD": 48.5, "EUR": 52.75 },
+ * //   "updatedAt": "2025-01-15T09:30:00.000Z",
+ * //   "updatedBy": "Mona Hassan",
+ * //   "repriced": 12   // Listings whose base price was recomputed
+ * // }
+ * 
+ * // Example response for an invalid rate (422):
+ * // {
+ * //   "success": false,
+ * //   "message": "Please fix the highlighted fields.",
+ * //   "errors": { "rates.USD": "USD rate must be at least 0.0001." }
+ * // }
+ */
+export const PUT = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only admins can maintain the exchange rates
+        const { user, response } = await requireUser();
+        if (!user) return response;
+        if (user.role !== "admin") {
+            return new Response(JSON.stringify({ success: false, message: "Only admins can change exchange rates." }), {
+                status: 403,
+            });
+        }
+
+        // A body that is not JSON is reported like a missing form
+        const validation = validateExchangeRatesInput(await req.json().catch(() => null));
+        if (!validation.success) return validationErrorResponse(validation.errors);
+
+        // Save each rate and re-price the listings quoted in that currency
+        let repriced = 0;
+        for (const [currency, rate] of Object.entries(validation.data.rates)) {
+            if (!isCurrencyCode(currency) || typeof rate !== "number") continue; // Left out of the update
+            repriced += await setExchangeRate(currency, rate, user.id);
+        }
+
+        return new Response(JSON.stringify({ ...(await getExchangeRateTable(true)), repriced }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error updating exchange rates:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
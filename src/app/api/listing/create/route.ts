@@ -1,12 +1,21 @@
-import Listing from "@/lib/modals/listing.modal";
 import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { createListing } from "@/lib/listings/listing.service";
+import { deprecated, LISTINGS_PATH } from "@/lib/listings/listing.rest";
 
 /**
  * POST API Route Handler for Creating a New Listing
  * 
- * This function handles the creation of a new property listing. It ensures that the `unitName` and `unitNumber` are unique
- * before creating the listing. If duplicates are found, it returns an error response. Otherwise, it creates and saves the
- * new listing to the database.
+ * @deprecated Use `POST /api/listings`, which answers 201 with the created listing and its `Location`. This route shares its
+ * logic and keeps its response shape; its responses carry `Deprecation` and `Link` headers.
+ * 
+ * This function handles the creation of a new property listing. The `unitName` and `unitNumber` must be unique within the
+ * listing's project; this is enforced by unique indexes, and a clash returns a 409 response. Otherwise, it creates and saves
+ * the new listing to the database. The listing belongs to the project given by `projectId`, whose name is copied onto the
+ * listing; an unknown project gets a 422 response. The listing data is checked against the shared listing schema first; invalid data gets a 422
+ * response with one message per invalid field. Only signed-in admins and agents can create listings; anonymous requests get a 401 response and
+ * viewers a 403 response. The signed-in
+ * user is recorded as the owner (`userRef`) of the new listing.
  * 
  * @async
  * @function
@@ -16,11 +25,13 @@ import { connect } from "@/lib/mongod/mongoose";
  * @example
  * // Example request body:
  * // {
- * //   "projectName": "Sunrise Apartments",
+ * //   "projectId": "650a1b2c3d4e5f6a7b8c9c0",
  * //   "unitName": "Unit A",
  * //   "unitNumber": "101",
  * //   "description": "A spacious 2-bedroom apartment.",
  * //   "address": "123 Main St, City, Country",
+ * //   "latitude": 30.0189,  // Optional, together with longitude
+ * //   "longitude": 31.4995,
  * //   "sell": true,
  * //   "rent": false,
  * //   "parkingSpot": true,
@@ -28,7 +39,14 @@ import { connect } from "@/lib/mongod/mongoose";
  * //   "offer": false,
  * //   "beds": 2,
  * //   "baths": 2,
- * //   "regularPrice": 2000
+ * //   "area": 120,     // Optional: built-up area in m²
+ * //   "floor": 3,      // Optional: 0 is the ground floor
+ * //   "unitType": "apartment", // Optional: apartment, villa, townhouse, chalet or duplex
+ * //   "finishing": "fullyFinished", // Optional: coreAndShell, semiFinished or fullyFinished
+ * //   "deliveryStatus": "ready", // Optional: ready or offPlan
+ * //   "regularPrice": 2000,
+ * //   "currency": "EGP", // Optional: EGP (default), USD or EUR
+ * //   "images": [{ "url": "/api/upload/listings/3f1c.../original.jpg", "variants": [...] }]
  * // }
  * 
  * // Example response for success:
@@ -37,16 +55,30 @@ import { connect } from "@/lib/mongod/mongoose";
  * //   "success": true
  * // }
  * 
- * // Example response for duplicate unitName:
+ * // Example response for invalid data:
  * // {
  * //   "success": false,
- * //   "message": "Unit Name already exists. Please choose a unique Unit Name."
+ * //   "message": "Please fix the highlighted fields.",
+ * //   "errors": { "beds": "Beds must be at least 0.", "address": "Address is required." }
  * // }
  * 
- * // Example response for duplicate unitNumber:
+ * // Example response for a unitNumber already used in the same project (409):
  * // {
  * //   "success": false,
- * //   "message": "Unit Number already exists. Please choose a unique Unit Number."
+ * //   "message": "Unit Number already exists in this project. Please choose a unique Unit Number.",
+ * //   "errors": { "unitNumber": "Unit Number already exists in this project. Please choose a unique Unit Number." }
+ * // }
+ * 
+ * // Example response when not signed in:
+ * // {
+ * //   "success": false,
+ * //   "message": "Authentication required. Please sign in."
+ * // }
+ * 
+ * // Example response for a viewer:
+ * // {
+ * //   "success": false,
+ * //   "message": "You are not allowed to create this listing."
  * // }
  * 
  * // Example response for server error:
@@ -60,59 +92,31 @@ export const POST = async (req: Request) => {
         // Connect to the MongoDB database
         await connect();
 
-        // Parse the request body to extract listing data
-        const data = await req.json();
-
-        // Check for duplicate unitName
-        const existingUnitName = await Listing.findOne({ unitName: data.unitName });
-        if (existingUnitName) {
-            return new Response(
-                JSON.stringify({ success: false, message: "Unit Name already exists. Please choose a unique Unit Name." }),
-                { status: 400 }
-            );
-        }
+        // Only signed-in users can create listings
+        const { user, response } = await requireUser();
+        if (!user) return deprecated(response, LISTINGS_PATH);
 
-        // Check for duplicate unitNumber
-        const existingUnitNumber = await Listing.findOne({ unitNumber: data.unitNumber });
-        if (existingUnitNumber) {
-            return new Response(
-                JSON.stringify({ success: false, message: "Unit Number already exists. Please choose a unique Unit Number." }),
-                { status: 400 }
-            );
-        }
-
-        // Create a new listing if no duplicates are found
-        const newListing = await Listing.create({
-            projectName: data.projectName,
-            unitName: data.unitName,
-            unitNumber: data.unitNumber,
-            description: data.description,
-            address: data.address,
-            sell: data.sell,
-            rent: data.rent,
-            parkingSpot: data.parkingSpot,
-            furnished: data.furnished,
-            offer: data.offer,
-            beds: data.beds,
-            baths: data.baths,
-            regularPrice: data.regularPrice,
-        });
-
-        // Save the new listing to the database
-        await newListing.save();
+        // Parse the request body and create the listing (validation, project lookup and permissions included)
+        const body = await req.json();
+        const result = await createListing(user, body);
+        if (result.response) return deprecated(result.response, LISTINGS_PATH);
 
         // Return the created listing's ID and success status
-        return new Response(JSON.stringify({ id: newListing._id, success: true }), {
-            status: 200,
-        });
+        return deprecated(
+            new Response(JSON.stringify({ id: result.listing._id, success: true }), { status: 200 }),
+            LISTINGS_PATH
+        );
     } catch (error) {
         // Log the error for debugging purposes
         console.log('Error creating post:', error);
 
         // Return a generic error message for server errors
-        return new Response(
-            JSON.stringify({ success: false, message: "Internal Server Error. Please try again later." }),
-            { status: 500 }
+        return deprecated(
+            new Response(
+                JSON.stringify({ success: false, message: "Internal Server Error. Please try again later." }),
+                { status: 500 }
+            ),
+            LISTINGS_PATH
         );
     }
-};
\ No newline at end of file
+};
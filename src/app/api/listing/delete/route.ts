@@ -1,12 +1,20 @@
-import Listing from "@/lib/modals/listing.modal";
+import { isValidObjectId } from "mongoose";
 import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { deleteListing } from "@/lib/listings/listing.service";
+import { deprecated, listingLocation, LISTINGS_PATH } from "@/lib/listings/listing.rest";
 
 /**
  * DELETE API Route Handler for Deleting a Listing
  * 
+ * @deprecated Use `DELETE /api/listings/[id]`, which answers 204. This route shares its logic and keeps its response shape;
+ * its responses carry `Deprecation` and `Link` headers.
+ * 
  * This function handles the deletion of a property listing by its `listingId`. It first connects to the MongoDB database,
  * then attempts to find and delete the listing. If the listing is not found, it returns a 404 error. If the deletion is
- * successful, it returns a success message. In case of any server errors, it returns a 500 error.
+ * successful, the deleted values are recorded in the listing history and it returns a success message. In case of any server
+ * errors, it returns a 500 error. Only signed-in users can delete listings; anonymous requests get a 401 response.
+ * Admins can delete any listing and agents only the listings they own; everyone else gets a 403 response.
  * 
  * @async
  * @function
@@ -28,7 +36,19 @@ import { connect } from "@/lib/mongod/mongoose";
  * // Example response if listing is not found:
  * // {
  * //   "success": false,
- * //   "message": "Property not found."
+ * //   "message": "Listing not found"
+ * // }
+ * 
+ * // Example response when not signed in:
+ * // {
+ * //   "success": false,
+ * //   "message": "Authentication required. Please sign in."
+ * // }
+ * 
+ * // Example response if the user does not own the listing:
+ * // {
+ * //   "success": false,
+ * //   "message": "You are not allowed to delete this listing."
  * // }
  * 
  * // Example response for server error:
@@ -41,31 +61,33 @@ export const DELETE = async (req: Request) => {
     // Connect to the MongoDB database
     await connect();
 
+    // Only signed-in users can delete listings
+    const { user, response } = await requireUser();
+    if (!user) return deprecated(response, LISTINGS_PATH);
+
     // Parse the request body to extract the listingId
     const data = await req.json();
+    // The ID ends up in the `Link` header, so only valid IDs are used there (invalid ones get a 404 from the service)
+    const successor = isValidObjectId(data.listingId) ? listingLocation(data.listingId) : LISTINGS_PATH;
 
     try {
-        // Attempt to find and delete the listing by its ID
-        const deletedListing = await Listing.findByIdAndDelete(data.listingId);
-
-        // If the listing is not found, return a 404 error
-        if (!deletedListing) {
-            return new Response(JSON.stringify({ success: false, message: "Property not found." }), {
-                status: 404,
-            });
-        }
+        // Delete the listing (permissions and history included)
+        const result = await deleteListing(user, data.listingId);
+        if (result.response) return deprecated(result.response, successor);
 
         // Return a success message if the listing is deleted
-        return new Response(JSON.stringify({ success: true, message: "Property deleted successfully." }), {
-            status: 200,
-        });
+        return deprecated(
+            new Response(JSON.stringify({ success: true, message: "Property deleted successfully." }), { status: 200 }),
+            successor
+        );
     } catch (error) {
         // Log the error for debugging purposes
         console.log("Error deleting property:", error);
 
         // Return a 500 error for server errors
-        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
-            status: 500,
-        });
+        return deprecated(
+            new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), { status: 500 }),
+            successor
+        );
     }
-};
\ No newline at end of file
+};
@@ -1,12 +1,51 @@
-import Listing from "@/lib/modals/listing.modal";
 import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { searchListings } from "@/lib/listings/listing.search";
+import { deprecated, LISTINGS_PATH } from "@/lib/listings/listing.rest";
 
 /**
  * POST API Route Handler for Fetching Listings
  * 
- * This function retrieves property listings based on search criteria, pagination, and sorting. It supports filtering by `userId`,
- * `listingId`, and a search term that can match `projectName`, `unitName`, or `unitNumber`. The results are paginated and sorted
- * by the `updatedAt` field in either ascending or descending order.
+ * @deprecated Use `GET /api/listings` with the same parameters in the query string (or `GET /api/listings/[id]` for a single
+ * listing). This route and its `GET` handler share its logic and keep working; their responses carry `Deprecation` and `Link`
+ * headers.
+ * 
+ * This function retrieves property listings based on search criteria, pagination, and sorting. The same criteria can be sent as
+ * query-string parameters to the `GET` handler. It supports filtering by `userId`,
+ * `listingId`, `projectId`, `developerId`, a search term, and the `sell`, `rent`, `parkingSpot`,
+ * `furnished` and `offer` flags. Each flag is tri-state: `true` requires it, `false` excludes it, and an omitted value (or "any")
+ * ignores it. When both `sell` and `rent` are `true`, listings matching either are returned. `offer` only counts offers that are
+ * running (started and not expired). Inclusive ranges can be applied to
+ * the price (`minPrice`/`maxPrice`), `beds` (`minBeds`/`maxBeds`), `baths` (`minBaths`/`maxBaths`), the built-up `area` in m²
+ * (`minArea`/`maxArea`), the `floor` (`minFloor`/`maxFloor`, 0 is the ground floor) and the price per m²
+ * (`minPricePerSqm`/`maxPricePerSqm`). `unitType`, `finishing` and `deliveryStatus` accept one value, a list or
+ * comma-separated values; listings without the attribute never match these filters. Price bounds are in `currency`
+ * (EGP by default) and are compared with each listing's price converted at the current exchange rates, so listings quoted in
+ * different currencies are filtered (and sorted by price) together. Rent listings can be
+ * limited to a `maxMonthlyRent` (yearly rents are compared per month) and to units available by a move-in date
+ * (`availableFrom`); both only match listings for rent. Listings with a location can be
+ * limited to a radius around a point (`lat`, `lng`, `radiusKm`) and/or to map bounds (`north`, `south`, `east`, `west`). The results are sorted
+ * by one of the whitelisted `sort` keys (`newest`, `oldest`, `price_asc`, `price_desc`, `beds_asc`, `beds_desc`, `area_asc`, `area_desc`,
+ * `price_per_sqm_asc`, `price_per_sqm_desc`, `relevance`); listings without an area come first in ascending area and price per m²
+ * sorts, and last in descending ones. Unknown
+ * keys fall back to the legacy `order` parameter ("asc" for oldest first, newest first otherwise).
+ * 
+ * The response is a page of results: the listings (`items`), the number of listings matching the criteria (`total`) and a
+ * `nextCursor` to send back as `cursor` for the next page (`null` on the last page). Cursors point right after the last listing
+ * of a page in the sort order, so pages neither skip nor repeat listings when listings change in between; a cursor is only
+ * valid with the sort it was made for (400 otherwise). The legacy `startIndex` offset is still accepted when no cursor is sent.
+ * 
+ * A numeric search term matches `unitNumber` exactly. A multi-word term uses the weighted text index over `projectName`,
+ * `unitName`, `address` and `description` (with `relevance` sorting by text score); a single word is matched anywhere in those
+ * fields. For text terms, every listing comes with `highlights`: an excerpt of each matching field, split into fragments where
+ * `highlight: true` marks the matched words.
+ * 
+ * With `facets: true`, the listings are not returned; instead the response holds facet counts for the same criteria: the
+ * `total` number of matches, `true`/`false` counts for `sell`, `rent`, `furnished`, `parkingSpot` and `offer`, counts per
+ * `beds` and `baths` value, counts per `unitType`, `finishing` and `deliveryStatus` value, the top projects (`projectName`) and
+ * fixed `price` buckets (in `currency`). Each facet ignores its own
+ * criterion (e.g. the bed counts ignore `minBeds`/`maxBeds`) so the alternatives to the current selection are counted too.
  * 
  * @async
  * @function
@@ -16,18 +55,44 @@ import { connect } from "@/lib/mongod/mongoose";
  * @example
  * // Example request body:
  * // {
- * //   "startIndex": 0, // Starting index for pagination (default: 0)
  * //   "limit": 9,      // Number of listings to return per page (default: 9)
- * //   "order": "desc", // Sorting order ("asc" or "desc", default: "desc")
+ * //   "cursor": "eyJzb3J0Ijoi...", // Optional: The nextCursor of the previous page
+ * //   "startIndex": 0, // Legacy offset used when "cursor" is missing (default: 0)
+ * //   "sort": "price_asc", // Optional: whitelisted sort key (default: newest)
+ * //   "order": "desc", // Legacy sorting order used when "sort" is missing ("asc" or "desc", default: "desc")
  * //   "searchTerm": "Sunrise Apartments", // Search term for projectName, unitName, or unitNumber
- * //   "userId": "650a1b2c3d4e5f6a7b8c9d0", // Optional: Filter by userId
- * //   "listingId": "650a1b2c3d4e5f6a7b8c9d1" // Optional: Filter by listingId
+ * //   "sell": true,    // Optional: true, false, or omitted for don't care
+ * //   "rent": true,    // Optional: with sell=true, matches listings for sale or for rent
+ * //   "parkingSpot": true, // Optional: tri-state parking filter
+ * //   "furnished": false,  // Optional: tri-state furnished filter
+ * //   "offer": true,   // Optional: tri-state offer filter
+ * //   "minBeds": 2,    // Optional: inclusive range bounds for beds, baths and price
+ * //   "maxBeds": 3,
+ * //   "maxPrice": 5000000,
+ * //   "currency": "USD", // Optional: The currency of the price bounds (default: EGP)
+ * //   "minArea": 100, "maxArea": 180, // Optional: built-up area in m²
+ * //   "minFloor": 1,   // Optional: floor range (0 is the ground floor)
+ * //   "maxPricePerSqm": 40000, // Optional: price per m², in `currency`
+ * //   "unitType": "apartment,duplex", // Optional: apartment, villa, townhouse, chalet and/or duplex
+ * //   "finishing": "fullyFinished", // Optional: coreAndShell, semiFinished and/or fullyFinished
+ * //   "deliveryStatus": "ready", // Optional: ready and/or offPlan
+ * //   "maxMonthlyRent": 25000, // Optional: rent listings costing at most this per month
+ * //   "availableFrom": "2025-06-01", // Optional: rent listings available by this date
+ * //   "lat": 30.0189, "lng": 31.4995, "radiusKm": 5, // Optional: within 5 km of a point
+ * //   "north": 30.1, "south": 29.9, "east": 31.6, "west": 31.3, // Optional: within map bounds
+ * //   "userId": "650a1b2c3d4e5f6a7b8c9d0", // Optional: Filter by owner (the listing's userRef)
+ * //   "projectId": "650a1b2c3d4e5f6a7b8c9c0", // Optional: Filter by project (the listing's projectRef)
+ * //   "developerId": "650a1b2c3d4e5f6a7b8c9b0", // Optional: Filter by developer (the listing's developerRef)
+ * //   "listingId": "650a1b2c3d4e5f6a7b8c9d1", // Optional: Filter by listingId
+ * //   "facets": true   // Optional: Return facet counts instead of listings
  * // }
  * 
  * // Example response for successful fetch:
- * // [
+ * // {
+ * //   "items": [
  * //   {
  * //     "_id": "650a1b2c3d4e5f6a7b8c9d0",
+ * //     "projectRef": "650a1b2c3d4e5f6a7b8c9c0",
  * //     "projectName": "Sunrise Apartments",
  * //     "unitName": "Unit A",
  * //     "unitNumber": 101,
@@ -41,10 +106,39 @@ import { connect } from "@/lib/mongod/mongoose";
  * //     "beds": 2,
  * //     "baths": 2,
  * //     "regularPrice": 2000,
- * //     "updatedAt": "2023-10-01T12:34:56.789Z"
+ * //     "updatedAt": "2023-10-01T12:34:56.789Z",
+ * //     "highlights": [ // Only when a text search term is given
+ * //       {
+ * //         "field": "projectName",
+ * //         "fragments": [{ "text": "Sunrise", "highlight": true }, { "text": " Apartments", "highlight": false }]
+ * //       }
+ * //     ]
  * //   },
  * //   ...
- * // ]
+ * //   ],
+ * //   "total": 42,
+ * //   "nextCursor": "eyJzb3J0IjoibmV3ZXN0Iiwi..." // null on the last page
+ * // }
+ * 
+ * // Example response with facets: true:
+ * // {
+ * //   "total": 42,
+ * //   "sell": { "true": 30, "false": 12 },
+ * //   "rent": { "true": 14, "false": 28 },
+ * //   "furnished": { "true": 9, "false": 33 },
+ * //   "parkingSpot": { "true": 25, "false": 17 },
+ * //   "offer": { "true": 4, "false": 38 },
+ * //   "beds": [{ "value": 2, "count": 18 }, { "value": 3, "count": 24 }],
+ * //   "baths": [{ "value": 1, "count": 10 }, { "value": 2, "count": 32 }],
+ * //   "projectName": [{ "projectId": "650a1b2c3d4e5f6a7b8c9c0", "projectName": "Sunrise Apartments", "count": 12 }], // Most matches first
+ * //   "price": [{ "min": 0, "max": 9999, "count": 14 }, ..., { "min": 10000000, "max": null, "count": 1 }]
+ * // }
+ * 
+ * // Example response for an invalid cursor:
+ * // {
+ * //   "success": false,
+ * //   "message": "Invalid cursor. Start again from the first page."
+ * // }
  * 
  * // Example response for server error:
  * // {
@@ -56,48 +150,39 @@ export const POST = async (req: Request) => {
     // Connect to the MongoDB database
     await connect();
 
+    // Every role (and anonymous visitors) can browse listings
+    const denied = checkListingPermission(await getCurrentUser(), "read");
+    if (denied) return deprecated(denied, LISTINGS_PATH);
+
     // Parse the request body to extract search criteria, pagination, and sorting parameters
     const data = await req.json();
 
-    try {
-        // Parse pagination and sorting parameters
-        const startIndex = parseInt(data.startIndex) || 0; // Default start index: 0
-        const limit = parseInt(data.limit) || 9; // Default limit: 9
-        const sortDirection = data.order === 'asc' ? 1 : -1; // Sort direction: 1 for ascending, -1 for descending
+    return deprecated(await searchListings(data), LISTINGS_PATH);
+};
+
+/**
+ * GET API Route Handler for Fetching Listings
+ * 
+ * This function accepts the same search criteria, pagination and sorting parameters as the `POST` handler, as query-string
+ * parameters (e.g. `/api/listing/get?searchTerm=sunrise&sell=true&sort=price_asc&limit=9&cursor=...`), and returns the same
+ * responses.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the search criteria in its query string.
+ * @returns {Response} - Returns a JSON response containing the fetched listings or an error message, along with appropriate status codes.
+ */
+export const GET = async (req: Request) => {
+    // Connect to the MongoDB database
+    await connect();
 
-        // Determine if the search term is numeric
-        const isNumericSearch = !isNaN(Number(data.searchTerm?.trim()));
+    // Every role (and anonymous visitors) can browse listings
+    const denied = checkListingPermission(await getCurrentUser(), "read");
+    if (denied) return deprecated(denied, LISTINGS_PATH);
 
-        // Fetch listings based on search criteria
-        const listings = await Listing.find({
-            ...(data.userId && { userId: data.userId }), // Filter by userId if provided
-            ...(data.listingId && { _id: data.listingId }), // Filter by listingId if provided
-            ...(data.searchTerm?.trim() && {
-                $or: isNumericSearch
-                    ? [
-                        { unitNumber: Number(data.searchTerm.trim()) }, // Search unitNumber if search term is numeric
-                    ]
-                    : [
-                        { projectName: { $regex: data.searchTerm.trim().toLowerCase(), $options: 'i' } }, // Case-insensitive search for projectName
-                        { unitName: { $regex: data.searchTerm.trim().toLowerCase(), $options: 'i' } }, // Case-insensitive search for unitName
-                    ],
-            }),
-        })
-            .sort({ updatedAt: sortDirection }) // Sort by updatedAt field
-            .skip(startIndex) // Skip results for pagination
-            .limit(limit); // Limit the number of results
+    // Query-string values are strings; the filter engine parses them like their JSON counterparts
+    const data = Object.fromEntries(new URL(req.url).searchParams);
 
-        // Return the fetched listings
-        return new Response(JSON.stringify(listings), {
-            status: 200,
-        });
-    } catch (error) {
-        // Log the error for debugging purposes
-        console.log('Error getting posts:', error);
+    return deprecated(await searchListings(data), LISTINGS_PATH);
+};
 
-        // Return a 500 error for server errors
-        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
-            status: 500,
-        });
-    }
-};
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { isValidObjectId } from "mongoose";
+import ListingHistory from "@/lib/modals/listingHistory.modal";
+import Listing from "@/lib/modals/listing.modal";
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+
+/**
+ * POST API Route Handler for Fetching a Listing's Change Log
+ *
+ * This function retrieves the audit history of a property listing by its `listingId`. Each entry describes one update or
+ * deletion with its field-level changes. Entries are returned newest first. Only admins and the owner of the listing can
+ * see its history (the history of a deleted listing is only shown to admins). In case of any server errors, it returns a
+ * 500 error.
+ *
+ * Entries store the ID of the user who made the change; it is resolved to the user's name (`changedBy`), which is `null`
+ * when unknown or when the account no longer exists.
+ *
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the `listingId` in JSON format.
+ * @returns {Response} - Returns a JSON response containing the history entries or an error message, along with appropriate status codes.
+ *
+ * @example
+ * // Example request body:
+ * // {
+ * //   "listingId": "650a1b2c3d4e5f6a7b8c9d0"
+ * // }
+ *
+ * // Example response for successful fetch:
+ * // [
+ * //   {
+ * //     "_id": "650a1b2c3d4e5f6a7b8c9e1",
+ * //     "listingId": "650a1b2c3d4e5f6a7b8c9d0",
+ * //     "action": "update",
+ * //     "changes": [{ "field": "regularPrice", "from": 2000, "to": 2500 }],
+ * //     "changedBy": "Jane Doe",
+ * //     "createdAt": "2023-10-01T12:34:56.789Z"
+ * //   },
+ * //   ...
+ * // ]
+ *
+ * // Example response if listingId is missing:
+ * // {
+ * //   "success": false,
+ * //   "message": "listingId is required."
+ * // }
+ *
+ * // Example response if listingId is not a valid ID:
+ * // {
+ * //   "success": false,
+ * //   "message": "listingId must be a valid ID."
+ * // }
+ *
+ * // Example response for a user who is not an admin and does not own the listing (401 when signed out):
+ * // {
+ * //   "success": false,
+ * //   "message": "You are not allowed to view the history of this listing."
+ * // }
+ *
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error"
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Parse the request body to extract the listingId
+        const data = await req.json();
+
+        if (!data.listingId) {
+            return new Response(JSON.stringify({ success: false, message: "listingId is required." }), {
+                status: 400,
+            });
+        }
+
+        // Reject malformed IDs before they reach MongoDB (they would fail to cast)
+        if (!isValidObjectId(data.listingId)) {
+            return new Response(JSON.stringify({ success: false, message: "listingId must be a valid ID." }), {
+                status: 400,
+            });
+        }
+
+        // The change log is only readable by admins and the owner of the listing
+        const listing = await Listing.findById(data.listingId).select("userRef");
+        const denied = checkListingPermission(await getCurrentUser(), "history", listing ?? {});
+        if (denied) return denied;
+
+        // Fetch the history entries for the listing, newest first, with the names of the users who made them
+        const entries = await ListingHistory.find({ listingId: data.listingId })
+            .sort({ createdAt: -1 })
+            .populate({ path: "userRef", select: "name", model: User })
+            .lean<(Record<string, unknown> & { userRef: { name: string } | null })[]>();
+        const history = entries.map(({ userRef, ...entry }) => ({ ...entry, changedBy: userRef?.name ?? null }));
+
+        // Return the history entries
+        return new Response(JSON.stringify(history), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting listing history:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
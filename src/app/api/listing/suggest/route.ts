@@ -0,0 +1,69 @@
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { findListingSuggestions, MAX_SUGGESTIONS_PER_TYPE } from "@/lib/search/listing.suggestions";
+
+/**
+ * POST API Route Handler for Search Box Suggestions
+ * 
+ * This function returns the suggestions shown under the header search box as the user types: the project names, unit names
+ * and addresses that contain a word starting with the `searchTerm`. Project suggestions carry their `projectId` and unit
+ * suggestions their `listingId`. Terms shorter than two characters return no suggestions. Suggestions go through the same
+ * read permission as the listing search, which every role and anonymous visitors pass. The `limit` is clamped to 1-10.
+ * In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the search term in JSON format.
+ * @returns {Response} - Returns a JSON response containing the suggestions or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "searchTerm": "moun", // The term typed so far
+ * //   "limit": 5            // Optional: Maximum number of suggestions of each kind (default: 5, max: 10)
+ * // }
+ * 
+ * // Example response for successful fetch:
+ * // [
+ * //   { "type": "project", "label": "Mountain View", "detail": "New Cairo", "projectId": "650a1b2c3d4e5f6a7b8c9c0" },
+ * //   { "type": "unit", "label": "Mountain Villa", "detail": "Mountain View", "listingId": "650a1b2c3d4e5f6a7b8c9d0" },
+ * //   { "type": "address", "label": "12 Mountain Road, New Cairo" }
+ * // ]
+ * 
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error"
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Every role (and anonymous visitors) can browse listings
+        const denied = checkListingPermission(await getCurrentUser(), "read");
+        if (denied) return denied;
+
+        // Parse the request body to extract the search term
+        const data = await req.json();
+        const searchTerm = typeof data.searchTerm === "string" ? data.searchTerm : "";
+        const limit = Math.min(Math.max(parseInt(data.limit) || 5, 1), MAX_SUGGESTIONS_PER_TYPE); // Default: 5 of each kind
+
+        const suggestions = await findListingSuggestions(searchTerm, limit);
+
+        // Return the suggestions
+        return new Response(JSON.stringify(suggestions), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting search suggestions:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
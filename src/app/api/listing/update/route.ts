@@ -1,12 +1,23 @@
-import Listing from "@/lib/modals/listing.modal";
+import { isValidObjectId } from "mongoose";
 import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { validationErrorResponse } from "@/lib/validation/validation";
+import { updateListing } from "@/lib/listings/listing.service";
+import { deprecated, listingLocation, LISTINGS_PATH } from "@/lib/listings/listing.rest";
 
 /**
  * POST API Route Handler for Updating a Listing
  * 
+ * @deprecated Use `PUT /api/listings/[id]` (or `PATCH` for partial updates), which returns the updated listing with its
+ * `ETag`. This route shares its logic and keeps its response shape; its responses carry `Deprecation` and `Link` headers.
+ * 
  * This function updates an existing property listing in the database. It uses the `listingId` to find the listing and applies
  * the updates provided in the `formData` object. If the listing is not found, it returns a 404 error. If the update is successful,
- * it returns the updated listing's ID and a success message. In case of any server errors, it returns a 500 error.
+ * it returns the updated listing's ID and a success message. The `formData` is checked against the shared listing schema
+ * first; a missing `listingId`, missing `formData` or invalid fields get a 422 response with one message per field. Changing
+ * the `unitName` or `unitNumber` to one already used by another unit of the same project gets a 409 response. The field-level changes are recorded in the listing history.
+ * Only signed-in users can update listings; anonymous requests get a 401 response. Admins can update any listing and agents
+ * only the listings they own; everyone else gets a 403 response. In case of any server errors, it returns a 500 error.
  * 
  * @async
  * @function
@@ -18,11 +29,13 @@ import { connect } from "@/lib/mongod/mongoose";
  * // {
  * //   "listingId": "650a1b2c3d4e5f6a7b8c9d0",
  * //   "formData": {
- * //     "projectName": "Sunrise Apartments",
+ * //     "projectId": "650a1b2c3d4e5f6a7b8c9c0",
  * //     "unitName": "Unit A",
  * //     "unitNumber": "101",
  * //     "description": "A spacious 2-bedroom apartment.",
  * //     "address": "123 Main St, City, Country",
+ * //     "latitude": 30.0189,  // Optional, together with longitude; omit both to clear the location
+ * //     "longitude": 31.4995,
  * //     "sell": true,
  * //     "rent": false,
  * //     "parkingSpot": true,
@@ -30,7 +43,8 @@ import { connect } from "@/lib/mongod/mongoose";
  * //     "offer": false,
  * //     "beds": 2,
  * //     "baths": 2,
- * //     "regularPrice": 2000
+ * //     "regularPrice": 2000,
+ * //     "images": [{ "url": "/api/upload/listings/3f1c.../original.jpg", "variants": [...] }]
  * //   }
  * // }
  * 
@@ -40,12 +54,44 @@ import { connect } from "@/lib/mongod/mongoose";
  * //   "success": true
  * // }
  * 
+ * // Example response for invalid data:
+ * // {
+ * //   "success": false,
+ * //   "message": "Please fix the highlighted fields.",
+ * //   "errors": { "unitNumber": "Unit number must be a whole number." }
+ * // }
+ * 
+ * // Example response for a unitName already used in the same project (409):
+ * // {
+ * //   "success": false,
+ * //   "message": "Unit Name already exists in this project. Please choose a unique Unit Name.",
+ * //   "errors": { "unitName": "Unit Name already exists in this project. Please choose a unique Unit Name." }
+ * // }
+ * 
+ * // Example response if listingId is not a valid ID (400):
+ * // {
+ * //   "success": false,
+ * //   "message": "listingId must be a valid ID."
+ * // }
+ * 
  * // Example response if listing is not found:
  * // {
  * //   "success": false,
  * //   "message": "Listing not found"
  * // }
  * 
+ * // Example response when not signed in:
+ * // {
+ * //   "success": false,
+ * //   "message": "Authentication required. Please sign in."
+ * // }
+ * 
+ * // Example response if the user does not own the listing:
+ * // {
+ * //   "success": false,
+ * //   "message": "You are not allowed to update this listing."
+ * // }
+ * 
  * // Example response for server error:
  * // {
  * //   "success": false,
@@ -53,54 +99,50 @@ import { connect } from "@/lib/mongod/mongoose";
  * // }
  */
 export const POST = async (req: Request) => {
+    // The replacing route is the listing's own resource, when the listing is known
+    let successor = LISTINGS_PATH;
+
     try {
         // Connect to the MongoDB database
         await connect();
 
+        // Only signed-in users can update listings
+        const { user, response } = await requireUser();
+        if (!user) return deprecated(response, successor);
+
         // Parse the request body to extract the listingId and formData
         const data = await req.json();
 
-        // Find and update the listing by its ID
-        const updatedPost = await Listing.findByIdAndUpdate(
-            data.listingId, // The ID of the listing to update
-            {
-                $set: {
-                    projectName: data.formData.projectName,
-                    unitName: data.formData.unitName,
-                    unitNumber: data.formData.unitNumber,
-                    description: data.formData.description,
-                    address: data.formData.address,
-                    sell: data.formData.sell,
-                    rent: data.formData.rent,
-                    parkingSpot: data.formData.parkingSpot,
-                    furnished: data.formData.furnished,
-                    offer: data.formData.offer,
-                    beds: data.formData.beds,
-                    baths: data.formData.baths,
-                    regularPrice: data.formData.regularPrice,
-                },
-            },
-            { new: true } // Return the updated document
-        );
-
-        // If the listing is not found, return a 404 error
-        if (!updatedPost) {
-            return new Response(JSON.stringify({ success: false, message: "Listing not found" }), {
-                status: 404,
-            });
+        // Validate the request before touching the database
+        if (!data.listingId) {
+            return deprecated(validationErrorResponse({ listingId: "listingId is required." }), successor);
+        }
+        // The ID ends up in the `Link` header, so it must be a valid ID before it is used there
+        if (!isValidObjectId(data.listingId)) {
+            return deprecated(
+                new Response(JSON.stringify({ success: false, message: "listingId must be a valid ID." }), { status: 400 }),
+                successor
+            );
         }
+        successor = listingLocation(data.listingId);
+
+        // Replace the listing's fields (validation, project lookup, permissions and history included)
+        const result = await updateListing(user, data.listingId, data.formData);
+        if (result.response) return deprecated(result.response, successor);
 
         // Return the updated listing's ID and success status
-        return new Response(JSON.stringify({ id: updatedPost._id, success: true }), {
-            status: 200,
-        });
+        return deprecated(
+            new Response(JSON.stringify({ id: result.listing._id, success: true }), { status: 200 }),
+            successor
+        );
     } catch (error) {
         // Log the error for debugging purposes
         console.log('Error updating post:', error);
 
         // Return a 500 error for server errors
-        return new Response(JSON.stringify({ success: false, message: "Error updating post" }), {
-            status: 500,
-        });
+        return deprecated(
+            new Response(JSON.stringify({ success: false, message: "Error updating post" }), { status: 500 }),
+            successor
+        );
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,119 @@
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { findListing } from "@/lib/listings/listing.service";
+import Project from "@/lib/modals/project.modal";
+import { getOfferPrice } from "@/lib/pricing/listing.offer";
+import { buildPaymentSchedule, PaymentPlan } from "@/lib/pricing/payment.plan";
+import { validatePaymentScheduleRequest } from "@/lib/validation/listing.validation";
+import { validationErrorResponse } from "@/lib/validation/validation";
+
+// Define the type for the route parameters
+type Params = { id: string };
+
+/**
+ * POST API Route Handler for the Payment Schedule Calculator
+ * 
+ * This function computes the full payment schedule of one of a sale listing's payment plans: the down payment, every
+ * installment with its due date, and the maintenance fee due on delivery (dated with the project's delivery date, when
+ * known). The buyer may adjust the down payment, the number of years and the installment frequency of the plan; the
+ * price is always the listing's, using the offer price while an offer runs. Unknown listings get a 404 response, invalid
+ * terms and listings without payment plans a 422 response. Listings are public, so no authentication is required. In
+ * case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the calculator options in JSON format.
+ * @param {Object} context - The route context.
+ * @param {Promise<Params>} context.params - The route parameters, with the listing `id`.
+ * @returns {Response} - Returns the payment schedule or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // POST /api/listings/650a1b2c3d4e5f6a7b8c9d0/payment-schedule
+ * // {
+ * //   "planIndex": 0,                // Optional, the first plan by default
+ * //   "downPaymentPercent": 15,      // Optional adjustments of the plan
+ * //   "years": 6,
+ * //   "frequency": "quarterly",
+ * //   "startDate": "2025-01-01"      // Optional, today by default
+ * // }
+ * 
+ * // Example response for success (200):
+ * // {
+ * //   "price": 3000000,
+ * //   "plan": { "name": "10% down, 8 years", "downPaymentPercent": 15, "years": 6, "frequency": "quarterly", "maintenanceFeePercent": 8 },
+ * //   "downPayment": 450000,
+ * //   "installmentCount": 24,
+ * //   "installmentAmount": 106250,
+ * //   "maintenanceFee": 240000,
+ * //   "total": 3240000,
+ * //   "payments": [{ "number": 1, "kind": "downPayment", "dueDate": "2025-01-01T00:00:00.000Z", "amount": 450000 }, ...]
+ * // }
+ * 
+ * // Example response if the listing has no payment plans (422):
+ * // {
+ * //   "success": false,
+ * //   "message": "This listing has no payment plans."
+ * // }
+ */
+export const POST = async (req: Request, { params }: { params: Promise<Params> }) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Every role (and anonymous visitors) can browse listings
+        const denied = checkListingPermission(await getCurrentUser(), "read");
+        if (denied) return denied;
+
+        // Validate the calculator options (a missing body means the first plan as it is)
+        const validation = validatePaymentScheduleRequest((await req.json().catch(() => null)) ?? {});
+        if (!validation.success) return validationErrorResponse(validation.errors);
+        const { planIndex, startDate, downPaymentPercent, years, frequency } = validation.data;
+
+        const { id } = await params;
+        const listing = await findListing(id);
+        if (!listing) {
+            return new Response(JSON.stringify({ success: false, message: "Listing not found" }), {
+                status: 404,
+            });
+        }
+
+        const plans: PaymentPlan[] = listing.toObject().paymentPlans ?? [];
+        if (!listing.sell || plans.length === 0) {
+            return new Response(JSON.stringify({ success: false, message: "This listing has no payment plans." }), {
+                status: 422,
+            });
+        }
+        if (planIndex >= plans.length) return validationErrorResponse({ planIndex: "Plan not found." });
+
+        // Apply the buyer's adjustments to the chosen plan
+        const plan: PaymentPlan = {
+            ...plans[planIndex],
+            downPaymentPercent: downPaymentPercent ?? plans[planIndex].downPaymentPercent,
+            years: years ?? plans[planIndex].years,
+            frequency: frequency ?? plans[planIndex].frequency,
+        };
+
+        // The maintenance fee is due on delivery of the project
+        const project = listing.projectRef ? await Project.findById(listing.projectRef) : null;
+
+        const schedule = buildPaymentSchedule(getOfferPrice(listing) ?? listing.regularPrice, plan, {
+            startDate: startDate ?? new Date(),
+            deliveryDate: project?.deliveryDate ?? null,
+        });
+
+        return new Response(JSON.stringify(schedule), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error computing payment schedule:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,201 @@
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser, requireUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { deleteListing, findListing, updateListing } from "@/lib/listings/listing.service";
+import { computeETag, etagMatches, listingResponse } from "@/lib/listings/listing.rest";
+
+// Define the type for the route parameters
+type Params = { id: string };
+
+/**
+ * GET API Route Handler for a Listing
+ * 
+ * This function returns a listing with its `ETag`. When the `If-None-Match` header holds the current tag, it answers 304
+ * without a body, so clients can cheaply check whether their copy is up to date. Unknown (or malformed) IDs get a 404
+ * response. Listings are public, so no authentication is required. In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object.
+ * @param {Object} context - The route context.
+ * @param {Promise<Params>} context.params - The route parameters, with the listing `id`.
+ * @returns {Response} - Returns the listing or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // GET /api/listings/650a1b2c3d4e5f6a7b8c9d0
+ * // If-None-Match: "q3Jx0v..."   // Optional
+ * 
+ * // Example response for success (200, with an `ETag`):
+ * // { "_id": "650a1b2c3d4e5f6a7b8c9d0", "projectName": "Sunrise Apartments", "unitName": "Unit A", ... }
+ * 
+ * // Example response if the listing is not found (404):
+ * // {
+ * //   "success": false,
+ * //   "message": "Listing not found"
+ * // }
+ */
+export const GET = async (req: Request, { params }: { params: Promise<Params> }) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Every role (and anonymous visitors) can browse listings
+        const denied = checkListingPermission(await getCurrentUser(), "read");
+        if (denied) return denied;
+
+        const { id } = await params;
+        const listing = await findListing(id);
+        if (!listing) {
+            return new Response(JSON.stringify({ success: false, message: "Listing not found" }), {
+                status: 404,
+            });
+        }
+
+        // The client already has this version
+        const etag = computeETag(JSON.stringify(listing));
+        if (etagMatches(req.headers.get("If-None-Match"), etag, true)) {
+            return new Response(null, { status: 304, headers: { ETag: etag } });
+        }
+
+        return listingResponse(listing);
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting listing:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
+
+/**
+ * @function handleUpdate
+ * @description Shared body of the `PUT` and `PATCH` handlers.
+ * 
+ * @async
+ * @param {Request} req - The incoming HTTP request object.
+ * @param {Promise<Params>} params - The route parameters.
+ * @param {boolean} partial - Whether fields missing from the body keep their value (`PATCH`).
+ * @returns {Promise<Response>} The updated listing, or an error response.
+ */
+const handleUpdate = async (req: Request, params: Promise<Params>, partial: boolean): Promise<Response> => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only signed-in users can update listings
+        const { user, response } = await requireUser();
+        if (!user) return response;
+
+        const { id } = await params;
+
+        // A body that is not JSON is reported like a missing form
+        const body = await req.json().catch(() => null);
+        const result = await updateListing(user, id, body, { partial, ifMatch: req.headers.get("If-Match") });
+        if (result.response) return result.response;
+
+        return listingResponse(result.listing);
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error updating listing:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
+
+/**
+ * PUT API Route Handler for Replacing a Listing
+ * 
+ * This function replaces every field of a listing with the JSON body (the same fields as `POST /api/listings`) and returns the
+ * updated listing with its new `ETag`. With an `If-Match` header, the listing is only updated if it still has that tag;
+ * otherwise the response is 412, so concurrent edits are not silently overwritten. Invalid data gets a 422 response, a unit
+ * name or number already used in the same project a 409 response and an unknown listing a 404 response. Only signed-in users
+ * can update listings (401 otherwise); admins can update any listing and agents only the listings they own (403 otherwise).
+ * The field-level changes are recorded in the listing history. In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the listing data in JSON format.
+ * @param {Object} context - The route context.
+ * @param {Promise<Params>} context.params - The route parameters, with the listing `id`.
+ * @returns {Response} - Returns the updated listing or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // PUT /api/listings/650a1b2c3d4e5f6a7b8c9d0
+ * // If-Match: "q3Jx0v..."   // Optional
+ * // { "projectId": "650a1b2c3d4e5f6a7b8c9c0", "unitName": "Unit A", "unitNumber": 101, ... }
+ * 
+ * // Example response if the listing changed since it was read (412):
+ * // {
+ * //   "success": false,
+ * //   "message": "The listing was changed by someone else. Reload it and try again."
+ * // }
+ */
+export const PUT = async (req: Request, { params }: { params: Promise<Params> }) => handleUpdate(req, params, false);
+
+/**
+ * PATCH API Route Handler for Partially Updating a Listing
+ * 
+ * This function updates only the fields present in the JSON body and keeps the others, e.g. `{ "regularPrice": 2500 }`. The
+ * result is validated as a whole listing, so the same rules, status codes and `If-Match` handling as `PUT` apply. To remove
+ * the location, send empty `latitude` and `longitude`.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the changed fields in JSON format.
+ * @param {Object} context - The route context.
+ * @param {Promise<Params>} context.params - The route parameters, with the listing `id`.
+ * @returns {Response} - Returns the updated listing or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // PATCH /api/listings/650a1b2c3d4e5f6a7b8c9d0
+ * // { "regularPrice": 2500, "offer": true }
+ */
+export const PATCH = async (req: Request, { params }: { params: Promise<Params> }) => handleUpdate(req, params, true);
+
+/**
+ * DELETE API Route Handler for Deleting a Listing
+ * 
+ * This function deletes a listing and answers 204 without a body. The deleted values are recorded in the listing history.
+ * With an `If-Match` header, the listing is only deleted if it still has that tag (412 otherwise). An unknown listing gets a
+ * 404 response. Only signed-in users can delete listings (401 otherwise); admins can delete any listing and agents only the
+ * listings they own (403 otherwise). In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object.
+ * @param {Object} context - The route context.
+ * @param {Promise<Params>} context.params - The route parameters, with the listing `id`.
+ * @returns {Response} - Returns an empty 204 response or an error message, along with appropriate status codes.
+ */
+export const DELETE = async (req: Request, { params }: { params: Promise<Params> }) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only signed-in users can delete listings
+        const { user, response } = await requireUser();
+        if (!user) return response;
+
+        const { id } = await params;
+        const result = await deleteListing(user, id, { ifMatch: req.headers.get("If-Match") });
+        if (result.response) return result.response;
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error deleting listing:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,89 @@
+import { connect } from "@/lib/mongod/mongoose";
+import { getCurrentUser, requireUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { searchListings } from "@/lib/listings/listing.search";
+import { createListing } from "@/lib/listings/listing.service";
+import { listingLocation, listingResponse } from "@/lib/listings/listing.rest";
+
+/**
+ * GET API Route Handler for the Listing Collection
+ * 
+ * This function searches listings with the criteria, pagination and sorting parameters of `/api/listing/get`, sent as
+ * query-string parameters, and returns the same page envelope (`items`, `total`, `nextCursor`) or, with `facets=true`, the
+ * facet counts. Listings are public, so no authentication is required. In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the search criteria in its query string.
+ * @returns {Response} - Returns a JSON response containing a page of listings or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // GET /api/listings?searchTerm=sunrise&sell=true&sort=price_asc&limit=9
+ * 
+ * // Example response for successful fetch:
+ * // {
+ * //   "items": [{ "_id": "650a1b2c3d4e5f6a7b8c9d0", "projectName": "Sunrise Apartments", ... }],
+ * //   "total": 42,
+ * //   "nextCursor": "eyJzb3J0IjoicHJpY2VfYXNjIiwi..."
+ * // }
+ */
+export const GET = async (req: Request) => {
+    // Connect to the MongoDB database
+    await connect();
+
+    // Every role (and anonymous visitors) can browse listings
+    const denied = checkListingPermission(await getCurrentUser(), "read");
+    if (denied) return denied;
+
+    return searchListings(Object.fromEntries(new URL(req.url).searchParams));
+};
+
+/**
+ * POST API Route Handler for Creating a Listing
+ * 
+ * This function creates a listing from the JSON body (the same fields as `/api/listing/create`) and answers 201 with the
+ * created listing, its `ETag` and its `Location` (`/api/listings/[id]`). Invalid data or an unknown project gets a 422
+ * response with one message per invalid field, and a unit name or number already used in the same project a 409 response.
+ * Only signed-in admins and agents can create listings; anonymous requests get a 401 response and viewers a 403 response.
+ * In case of any server errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the listing data in JSON format.
+ * @returns {Response} - Returns the created listing or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request:
+ * // POST /api/listings
+ * // { "projectId": "650a1b2c3d4e5f6a7b8c9c0", "unitName": "Unit A", "unitNumber": 101, ... }
+ * 
+ * // Example response for success (201, with `Location: /api/listings/650a1b2c3d4e5f6a7b8c9d0` and an `ETag`):
+ * // { "_id": "650a1b2c3d4e5f6a7b8c9d0", "projectName": "Sunrise Apartments", "unitName": "Unit A", ... }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only signed-in users can create listings
+        const { user, response } = await requireUser();
+        if (!user) return response;
+
+        // A body that is not JSON is reported like a missing form
+        const body = await req.json().catch(() => null);
+        const result = await createListing(user, body);
+        if (result.response) return result.response;
+
+        // Return the created listing and where to find it
+        return listingResponse(result.listing, 201, { Location: listingLocation(result.listing._id) });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error creating listing:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,105 @@
+import Project from "@/lib/modals/project.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { checkProjectPermission } from "@/lib/auth/permissions";
+import { validateProjectInput } from "@/lib/validation/project.validation";
+import { validationErrorResponse } from "@/lib/validation/validation";
+import { isDuplicateKeyError } from "@/lib/validation/duplicateKey";
+import { resolveDeveloper } from "@/lib/developers/developer.resolve";
+
+/**
+ * POST API Route Handler for Creating a New Project
+ * 
+ * This function creates a new project (compound) that listings can belong to. Project names are unique regardless of case
+ * and spacing, so "Mountain View" and "mountain view " cannot both exist; a clash returns a 409 response. The `developer` name is
+ * linked to a Developer, which is created the first time the name is used. Invalid data gets a
+ * 422 response with one message per invalid field. Only signed-in admins and agents can create projects; anonymous requests get a
+ * 401 response and viewers a 403 response.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the project data in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "name": "Mountain View",
+ * //   "developer": "Mountain View Developments",
+ * //   "location": "New Cairo",
+ * //   "amenities": ["Pool", "Gym", "Club House"],
+ * //   "deliveryDate": "2027-06-30",
+ * //   "coverImage": { "url": "/api/upload/listings/3f1c.../original.jpg", "variants": [...] }
+ * // }
+ * 
+ * // Example response for success:
+ * // {
+ * //   "id": "650a1b2c3d4e5f6a7b8c9c0",
+ * //   "success": true
+ * // }
+ * 
+ * // Example response for a duplicate name (409):
+ * // {
+ * //   "success": false,
+ * //   "message": "A project with this name already exists.",
+ * //   "errors": { "name": "A project with this name already exists." }
+ * // }
+ * 
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error. Please try again later."
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only signed-in users can create projects
+        const { user, response } = await requireUser();
+        if (!user) return response;
+
+        // Only admins and agents can create projects
+        const denied = checkProjectPermission(user, "create");
+        if (denied) return denied;
+
+        // Validate the project data before touching the database
+        const validation = validateProjectInput(await req.json());
+        if (!validation.success) return validationErrorResponse(validation.errors);
+        const data = validation.data;
+
+        // Link the project to its developer
+        const developer = await resolveDeveloper(data.developer);
+
+        // Create the project (the unique normalized name rejects duplicates)
+        const project = await Project.create({
+            ...data,
+            developerRef: developer?._id,
+            developer: developer?.name ?? "",
+            userRef: user.id,
+        });
+
+        // Return the created project's ID and success status
+        return new Response(JSON.stringify({ id: project._id, success: true }), {
+            status: 201,
+        });
+    } catch (error) {
+        // A project with the same name already exists
+        if (isDuplicateKeyError(error)) {
+            const message = "A project with this name already exists.";
+            return new Response(JSON.stringify({ success: false, message, errors: { name: message } }), {
+                status: 409,
+            });
+        }
+
+        // Log the error for debugging purposes
+        console.log('Error creating project:', error);
+
+        // Return a generic error message for server errors
+        return new Response(
+            JSON.stringify({ success: false, message: "Internal Server Error. Please try again later." }),
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,89 @@
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { checkProjectPermission } from "@/lib/auth/permissions";
+
+/**
+ * DELETE API Route Handler for Deleting a Project
+ * 
+ * This function deletes a project by its `projectId`. Projects that still have listings cannot be deleted (409 response); move or
+ * delete the listings first. If the project is not found, it returns a 404 error. Only admins can delete projects; anonymous
+ * requests get a 401 response and everyone else a 403 response.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the `projectId` in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "projectId": "650a1b2c3d4e5f6a7b8c9c0"
+ * // }
+ * 
+ * // Example response for successful deletion:
+ * // {
+ * //   "success": true,
+ * //   "message": "Project deleted successfully."
+ * // }
+ * 
+ * // Example response if the project still has listings:
+ * // {
+ * //   "success": false,
+ * //   "message": "This project still has 3 listings. Delete or move them first."
+ * // }
+ */
+export const DELETE = async (req: Request) => {
+    // Connect to the MongoDB database
+    await connect();
+
+    // Only signed-in users can delete projects
+    const { user, response } = await requireUser();
+    if (!user) return response;
+
+    // Only admins can delete projects
+    const denied = checkProjectPermission(user, "delete");
+    if (denied) return denied;
+
+    // Parse the request body to extract the projectId
+    const data = await req.json();
+
+    try {
+        const project = await Project.findById(data.projectId);
+
+        // If the project is not found, return a 404 error
+        if (!project) {
+            return new Response(JSON.stringify({ success: false, message: "Project not found." }), {
+                status: 404,
+            });
+        }
+
+        // Listings must always belong to an existing project
+        const listingCount = await Listing.countDocuments({ projectRef: project._id });
+        if (listingCount > 0) {
+            return new Response(
+                JSON.stringify({
+                    success: false,
+                    message: `This project still has ${listingCount} listing${listingCount === 1 ? "" : "s"}. Delete or move them first.`,
+                }),
+                { status: 409 }
+            );
+        }
+
+        await project.deleteOne();
+
+        // Return a success message if the project is deleted
+        return new Response(JSON.stringify({ success: true, message: "Project deleted successfully." }), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log("Error deleting project:", error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,98 @@
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { escapeRegex, toObjectId } from "@/lib/filters/listing.filters";
+
+/**
+ * POST API Route Handler for Fetching Projects
+ * 
+ * This function retrieves projects sorted by name, each with the number of listed units (`unitCount`). It supports fetching a
+ * single project by `projectId`, filtering by developer (`developerId`) and filtering by a `searchTerm` matched against the
+ * project name. Projects are public, so no authentication is required. In case of any server
+ * errors, it returns a 500 error.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the search criteria in JSON format.
+ * @returns {Response} - Returns a JSON response containing the fetched projects or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "projectId": "650a1b2c3d4e5f6a7b8c9c0", // Optional: Fetch a single project
+ * //   "developerId": "650a1b2c3d4e5f6a7b8c9b0", // Optional: Only the projects of this developer
+ * //   "searchTerm": "mountain",                // Optional: Case-insensitive match on the project name
+ * //   "limit": 100                             // Optional: Maximum number of projects (default: 100)
+ * // }
+ * 
+ * // Example response for successful fetch:
+ * // [
+ * //   {
+ * //     "_id": "650a1b2c3d4e5f6a7b8c9c0",
+ * //     "name": "Mountain View",
+ * //     "developerRef": "650a1b2c3d4e5f6a7b8c9b0",
+ * //     "developer": "Mountain View Developments",
+ * //     "location": "New Cairo",
+ * //     "amenities": ["Pool", "Gym", "Club House"],
+ * //     "deliveryDate": "2027-06-30T00:00:00.000Z",
+ * //     "coverImage": { "url": "/api/upload/listings/3f1c.../original.jpg", "variants": [...] },
+ * //     "unitCount": 12
+ * //   },
+ * //   ...
+ * // ]
+ * 
+ * // Example response for server error:
+ * // {
+ * //   "success": false,
+ * //   "message": "Internal Server Error"
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Parse the request body to extract the search criteria
+        const data = await req.json();
+        const limit = parseInt(data.limit) || 100; // Default limit: 100
+
+        // Build the filter from the optional projectId, developerId and search term (`$match` does not cast ids)
+        const filter: Record<string, unknown> = {};
+        if (data.projectId) filter._id = toObjectId(data.projectId);
+        if (data.developerId) filter.developerRef = toObjectId(data.developerId);
+        if (typeof data.searchTerm === "string" && data.searchTerm.trim()) {
+            filter.name = { $regex: escapeRegex(data.searchTerm.trim()), $options: "i" };
+        }
+
+        const projects = await Project.aggregate([
+            { $match: filter },
+            { $sort: { normalizedName: 1 } },
+            { $limit: limit },
+            // Count the listed units of every project
+            {
+                $lookup: {
+                    from: Listing.collection.name,
+                    localField: "_id",
+                    foreignField: "projectRef",
+                    pipeline: [{ $count: "count" }],
+                    as: "units",
+                },
+            },
+            { $addFields: { unitCount: { $ifNull: [{ $first: "$units.count" }, 0] } } },
+            { $project: { units: 0 } },
+        ]);
+
+        // Return the fetched projects
+        return new Response(JSON.stringify(projects), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting projects:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,116 @@
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { checkProjectPermission } from "@/lib/auth/permissions";
+import { validateProjectInput } from "@/lib/validation/project.validation";
+import { validationErrorResponse } from "@/lib/validation/validation";
+import { isDuplicateKeyError } from "@/lib/validation/duplicateKey";
+import { resolveDeveloper } from "@/lib/developers/developer.resolve";
+
+/**
+ * POST API Route Handler for Updating a Project
+ * 
+ * This function updates an existing project by its `projectId` with the values in `formData`. The `developer` name is linked to a
+ * Developer, which is created the first time the name is used. The project name and developer copied onto its listings are
+ * updated as well. Invalid data gets a 422 response, an unknown project a 404 response
+ * and a name already used by another project a 409 response. Only signed-in admins and agents can update projects; anonymous
+ * requests get a 401 response and viewers a 403 response.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the `projectId` and updated `formData` in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "projectId": "650a1b2c3d4e5f6a7b8c9c0",
+ * //   "formData": {
+ * //     "name": "Mountain View iCity",
+ * //     "developer": "Mountain View Developments",
+ * //     "location": "New Cairo",
+ * //     "amenities": ["Pool", "Gym"],
+ * //     "deliveryDate": "2027-12-31"
+ * //   }
+ * // }
+ * 
+ * // Example response for successful update:
+ * // {
+ * //   "id": "650a1b2c3d4e5f6a7b8c9c0",
+ * //   "success": true
+ * // }
+ * 
+ * // Example response if the project is not found:
+ * // {
+ * //   "success": false,
+ * //   "message": "Project not found"
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only signed-in users can update projects
+        const { user, response } = await requireUser();
+        if (!user) return response;
+
+        // Only admins and agents can update projects
+        const denied = checkProjectPermission(user, "update");
+        if (denied) return denied;
+
+        // Validate the request before touching the database
+        const data = await req.json();
+        if (!data.projectId) {
+            return validationErrorResponse({ projectId: "projectId is required." });
+        }
+        const validation = validateProjectInput(data.formData);
+        if (!validation.success) return validationErrorResponse(validation.errors);
+        const formData = validation.data;
+
+        // Find the project by its ID
+        const updatedProject = await Project.findById(data.projectId);
+
+        // If the project is not found, return a 404 error
+        if (!updatedProject) {
+            return new Response(JSON.stringify({ success: false, message: "Project not found" }), {
+                status: 404,
+            });
+        }
+
+        // Apply the changes; optional fields left empty in the form are removed, and the save hook keeps the normalized name in sync
+        const developer = await resolveDeveloper(formData.developer);
+        updatedProject.set({ ...formData, developerRef: developer?._id, developer: developer?.name ?? "" });
+        await updatedProject.save();
+
+        // Keep the project name and developer copied onto the listings in sync
+        await Listing.updateMany(
+            { projectRef: updatedProject._id },
+            developer
+                ? { $set: { projectName: updatedProject.name, developerRef: developer._id } }
+                : { $set: { projectName: updatedProject.name }, $unset: { developerRef: 1 } }
+        );
+
+        // Return the updated project's ID and success status
+        return new Response(JSON.stringify({ id: updatedProject._id, success: true }), {
+            status: 200,
+        });
+    } catch (error) {
+        // Another project already uses this name
+        if (isDuplicateKeyError(error)) {
+            const message = "A project with this name already exists.";
+            return new Response(JSON.stringify({ success: false, message, errors: { name: message } }), {
+                status: 409,
+            });
+        }
+
+        // Log the error for debugging purposes
+        console.log('Error updating project:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Error updating project" }), {
+            status: 500,
+        });
+    }
+};
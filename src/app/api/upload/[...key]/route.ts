@@ -0,0 +1,38 @@
+import { LocalStorage } from "@/lib/storage/local.storage";
+import { contentTypeForKey } from "@/lib/storage/images";
+
+/**
+ * GET API Route Handler for Serving Uploaded Images
+ * 
+ * This function serves images stored by the local disk storage backend. Files are immutable (every upload gets a new key),
+ * so they are sent with a long-lived cache header. It returns a 404 error if the file does not exist.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object.
+ * @param {Object} context - The route context.
+ * @param {Promise<{ key: string[] }>} context.params - The storage key, split on "/".
+ * @returns {Response} - Returns the image, or a JSON error response with the appropriate status code.
+ * 
+ * @example
+ * // GET /api/upload/listings/3f1c2b7e-....jpg
+ */
+export const GET = async (req: Request, { params }: { params: Promise<{ key: string[] }> }) => {
+    const { key } = await params;
+    const storageKey = key.join("/");
+
+    const body = await new LocalStorage().read(storageKey);
+    if (!body) {
+        return new Response(JSON.stringify({ success: false, message: "Image not found." }), {
+            status: 404,
+        });
+    }
+
+    return new Response(new Uint8Array(body), {
+        status: 200,
+        headers: {
+            "Content-Type": contentTypeForKey(storageKey),
+            "Cache-Control": "public, max-age=31536000, immutable",
+        },
+    });
+};
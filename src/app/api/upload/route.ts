@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import { requireUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { getStorage } from "@/lib/storage/storage";
+import { MAX_IMAGES_PER_UPLOAD, validateImage } from "@/lib/storage/images";
+import { generateImageVariants } from "@/lib/storage/variants";
+import { ListingImage } from "@/lib/storage/listingImage";
+
+/**
+ * POST API Route Handler for Uploading Listing Images
+ * 
+ * This function accepts a `multipart/form-data` request with one or more files in the `files` field. Every file must be a
+ * JPEG, PNG or WebP image smaller than 5 MB; if any file is invalid, nothing is stored and a 400 error is returned.
+ * Valid files are written to the configured storage backend together with resized WebP variants (320, 640, 1024 and 1600px
+ * wide, never upscaled) and a blurred placeholder. The stored images are returned in upload order.
+ * Only users who can create listings (admins and agents) can upload images.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the files as multipart form data.
+ * @returns {Response} - Returns a JSON response with the image URLs or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request (multipart/form-data):
+ * // files=<living-room.jpg>, files=<kitchen.png>
+ * 
+ * // Example response for success:
+ * // {
+ * //   "success": true,
+ * //   "images": [
+ * //     {
+ * //       "url": "/api/upload/listings/3f1c.../original.jpg",
+ * //       "width": 1200,
+ * //       "height": 800,
+ * //       "blurDataURL": "data:image/webp;base64,...",
+ * //       "variants": [
+ * //         { "width": 320, "url": "/api/upload/listings/3f1c.../w320.webp" },
+ * //         { "width": 640, "url": "/api/upload/listings/3f1c.../w640.webp" },
+ * //         { "width": 1024, "url": "/api/upload/listings/3f1c.../w1024.webp" }
+ * //       ]
+ * //     }
+ * //   ]
+ * // }
+ * 
+ * // Example response for an invalid file:
+ * // {
+ * //   "success": false,
+ * //   "message": "kitchen.gif: Only JPEG, PNG and WebP images are allowed."
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Only users who can create listings can upload their images
+        const { user, response } = await requireUser();
+        if (!user) return response;
+        const denied = checkListingPermission(user, "create");
+        if (denied) return denied;
+
+        // Parse the multipart body to extract the files
+        const formData = await req.formData();
+        const files = formData.getAll("files").filter((entry): entry is File => entry instanceof File);
+
+        if (files.length === 0 || files.length > MAX_IMAGES_PER_UPLOAD) {
+            return new Response(
+                JSON.stringify({ success: false, message: `Please upload between 1 and ${MAX_IMAGES_PER_UPLOAD} images.` }),
+                { status: 400 }
+            );
+        }
+
+        // Validate every file before storing any of them
+        const images = [];
+        for (const file of files) {
+            const bytes = Buffer.from(await file.arrayBuffer());
+            const result = validateImage(file.type, bytes);
+            if ("error" in result) {
+                return new Response(JSON.stringify({ success: false, message: `${file.name}: ${result.error}` }), {
+                    status: 400,
+                });
+            }
+            images.push({ bytes, contentType: file.type, extension: result.extension });
+        }
+
+        // Store every original with its variants; processed one at a time to keep memory usage low
+        const storage = getStorage();
+        const stored: ListingImage[] = [];
+        for (const image of images) {
+            const prefix = `listings/${randomUUID()}`;
+            const { width, height, blurDataURL, variants } = await generateImageVariants(image.bytes);
+
+            const url = await storage.save(`${prefix}/original.${image.extension}`, image.bytes, image.contentType);
+            const variantUrls = [];
+            for (const variant of variants) {
+                variantUrls.push({
+                    width: variant.width,
+                    url: await storage.save(`${prefix}/w${variant.width}.webp`, variant.body, "image/webp"),
+                });
+            }
+
+            stored.push({ url, width, height, blurDataURL, variants: variantUrls });
+        }
+
+        return new Response(JSON.stringify({ success: true, images: stored }), {
+            status: 201,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error uploading images:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,63 @@
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+
+/**
+ * POST API Route Handler for Fetching Users
+ * 
+ * This function returns every user account with its role, sorted by name. It is reserved for admins: anonymous requests get a
+ * 401 response and other roles a 403 response. Password hashes are never returned.
+ * 
+ * @async
+ * @function
+ * @returns {Response} - Returns a JSON response containing the users or an error message, along with appropriate status codes.
+ * 
+ * @example
+ * // Example response for successful fetch:
+ * // [
+ * //   {
+ * //     "_id": "650a1b2c3d4e5f6a7b8c9d0",
+ * //     "name": "Mona Hassan",
+ * //     "email": "mona@example.com",
+ * //     "role": "agent",
+ * //     "createdAt": "2023-10-01T12:34:56.789Z"
+ * //   },
+ * //   ...
+ * // ]
+ * 
+ * // Example response for a non-admin:
+ * // {
+ * //   "success": false,
+ * //   "message": "Only admins can manage users."
+ * // }
+ */
+export const POST = async () => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only admins can manage users
+        const { user, response } = await requireUser();
+        if (!user) return response;
+        if (user.role !== "admin") {
+            return new Response(JSON.stringify({ success: false, message: "Only admins can manage users." }), {
+                status: 403,
+            });
+        }
+
+        // Fetch every user, sorted by name
+        const users = await User.find({}, { name: 1, email: 1, role: 1, createdAt: 1 }).sort({ name: 1 });
+
+        return new Response(JSON.stringify(users), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting users:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,97 @@
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { requireUser } from "@/lib/auth/session";
+import { isRole } from "@/lib/auth/permissions";
+
+/**
+ * POST API Route Handler for Changing a User's Role
+ * 
+ * This function changes the role of a user account. It is reserved for admins: anonymous requests get a 401 response and
+ * other roles a 403 response. Admins cannot change their own role, so there is always at least one admin left.
+ * 
+ * @async
+ * @function
+ * @param {Request} req - The incoming HTTP request object containing the `userId` and new `role` in JSON format.
+ * @returns {Response} - Returns a JSON response indicating success or failure, along with appropriate status codes.
+ * 
+ * @example
+ * // Example request body:
+ * // {
+ * //   "userId": "650a1b2c3d4e5f6a7b8c9d0",
+ * //   "role": "agent"
+ * // }
+ * 
+ * // Example response for success:
+ * // {
+ * //   "success": true,
+ * //   "user": { "id": "650a1b2c3d4e5f6a7b8c9d0", "name": "Mona Hassan", "email": "mona@example.com", "role": "agent" }
+ * // }
+ * 
+ * // Example response for an invalid role:
+ * // {
+ * //   "success": false,
+ * //   "message": "Role must be one of: admin, agent, viewer."
+ * // }
+ * 
+ * // Example response if the user is not found:
+ * // {
+ * //   "success": false,
+ * //   "message": "User not found."
+ * // }
+ */
+export const POST = async (req: Request) => {
+    try {
+        // Connect to the MongoDB database
+        await connect();
+
+        // Only admins can manage users
+        const { user, response } = await requireUser();
+        if (!user) return response;
+        if (user.role !== "admin") {
+            return new Response(JSON.stringify({ success: false, message: "Only admins can manage users." }), {
+                status: 403,
+            });
+        }
+
+        // Parse the request body to extract the userId and role
+        const data = await req.json();
+
+        if (!isRole(data.role)) {
+            return new Response(JSON.stringify({ success: false, message: "Role must be one of: admin, agent, viewer." }), {
+                status: 400,
+            });
+        }
+
+        // Admins cannot demote themselves
+        if (data.userId === user.id) {
+            return new Response(JSON.stringify({ success: false, message: "You cannot change your own role." }), {
+                status: 400,
+            });
+        }
+
+        // Find and update the user's role
+        const updatedUser = await User.findByIdAndUpdate(data.userId, { $set: { role: data.role } }, { new: true });
+
+        if (!updatedUser) {
+            return new Response(JSON.stringify({ success: false, message: "User not found." }), {
+                status: 404,
+            });
+        }
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                user: { id: updatedUser._id, name: updatedUser.name, email: updatedUser.email, role: updatedUser.role },
+            }),
+            { status: 200 }
+        );
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error updating user role:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -3,12 +3,22 @@
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import toast from "react-hot-toast";
+import ImageUploader from "@/components/ImageUploader";
+import FieldError from "@/components/FieldError";
+import LocationFields from "@/components/LocationFields";
+import OfferFields from "@/components/OfferFields";
+import PaymentPlanFields, { PaymentPlanValues } from "@/components/PaymentPlanFields";
+import RentalTermsFields, { EMPTY_RENTAL_TERMS } from "@/components/RentalTermsFields";
+import ProjectPicker from "@/components/ProjectPicker";
+import UnitAttributeFields, { EMPTY_UNIT_ATTRIBUTES } from "@/components/UnitAttributeFields";
+import { ListingImage } from "@/lib/storage/listingImage";
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode, isCurrencyCode } from "@/lib/pricing/currency";
 
 /**
  * CreateListing Component
  * 
  * This component provides a form for creating a new property listing. It includes fields for project details, unit information,
- * listing options, and pricing. The form data is submitted to the `/api/listing/create` endpoint. Upon successful submission,
+ * listing options, pricing and photos. The form data is submitted to the `/api/listing/create` endpoint. Upon successful submission,
  * the user is redirected to the newly created listing's page. Error handling and loading states are also managed.
  * 
  * @component
@@ -19,23 +29,34 @@ import toast from "react-hot-toast";
  */
 export default function CreateListing() {
     const [loading, setLoading] = useState(false); // Loading state for form submission
+    const [errors, setErrors] = useState<Record<string, string>>({}); // Field-level validation messages from the API
     const router = useRouter(); // Next.js router for navigation
 
     // State to manage form data
     const [formData, setFormData] = useState({
-        projectName: '',
+        projectId: '',
         unitName: '',
         unitNumber: '',
         description: '',
         address: '',
+        latitude: '',
+        longitude: '',
         sell: false,
         rent: true,
         parkingSpot: true,
         furnished: true,
-        offer: true,
+        offer: false,
+        discountPrice: '',
+        offerStartsAt: '',
+        offerEndsAt: '',
         beds: 1,
         baths: 1,
+        ...EMPTY_UNIT_ATTRIBUTES,
         regularPrice: 0,
+        currency: BASE_CURRENCY as CurrencyCode,
+        paymentPlans: [] as PaymentPlanValues[],
+        rentalTerms: EMPTY_RENTAL_TERMS,
+        images: [] as ListingImage[],
     });
 
     /**
@@ -46,6 +67,9 @@ export default function CreateListing() {
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value, type, checked } = e.target;
 
+        // Hide the field's validation message once it is edited
+        setErrors((prev) => ({ ...prev, [name]: '' }));
+
         setFormData((prev) => ({
             ...prev,
             [name]: type === 'checkbox' ? checked : value, // Handle checkboxes and other inputs differently
@@ -78,6 +102,7 @@ export default function CreateListing() {
 
             // Handle API response
             if (data.success === false) {
+                setErrors(data.errors || {}); // Show field-level messages next to the inputs
                 console.log(data);
                 toast.error(data.message); // Display error message from the backend
             } else {
@@ -97,19 +122,18 @@ export default function CreateListing() {
             <div className="max-w-2xl w-full bg-white p-8 rounded-lg shadow-lg">
                 <h1 className="text-2xl font-bold text-[#244856] mb-6">Create a Listing</h1>
                 <form onSubmit={handleSubmit}>
-                    {/* Project Name, Unit Name, and Unit Number */}
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
-                        <div>
-                            <label className="block text-sm font-medium text-[#244856]">Project Name</label>
-                            <input
-                                type="text"
-                                name="projectName"
-                                value={formData.projectName}
-                                onChange={handleChange}
-                                className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
-                                placeholder="Project Name"
-                                required
+                    {/* Project, Unit Name, and Unit Number */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+                        <div className="sm:col-span-2">
+                            <label className="block text-sm font-medium text-[#244856]">Project</label>
+                            <ProjectPicker
+                                value={formData.projectId}
+                                onChange={(projectId) => {
+                                    setErrors((prev) => ({ ...prev, projectId: '' }));
+                                    setFormData((prev) => ({ ...prev, projectId }));
+                                }}
                             />
+                            <FieldError message={errors.projectId} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Unit Name</label>
@@ -122,6 +146,7 @@ export default function CreateListing() {
                                 placeholder="Unit Name"
                                 required
                             />
+                            <FieldError message={errors.unitName} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Unit Number</label>
@@ -135,6 +160,7 @@ export default function CreateListing() {
                                 placeholder="Unit Number"
                                 required
                             />
+                            <FieldError message={errors.unitNumber} />
                         </div>
                     </div>
 
@@ -151,6 +177,7 @@ export default function CreateListing() {
                                 placeholder="Description"
                                 required
                             />
+                            <FieldError message={errors.description} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Address</label>
@@ -163,9 +190,24 @@ export default function CreateListing() {
                                 placeholder="Address"
                                 required
                             />
+                            <FieldError message={errors.address} />
                         </div>
                     </div>
 
+                    {/* Location (optional, used by the radius and map searches) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Location</h2>
+                        <LocationFields
+                            latitude={formData.latitude}
+                            longitude={formData.longitude}
+                            errors={errors}
+                            onChange={(latitude, longitude) => {
+                                setErrors((prev) => ({ ...prev, latitude: '', longitude: '' }));
+                                setFormData((prev) => ({ ...prev, latitude, longitude }));
+                            }}
+                        />
+                    </div>
+
                     {/* Listing Options */}
                     <div className="mb-8">
                         <h2 className="text-lg font-semibold text-[#244856] mb-4">Listing Options</h2>
@@ -183,6 +225,20 @@ export default function CreateListing() {
                                 </label>
                             ))}
                         </div>
+                        <FieldError message={errors.sell} />
+                    </div>
+
+                    {/* Unit Details (optional, used by the search filters) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Unit Details</h2>
+                        <UnitAttributeFields
+                            values={formData}
+                            errors={errors}
+                            onChange={(values) => {
+                                setErrors((prev) => ({ ...prev, area: '', floor: '', unitType: '', finishing: '', deliveryStatus: '' }));
+                                setFormData((prev) => ({ ...prev, ...values }));
+                            }}
+                        />
                     </div>
 
                     {/* Beds, Baths, and Price */}
@@ -199,6 +255,7 @@ export default function CreateListing() {
                                 max={10}
                                 required
                             />
+                            <FieldError message={errors.beds} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Baths</label>
@@ -212,21 +269,91 @@ export default function CreateListing() {
                                 max={10}
                                 required
                             />
+                            <FieldError message={errors.baths} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">
-                                Regular price ($)
+                                Regular price
                             </label>
-                            <input
-                                type="number"
-                                name="regularPrice"
-                                value={formData.regularPrice}
-                                onChange={handleChange}
-                                className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
-                                min={0}
-                                required
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    name="regularPrice"
+                                    value={formData.regularPrice}
+                                    onChange={handleChange}
+                                    className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                                    min={0}
+                                    required
+                                />
+                                {/* The currency of every price of the listing (discount, deposit) */}
+                                <select
+                                    name="currency"
+                                    value={formData.currency}
+                                    onChange={(e) => {
+                                        const { value } = e.target;
+                                        setErrors((prev) => ({ ...prev, currency: '' }));
+                                        if (isCurrencyCode(value)) setFormData((prev) => ({ ...prev, currency: value }));
+                                    }}
+                                    aria-label="Currency"
+                                    className="mt-1 block px-2 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                                >
+                                    {CURRENCIES.map((code) => (
+                                        <option key={code} value={code}>
+                                            {code}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <FieldError message={errors.regularPrice} />
+                            <FieldError message={errors.currency} />
+                        </div>
+                    </div>
+
+                    {/* Rental Terms (rent listings only) */}
+                    {formData.rent && (
+                        <div className="mb-8">
+                            <h2 className="text-lg font-semibold text-[#244856] mb-4">Rental Terms</h2>
+                            <RentalTermsFields
+                                values={formData.rentalTerms}
+                                errors={errors}
+                                onChange={(rentalTerms) => setFormData((prev) => ({ ...prev, rentalTerms }))}
                             />
                         </div>
+                    )}
+
+                    {/* Payment Plans (sale listings only) */}
+                    {formData.sell && (
+                        <div className="mb-8">
+                            <h2 className="text-lg font-semibold text-[#244856] mb-4">Payment Plans</h2>
+                            <PaymentPlanFields
+                                plans={formData.paymentPlans}
+                                errors={errors}
+                                onChange={(paymentPlans) => setFormData((prev) => ({ ...prev, paymentPlans }))}
+                            />
+                        </div>
+                    )}
+
+                    {/* Special Offer (optional discounted price, shown with the regular price struck through) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Special Offer</h2>
+                        <OfferFields
+                            values={formData}
+                            errors={errors}
+                            onChange={(values) => {
+                                setErrors((prev) => ({ ...prev, discountPrice: '', offerStartsAt: '', offerEndsAt: '' }));
+                                setFormData((prev) => ({ ...prev, ...values }));
+                            }}
+                        />
+                    </div>
+
+                    {/* Photos */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Photos</h2>
+                        <ImageUploader
+                            images={formData.images}
+                            onChange={(images) => setFormData((prev) => ({ ...prev, images }))}
+                        />
+                        <FieldError message={errors.images} />
                     </div>
 
                     {/* Submit Button */}
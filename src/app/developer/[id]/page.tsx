@@ -0,0 +1,239 @@
+/**
+ * @file Developer page for displaying a developer's portfolio.
+ * @module DeveloperPage
+ * @description This page fetches a developer from `/api/developer/get`, its projects (with their unit counts) from
+ * `/api/project/get` and its available units through the `developerId` filter of `/api/listing/get`, and shows them as
+ * the developer's portfolio.
+ * 
+ * @returns {JSX.Element} The rendered DeveloperPage component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <DeveloperPage params={{ id: "650a1b2c3d4e5f6a7b8c9b0" }} />
+ */
+
+import Link from "next/link";
+import { unstable_noStore as noStore } from 'next/cache';
+import { FaBath, FaBed, FaMapMarkerAlt } from "react-icons/fa";
+import ListingPhoto from "@/components/ListingPhoto";
+import PriceTag from "@/components/PriceTag";
+import type { ListingPricing } from "@/lib/pricing/listing.offer";
+import { ListingImage } from "@/lib/storage/listingImage";
+import img1 from "@/assets/images/download (1).jpeg";
+import img2 from "@/assets/images/download (2).jpeg";
+import img3 from "@/assets/images/download (3).jpeg";
+import img4 from "@/assets/images/download.jpeg";
+import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering (SSR)
+
+// Define the type for a developer
+interface Developer {
+    _id: string;
+    name: string;
+    projectCount: number;
+    unitCount: number;
+}
+
+// Define the type for a project of the developer
+interface Project {
+    _id: string;
+    name: string;
+    location?: string;
+    coverImage?: ListingImage;
+    unitCount: number;
+}
+
+// Define the type for a unit of the developer
+interface Listing extends ListingPricing {
+    _id: string;
+    projectName: string;
+    unitName: string;
+    beds: number;
+    baths: number;
+    regularPrice: number;
+    images?: ListingImage[];
+}
+
+interface Params {
+    id: string;
+}
+
+/**
+ * @function fetchJson
+ * @description Posts a JSON body to an API route and returns the response when it is an array, or the `items` of a
+ * paginated response (such as the listing search).
+ * 
+ * @async
+ * @param {string} path - The API route path.
+ * @param {Object} body - The request body.
+ * @returns {Promise<T[]>} The returned array, or an empty array on errors.
+ */
+async function fetchJson<T>(path: string, body: object): Promise<T[]> {
+    const res = await fetch(`http://localhost:3000${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        cache: 'no-store', // Ensure no caching
+    });
+    const data = await res.json();
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data.items) ? data.items : [];
+}
+
+/**
+ * @async
+ * @function DeveloperPage
+ * @param {Object} params - The parameters passed to the component.
+ * @param {string} params.id - The ID of the developer to fetch and display.
+ * @returns {JSX.Element} The rendered DeveloperPage component.
+ */
+export default async function DeveloperPage({ params }: { params: Promise<Params> }) {
+    const resolvedParams = await params; // Await the promise
+    noStore(); // Ensure no caching for dynamic rendering
+    const placeholderImages = [img1, img2, img3, img4, img5];
+    let developer: Developer | null = null;
+    let projects: Project[] = [];
+    let listings: Listing[] = [];
+
+    try {
+        [developer] = await fetchJson<Developer>('/api/developer/get', { developerId: resolvedParams.id });
+
+        if (developer) {
+            // Fetch the projects and the available units of the developer in parallel
+            [projects, listings] = await Promise.all([
+                fetchJson<Project>('/api/project/get', { developerId: developer._id }),
+                fetchJson<Listing>('/api/listing/get', { developerId: developer._id, sort: 'newest', limit: 100 }),
+            ]);
+        }
+    } catch (error) {
+        console.error("Error fetching developer:", error);
+    }
+
+    // Display an error message if the developer cannot be loaded
+    if (!developer) {
+        return (
+            <main className="flex items-center justify-center min-h-screen bg-gray-100">
+                <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full text-center">
+                    <h1 className="text-3xl font-bold text-[#244856] mb-4">
+                        Developer Not Found
+                    </h1>
+                    <p className="text-gray-600 mb-6">
+                        The developer you are looking for could not be loaded. It may have been removed.
+                    </p>
+                    <Link href="/" className="text-[#244856] hover:underline">
+                        Go Back Home
+                    </Link>
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <div className="bg-gray-100 min-h-screen py-12">
+            <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Developer Header */}
+                <div className="bg-white rounded-lg shadow-lg p-6 mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <h1 className="text-3xl font-bold text-[#244856]">{developer.name}</h1>
+                    <div className="flex gap-8 text-center">
+                        <div>
+                            <p className="text-2xl font-bold text-[#e74833]">{developer.projectCount}</p>
+                            <p className="text-gray-600">Projects</p>
+                        </div>
+                        <div>
+                            <p className="text-2xl font-bold text-[#e74833]">{developer.unitCount}</p>
+                            <p className="text-gray-600">Available Units</p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Projects */}
+                <h2 className="text-2xl font-bold text-[#244856] mb-6">Projects</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
+                    {projects.length > 0 ? (
+                        projects.map((project, index) => (
+                            <Link
+                                href={`/project/${project._id}`}
+                                key={project._id}
+                                className="bg-white rounded-lg shadow-lg overflow-hidden"
+                            >
+                                <div className="relative h-48">
+                                    <ListingPhoto
+                                        image={project.coverImage}
+                                        fallback={placeholderImages[index % placeholderImages.length]}
+                                        alt={project.name}
+                                        sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                                    />
+                                </div>
+                                <div className="p-6">
+                                    <h3 className="text-xl font-bold text-[#244856] mb-2">{project.name}</h3>
+                                    {project.location && (
+                                        <p className="flex items-center text-gray-600 mb-2">
+                                            <FaMapMarkerAlt className="text-[#e74833] mr-2" />
+                                            {project.location}
+                                        </p>
+                                    )}
+                                    <p className="text-gray-600">
+                                        {project.unitCount} {project.unitCount === 1 ? 'unit' : 'units'} available
+                                    </p>
+                                </div>
+                            </Link>
+                        ))
+                    ) : (
+                        <p className="text-center text-gray-600 col-span-full">
+                            This developer has no projects yet.
+                        </p>
+                    )}
+                </div>
+
+                {/* Available Units */}
+                <h2 className="text-2xl font-bold text-[#244856] mb-6">
+                    Available Units ({developer.unitCount})
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+                    {listings.length > 0 ? (
+                        listings.map((listing, index) => (
+                            <Link
+                                href={`/listing/${listing._id}`}
+                                key={listing._id}
+                                className="bg-white rounded-lg shadow-lg overflow-hidden"
+                            >
+                                <div className="relative h-48">
+                                    <ListingPhoto
+                                        image={listing.images?.[0]}
+                                        fallback={placeholderImages[index % placeholderImages.length]}
+                                        alt={listing.projectName}
+                                        sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+                                    />
+                                </div>
+                                <div className="p-6">
+                                    <h3 className="text-xl font-bold text-[#244856] mb-2">
+                                        {listing.projectName}
+                                    </h3>
+                                    <p className="text-gray-600 mb-4">{listing.unitName}</p>
+                                    <div className="flex items-center space-x-4 mb-4">
+                                        <div className="flex items-center">
+                                            <FaBed className="text-[#e74833]" />
+                                            <span className="ml-2 text-gray-600">{listing.beds} Beds</span>
+                                        </div>
+                                        <div className="flex items-center">
+                                            <FaBath className="text-[#e74833]" />
+                                            <span className="ml-2 text-gray-600">{listing.baths} Baths</span>
+                                        </div>
+                                    </div>
+                                    <PriceTag listing={listing} />
+                                </div>
+                            </Link>
+                        ))
+                    ) : (
+                        <p className="text-center text-gray-600 col-span-full">
+                            This developer has no available units right now.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
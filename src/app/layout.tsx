@@ -2,7 +2,8 @@
  * @file RootLayout component for the application.
  * @module RootLayout
  * @description This component serves as the root layout for the application. It wraps all pages with a consistent layout,
- * including a header and a toast notification system. It also sets up global fonts and metadata for the application.
+ * including a header and a toast notification system. It also sets up global fonts and metadata for the application,
+ * and shares the display currency picked in the header with every page.
  * 
  * @param {Object} props - The props passed to the component.
  * @param {React.ReactNode} props.children - The child components to be rendered within the layout.
@@ -19,6 +20,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import Header from "@/components/Header";
+import CurrencyProvider from "@/components/CurrencyProvider";
 import { Toaster } from "react-hot-toast";
 
 // Load Geist Sans and Geist Mono fonts
@@ -57,8 +59,10 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Header /> {/* Render the header component */}
-        {children} {/* Render the child components */}
+        <CurrencyProvider> {/* Display currency and exchange rates for the prices */}
+          <Header /> {/* Render the header component */}
+          {children} {/* Render the child components */}
+        </CurrencyProvider>
         <Toaster position="top-right" /> {/* Toast notification system */}
       </body>
     </html>
@@ -2,7 +2,9 @@
  * @file Post component for displaying detailed information about a listing.
  * @module Post
  * @description This component fetches listing data based on the provided `listingId` parameter,
- * displays the listing details, and includes functionality to edit or delete the listing.
+ * displays the listing details and its change history, and includes functionality to edit or delete the listing.
+ * The edit and delete actions are only shown to users whose role allows them (admins, and agents who own the listing);
+ * the change history is only fetched and shown for admins and the owner of the listing.
  * It also handles error states when the listing cannot be loaded.
  * 
  * @param {Object} params - The parameters passed to the component.
@@ -20,9 +22,28 @@ import img3 from "@/assets/images/download (3).jpeg";
 import img4 from "@/assets/images/download.jpeg";
 import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
 import DeleteButton from "@/components/DeleteButton";
-import Image from "next/image";
+import ListingHistory, { HistoryEntry } from "@/components/ListingHistory";
+import ListingPhoto from "@/components/ListingPhoto";
+import PriceTag, { Price } from "@/components/PriceTag";
+import PaymentCalculator from "@/components/PaymentCalculator";
+import { ListingImage } from "@/lib/storage/listingImage";
 import Link from "next/link";
 import { unstable_noStore as noStore } from 'next/cache';
+import { cookies } from "next/headers";
+import { getCurrentUser, SESSION_COOKIE } from "@/lib/auth/session";
+import { canPerformListingAction } from "@/lib/auth/permissions";
+import { getOfferPrice, isOfferActive } from "@/lib/pricing/listing.offer";
+import {
+    DELIVERY_STATUSES,
+    DeliveryStatus,
+    FINISHING_LEVELS,
+    FinishingLevel,
+    formatFloor,
+    getPricePerSqm,
+    UNIT_TYPES,
+    UnitType,
+} from "@/lib/listings/unit.attributes";
+import { getRentSuffix } from "@/lib/pricing/rental.terms";
 
 export const dynamic = 'force-dynamic'; // Force dynamic rendering (SSR)
 
@@ -42,7 +63,10 @@ export default async function Post({ params }: { params: Promise<Params> }) {
     const resolvedParams = await params; // Await the promise
     noStore(); // Ensure no caching for dynamic rendering
     let listing = null;
-    const images = [img1, img2, img3, img4, img5];
+    let history: HistoryEntry[] = [];
+    const placeholderImages = [img1, img2, img3, img4, img5];
+    const currentUser = await getCurrentUser(); // Used to decide whether to show the edit, delete and history sections
+    let canViewHistory = false;
 
     try {
         const res = await fetch('http://localhost:3000/api/listing/get', {
@@ -54,7 +78,24 @@ export default async function Post({ params }: { params: Promise<Params> }) {
             cache: 'no-store', // Ensure no caching
         });
         const data = await res.json();
-        listing = data[0];
+        listing = data.items?.[0];
+
+        // Fetch the change log of the listing for admins and its owner, signed in as the current user
+        canViewHistory = Boolean(listing) && canPerformListingAction(currentUser, "history", listing);
+        if (canViewHistory) {
+            const sessionToken = (await cookies()).get(SESSION_COOKIE)?.value ?? "";
+            const historyRes = await fetch('http://localhost:3000/api/listing/history', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Cookie: `${SESSION_COOKIE}=${sessionToken}`,
+                },
+                body: JSON.stringify({ listingId: resolvedParams.id }),
+                cache: 'no-store', // Ensure no caching
+            });
+            const historyData = await historyRes.json();
+            history = Array.isArray(historyData) ? historyData : [];
+        }
     } catch (error) {
         console.error("Error fetching listing:", error);
         listing = { title: "Failed to Load listing" };
@@ -91,6 +132,12 @@ export default async function Post({ params }: { params: Promise<Params> }) {
         );
     }
 
+    // Use the listing's own photos, falling back to placeholders for listings without any
+    const images: (ListingImage | undefined)[] = listing.images?.length ? listing.images : placeholderImages.map(() => undefined);
+
+    // The current price (the offer price while an offer runs) per m², for units with a known area
+    const pricePerSqm = getPricePerSqm(getOfferPrice(listing) ?? listing.regularPrice, listing.area);
+
     // Render the listing details
     return (
         <div className="bg-gray-100 min-h-screen py-12">
@@ -99,49 +146,61 @@ export default async function Post({ params }: { params: Promise<Params> }) {
                 <div className="bg-white rounded-lg shadow-lg flex w-full justify-between p-6 mb-8">
                     <div>
                         <h1 className="text-3xl font-bold text-[#244856] mb-4">
-                            {listing.projectName}
+                            {listing.projectRef ? (
+                                <Link href={`/project/${listing.projectRef}`} className="hover:underline">
+                                    {listing.projectName}
+                                </Link>
+                            ) : (
+                                listing.projectName
+                            )}
                         </h1>
                         <p className="text-gray-600 mb-4">{listing.address}</p>
                         <div className="flex items-center space-x-4 mb-4">
                             <span className="bg-[#e74833] text-white px-3 py-1 rounded-full text-sm">
                                 {listing.sell ? "For Sale" : "For Rent"}
                             </span>
-                            {listing.offer && (
+                            {isOfferActive(listing) && (
                                 <span className="bg-green-500 text-white px-3 py-1 rounded-full text-sm">
                                     Special Offer
+                                    {listing.offerEndsAt && ` until ${new Date(listing.offerEndsAt).toLocaleDateString()}`}
                                 </span>
                             )}
                         </div>
                     </div>
                     <div className="flex space-x-4">
-                        <Link className={`bg-[#e74833] rounded-md h-10 w-20 flex justify-center items-center text-white`} href={`/update-listing/${listing._id}`}>
-                            Edit Post
-                        </Link>
-                        <DeleteButton listingId={listing._id} /> {/* Use the DeleteButton */}
+                        {canPerformListingAction(currentUser, "update", listing) && (
+                            <Link className={`bg-[#e74833] rounded-md h-10 w-20 flex justify-center items-center text-white`} href={`/update-listing/${listing._id}`}>
+                                Edit Post
+                            </Link>
+                        )}
+                        {canPerformListingAction(currentUser, "delete", listing) && (
+                            <DeleteButton listingId={listing._id} />
+                        )}
                     </div>
                 </div>
 
                 {/* Listing Images */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
                     <div className="relative h-96 rounded-lg overflow-hidden">
-                        <Image
-                            src={images[0]} // Use the first image as the main image
+                        <ListingPhoto
+                            image={images[0]} // Use the first image as the main image
+                            fallback={placeholderImages[0]}
                             alt={'Main Listing Image'}
-                            fill
-                            className="object-cover"
+                            sizes="(min-width: 1152px) 544px, (min-width: 768px) 50vw, 100vw"
+                            priority
                         />
                     </div>
                     <div className="grid grid-cols-2 gap-4">
-                        {images.slice(1).map((img, index) => ( // Loop through the remaining images
+                        {images.slice(1).map((image, index) => ( // Loop through the remaining images
                             <div
                                 key={index}
                                 className="relative h-48 rounded-lg overflow-hidden"
                             >
-                                <Image
-                                    src={img}
+                                <ListingPhoto
+                                    image={image}
+                                    fallback={placeholderImages[(index + 1) % placeholderImages.length]}
                                     alt={`Listing Image ${index + 1}`}
-                                    fill
-                                    className="object-cover"
+                                    sizes="(min-width: 1152px) 264px, (min-width: 768px) 25vw, 50vw"
                                 />
                             </div>
                         ))}
@@ -178,6 +237,46 @@ export default async function Post({ params }: { params: Promise<Params> }) {
                                 {listing.baths}
                             </p>
                         </div>
+                        {listing.unitType && (
+                            <div>
+                                <p className="text-gray-600">Unit Type</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {UNIT_TYPES[listing.unitType as UnitType]}
+                                </p>
+                            </div>
+                        )}
+                        {listing.area != null && (
+                            <div>
+                                <p className="text-gray-600">Area</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {listing.area} m²
+                                </p>
+                            </div>
+                        )}
+                        {listing.floor != null && (
+                            <div>
+                                <p className="text-gray-600">Floor</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {formatFloor(listing.floor)}
+                                </p>
+                            </div>
+                        )}
+                        {listing.finishing && (
+                            <div>
+                                <p className="text-gray-600">Finishing</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {FINISHING_LEVELS[listing.finishing as FinishingLevel]}
+                                </p>
+                            </div>
+                        )}
+                        {listing.deliveryStatus && (
+                            <div>
+                                <p className="text-gray-600">Delivery</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {DELIVERY_STATUSES[listing.deliveryStatus as DeliveryStatus]}
+                                </p>
+                            </div>
+                        )}
                         <div>
                             <p className="text-gray-600">Parking Spot</p>
                             <p className="text-[#244856] font-semibold">
@@ -190,6 +289,31 @@ export default async function Post({ params }: { params: Promise<Params> }) {
                                 {listing.furnished ? "Yes" : "No"}
                             </p>
                         </div>
+                        {listing.location && (
+                            <div>
+                                <p className="text-gray-600">Coordinates</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {/* GeoJSON stores [longitude, latitude] */}
+                                    {listing.location.coordinates[1]}, {listing.location.coordinates[0]}
+                                </p>
+                            </div>
+                        )}
+                        {listing.createdAt && (
+                            <div>
+                                <p className="text-gray-600">Listed On</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {new Date(listing.createdAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                        )}
+                        {listing.updatedAt && (
+                            <div>
+                                <p className="text-gray-600">Last Updated</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {new Date(listing.updatedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -206,11 +330,72 @@ export default async function Post({ params }: { params: Promise<Params> }) {
                     <h2 className="text-2xl font-bold text-[#244856] mb-4">
                         Price
                     </h2>
-                    <p className="text-3xl font-bold text-[#e74833]">
-                        ${listing.regularPrice}{" "}
-                        <span className="text-lg text-gray-600"></span>
-                    </p>
+                    <PriceTag listing={listing} className="text-3xl font-bold text-[#e74833]">
+                        <span className="text-lg text-gray-600">{getRentSuffix(listing)}</span>
+                    </PriceTag>
+                    {pricePerSqm !== null && (
+                        <p className="text-gray-600 mt-2">
+                            <Price amount={pricePerSqm} currency={listing.currency} /> per m²
+                        </p>
+                    )}
                 </div>
+
+                {/* Rental Terms (rent listings only) */}
+                {listing.rent && listing.rentalTerms && (
+                    <div className="bg-white rounded-lg shadow-lg p-6 mt-8">
+                        <h2 className="text-2xl font-bold text-[#244856] mb-4">
+                            Rental Terms
+                        </h2>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div>
+                                <p className="text-gray-600">Monthly Rent</p>
+                                <p className="text-[#244856] font-semibold">
+                                    <Price amount={listing.rentalTerms.monthlyRent} currency={listing.currency} />
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Deposit</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {listing.rentalTerms.deposit != null ? (
+                                        <Price amount={listing.rentalTerms.deposit} currency={listing.currency} />
+                                    ) : (
+                                        "None"
+                                    )}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Minimum Lease</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {listing.rentalTerms.minLeaseMonths
+                                        ? `${listing.rentalTerms.minLeaseMonths} month${listing.rentalTerms.minLeaseMonths === 1 ? "" : "s"}`
+                                        : "Flexible"}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Available From</p>
+                                <p className="text-[#244856] font-semibold">
+                                    {listing.rentalTerms.availableFrom && new Date(listing.rentalTerms.availableFrom) > new Date()
+                                        ? new Date(listing.rentalTerms.availableFrom).toLocaleDateString()
+                                        : "Now"}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Payment Plans (sale listings only) */}
+                {listing.sell && listing.paymentPlans?.length > 0 && (
+                    <div className="mt-8">
+                        <PaymentCalculator
+                            listingId={listing._id}
+                            plans={listing.paymentPlans}
+                            currency={listing.currency}
+                        />
+                    </div>
+                )}
+
+                {/* Change History (admins and the owner only) */}
+                {canViewHistory && <ListingHistory history={history} />}
             </div>
         </div>
     );
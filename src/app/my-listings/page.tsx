@@ -0,0 +1,138 @@
+/**
+ * @file MyListings component for displaying the listings owned by the signed-in user.
+ * @module MyListings
+ * @description This component fetches the listings created by the signed-in user through the `userId` filter of
+ * `/api/listing/get` and displays them in a grid. Visitors who are not signed in are redirected to the sign-in page.
+ * 
+ * @returns {JSX.Element} The rendered MyListings component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <MyListings />
+ */
+
+import Link from 'next/link';
+import ListingPhoto from '@/components/ListingPhoto';
+import PriceTag from '@/components/PriceTag';
+import type { ListingPricing } from '@/lib/pricing/listing.offer';
+import { ListingImage } from '@/lib/storage/listingImage';
+import { redirect } from 'next/navigation';
+import { FaBath, FaBed } from 'react-icons/fa';
+import img1 from "@/assets/images/download (1).jpeg";
+import img2 from "@/assets/images/download (2).jpeg";
+import img3 from "@/assets/images/download (3).jpeg";
+import img4 from "@/assets/images/download.jpeg";
+import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
+import { getCurrentUser } from '@/lib/auth/session';
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering (SSR)
+
+// Define the type for a listing
+interface Listing extends ListingPricing {
+  _id: string;
+  projectName: string;
+  unitName: string;
+  address: string;
+  beds: number;
+  baths: number;
+  regularPrice: number;
+  images?: ListingImage[];
+}
+
+/**
+ * @function MyListings
+ * @description Displays the listings owned by the signed-in user, newest first.
+ * 
+ * @returns {JSX.Element} The rendered MyListings component.
+ */
+export default async function MyListings() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) {
+    redirect('/sign-in?redirect=/my-listings');
+  }
+
+  const images = [img1, img2, img3, img4, img5]; // Array of placeholder images
+  let myListings: Listing[] = [];
+  let failed = false;
+
+  try {
+    // Fetch the listings owned by the signed-in user
+    const result = await fetch('http://localhost:3000/api/listing/get', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: currentUser.id,
+        sort: 'newest',
+        limit: 100,
+      }),
+      cache: 'no-store',
+    });
+    const data = await result.json();
+    myListings = Array.isArray(data.items) ? data.items : [];
+  } catch (error) {
+    console.error("Error fetching listings:", error);
+    failed = true;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-[#244856]">
+            My Listings
+          </h2>
+          <Link href={'/create-listing'} className="bg-[#e74833] text-white px-6 py-2 rounded-lg hover:bg-[#d1402e] transition-colors">
+            Create Post
+          </Link>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+          {myListings.length > 0 ? (
+            myListings.map((listing: Listing, index: number) => (
+              <Link
+                href={`/listing/${listing._id}`}
+                key={listing._id}
+                className="bg-white rounded-lg shadow-lg overflow-hidden"
+              >
+                <div className="relative h-48">
+                  <ListingPhoto
+                    image={listing.images?.[0]}
+                    fallback={images[index % images.length]}
+                    alt={listing.projectName}
+                    sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+                  />
+                </div>
+                <div className="p-6">
+                  <h3 className="text-xl font-bold text-[#244856] mb-2">
+                    {listing.projectName}
+                  </h3>
+                  <p className="text-gray-600 mb-4">{listing.unitName}</p>
+                  <div className="flex items-center space-x-4 mb-4">
+                    <div className="flex items-center">
+                      <FaBed className="text-[#e74833]" />
+                      <span className="ml-2 text-gray-600">
+                        {listing.beds} Beds
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <FaBath className="text-[#e74833]" />
+                      <span className="ml-2 text-gray-600">
+                        {listing.baths} Baths
+                      </span>
+                    </div>
+                  </div>
+                  <PriceTag listing={listing} />
+                </div>
+              </Link>
+            ))
+          ) : (
+            <p className="text-center text-gray-600 col-span-full">
+              {failed ? 'Failed to load your listings.' : 'You have not created any listings yet.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
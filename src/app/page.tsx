@@ -17,18 +17,21 @@ import img2 from "@/assets/images/download (2).jpeg";
 import img3 from "@/assets/images/download (3).jpeg";
 import img4 from "@/assets/images/download.jpeg";
 import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
-import Image from 'next/image';
+import ListingPhoto from '@/components/ListingPhoto';
+import PriceTag from '@/components/PriceTag';
+import type { ListingPricing } from '@/lib/pricing/listing.offer';
+import { ListingImage } from '@/lib/storage/listingImage';
 import { FaBath, FaBed } from 'react-icons/fa';
 
 // Define the type for a listing
-interface Listing {
+interface Listing extends ListingPricing {
   _id: string;
   projectName: string;
   address: string;
   beds: number;
   baths: number;
   regularPrice: number;
-  image?: string;
+  images?: ListingImage[];
 }
 
 /**
@@ -53,7 +56,7 @@ export default async function Home() {
       cache: 'no-store',
     });
     const data = await result.json();
-    allListings = data; // Update the listings state with fetched data
+    allListings = data.items ?? []; // Update the listings state with the fetched page
   } catch (error) {
     console.error("Error fetching listings:", error);
     allListings = { title: 'Failed to load listing' }; // Fallback to an error state
@@ -91,11 +94,11 @@ export default async function Home() {
                 className="bg-white rounded-lg shadow-lg overflow-hidden"
               >
                 <div className="relative h-48">
-                  <Image
-                    src={listing.image || images[index % images.length]}
+                  <ListingPhoto
+                    image={listing.images?.[0]}
+                    fallback={images[index % images.length]}
                     alt={listing.projectName}
-                    fill
-                    className="object-cover"
+                    sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
                   />
                 </div>
                 <div className="p-6">
@@ -117,9 +120,7 @@ export default async function Home() {
                       </span>
                     </div>
                   </div>
-                  <p className="text-2xl font-bold text-[#e74833]">
-                    ${listing.regularPrice}{" "}
-                  </p>
+                  <PriceTag listing={listing} />
                 </div>
               </Link>
             ))
@@ -0,0 +1,224 @@
+/**
+ * @file Project page for displaying a project (compound) and all of its units.
+ * @module ProjectPage
+ * @description This page fetches a project from `/api/project/get` and its listings through the `projectId` filter of
+ * `/api/listing/get`, then shows the project details (developer, location, delivery date, amenities) above a grid of
+ * its units.
+ * 
+ * @returns {JSX.Element} The rendered ProjectPage component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <ProjectPage params={{ id: "650a1b2c3d4e5f6a7b8c9c0" }} />
+ */
+
+import Link from "next/link";
+import { unstable_noStore as noStore } from 'next/cache';
+import { FaBath, FaBed, FaCalendarAlt, FaHardHat, FaMapMarkerAlt } from "react-icons/fa";
+import ListingPhoto from "@/components/ListingPhoto";
+import PriceTag from "@/components/PriceTag";
+import type { ListingPricing } from "@/lib/pricing/listing.offer";
+import { ListingImage } from "@/lib/storage/listingImage";
+import img1 from "@/assets/images/download (1).jpeg";
+import img2 from "@/assets/images/download (2).jpeg";
+import img3 from "@/assets/images/download (3).jpeg";
+import img4 from "@/assets/images/download.jpeg";
+import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
+
+export const dynamic = 'force-dynamic'; // Force dynamic rendering (SSR)
+
+// Define the type for a project
+interface Project {
+    _id: string;
+    name: string;
+    developerRef?: string;
+    developer?: string;
+    location?: string;
+    amenities?: string[];
+    deliveryDate?: string;
+    coverImage?: ListingImage;
+}
+
+// Define the type for a unit of the project
+interface Listing extends ListingPricing {
+    _id: string;
+    unitName: string;
+    unitNumber: number;
+    beds: number;
+    baths: number;
+    regularPrice: number;
+    sell: boolean;
+    images?: ListingImage[];
+}
+
+interface Params {
+    id: string;
+}
+
+/**
+ * @async
+ * @function ProjectPage
+ * @param {Object} params - The parameters passed to the component.
+ * @param {string} params.id - The ID of the project to fetch and display.
+ * @returns {JSX.Element} The rendered ProjectPage component.
+ */
+export default async function ProjectPage({ params }: { params: Promise<Params> }) {
+    const resolvedParams = await params; // Await the promise
+    noStore(); // Ensure no caching for dynamic rendering
+    const placeholderImages = [img1, img2, img3, img4, img5];
+    let project: Project | null = null;
+    let listings: Listing[] = [];
+
+    try {
+        const res = await fetch('http://localhost:3000/api/project/get', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ projectId: resolvedParams.id }),
+            cache: 'no-store', // Ensure no caching
+        });
+        const data = await res.json();
+        project = Array.isArray(data) ? data[0] ?? null : null;
+
+        // Fetch every unit of the project through the listing search
+        if (project) {
+            const listingsRes = await fetch('http://localhost:3000/api/listing/get', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ projectId: project._id, sort: 'newest', limit: 200 }),
+                cache: 'no-store', // Ensure no caching
+            });
+            const listingsData = await listingsRes.json();
+            listings = Array.isArray(listingsData.items) ? listingsData.items : [];
+        }
+    } catch (error) {
+        console.error("Error fetching project:", error);
+    }
+
+    // Display an error message if the project cannot be loaded
+    if (!project) {
+        return (
+            <main className="flex items-center justify-center min-h-screen bg-gray-100">
+                <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full text-center">
+                    <h1 className="text-3xl font-bold text-[#244856] mb-4">
+                        Project Not Found
+                    </h1>
+                    <p className="text-gray-600 mb-6">
+                        The project you are looking for could not be loaded. It may have been removed.
+                    </p>
+                    <Link href="/" className="text-[#244856] hover:underline">
+                        Go Back Home
+                    </Link>
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <div className="bg-gray-100 min-h-screen py-12">
+            <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Project Header */}
+                <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-8">
+                    <div className="relative h-72">
+                        <ListingPhoto
+                            image={project.coverImage}
+                            fallback={placeholderImages[0]}
+                            alt={project.name}
+                            sizes="(min-width: 1152px) 1152px, 100vw"
+                            priority
+                        />
+                    </div>
+                    <div className="p-6">
+                        <h1 className="text-3xl font-bold text-[#244856] mb-4">{project.name}</h1>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-gray-600">
+                            {project.developer && (
+                                <p className="flex items-center">
+                                    <FaHardHat className="text-[#e74833] mr-2" />
+                                    {project.developerRef ? (
+                                        <Link href={`/developer/${project.developerRef}`} className="hover:underline">
+                                            {project.developer}
+                                        </Link>
+                                    ) : (
+                                        project.developer
+                                    )}
+                                </p>
+                            )}
+                            {project.location && (
+                                <p className="flex items-center">
+                                    <FaMapMarkerAlt className="text-[#e74833] mr-2" />
+                                    {project.location}
+                                </p>
+                            )}
+                            {project.deliveryDate && (
+                                <p className="flex items-center">
+                                    <FaCalendarAlt className="text-[#e74833] mr-2" />
+                                    Delivery {new Date(project.deliveryDate).toLocaleDateString()}
+                                </p>
+                            )}
+                        </div>
+                        {project.amenities && project.amenities.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-4">
+                                {project.amenities.map((amenity) => (
+                                    <span key={amenity} className="bg-[#244856] text-white px-3 py-1 rounded-full text-sm">
+                                        {amenity}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Units */}
+                <h2 className="text-2xl font-bold text-[#244856] mb-6">
+                    Units ({listings.length})
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+                    {listings.length > 0 ? (
+                        listings.map((listing, index) => (
+                            <Link
+                                href={`/listing/${listing._id}`}
+                                key={listing._id}
+                                className="bg-white rounded-lg shadow-lg overflow-hidden"
+                            >
+                                <div className="relative h-48">
+                                    <ListingPhoto
+                                        image={listing.images?.[0]}
+                                        fallback={placeholderImages[index % placeholderImages.length]}
+                                        alt={listing.unitName}
+                                        sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+                                    />
+                                </div>
+                                <div className="p-6">
+                                    <h3 className="text-xl font-bold text-[#244856] mb-2">
+                                        {listing.unitName}
+                                    </h3>
+                                    <p className="text-gray-600 mb-4">
+                                        Unit {listing.unitNumber} · {listing.sell ? "For Sale" : "For Rent"}
+                                    </p>
+                                    <div className="flex items-center space-x-4 mb-4">
+                                        <div className="flex items-center">
+                                            <FaBed className="text-[#e74833]" />
+                                            <span className="ml-2 text-gray-600">{listing.beds} Beds</span>
+                                        </div>
+                                        <div className="flex items-center">
+                                            <FaBath className="text-[#e74833]" />
+                                            <span className="ml-2 text-gray-600">{listing.baths} Baths</span>
+                                        </div>
+                                    </div>
+                                    <PriceTag listing={listing} />
+                                </div>
+                            </Link>
+                        ))
+                    ) : (
+                        <p className="text-center text-gray-600 col-span-full">
+                            This project has no listed units yet.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,11 @@
 /**
  * @file SearchPage component for searching and displaying property listings.
  * @module SearchPage
- * @description This component allows users to search for property listings based on various filters (e.g., search term, sell/rent, parking, furnished, offer).
- * It fetches listings from an API, displays them in a grid, and provides a "Show More" button for pagination.
+ * @description This component allows users to search for property listings based on various filters (e.g., search term, sell/rent, parking, furnished, offer,
+ * and price/beds/baths ranges).
+ * Next to each filter option, the sidebar shows how many listings it would match.
+ * It fetches listings from an API, displays them in a grid, and provides a "Show More" button that loads the next page through
+ * the cursor returned with each page.
  * 
  * @returns {JSX.Element} The rendered SearchPage component.
  * 
@@ -12,26 +15,48 @@
  */
 
 "use client";
-import { useEffect, useState, useCallback, ChangeEvent, FormEvent, Suspense } from "react";
+import { useEffect, useMemo, useState, useCallback, ChangeEvent, FormEvent, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import Image from "next/image";
-import { FaBed, FaBath } from "react-icons/fa";
+import ListingPhoto from "@/components/ListingPhoto";
+import SearchHighlights from "@/components/SearchHighlights";
+import PriceTag from "@/components/PriceTag";
+import { useCurrency } from "@/components/CurrencyProvider";
+import { BASE_CURRENCY, getRate } from "@/lib/pricing/currency";
+import { DELIVERY_STATUSES, FINISHING_LEVELS, UNIT_TYPES } from "@/lib/listings/unit.attributes";
+import { getRentSuffix, RentalTerms } from "@/lib/pricing/rental.terms";
+import type { ListingHighlight } from "@/lib/search/listing.highlight";
+import { ListingImage } from "@/lib/storage/listingImage";
+import { FaBed, FaBath, FaRulerCombined } from "react-icons/fa";
 import img1 from "@/assets/images/download (1).jpeg";
 import img2 from "@/assets/images/download (2).jpeg";
 import img3 from "@/assets/images/download (3).jpeg";
 import img4 from "@/assets/images/download.jpeg";
 import img5 from "@/assets/images/Modern Living Room Penthouse minimalist Apartment skyline sunset view of NYC with modern sofa couch.jpeg";
 import Link from "next/link";
+import dynamic from "next/dynamic";
+import type { MapListing } from "@/components/ListingMap";
+import type { MapBounds } from "@/lib/map/map.config";
+import type { ListingFacets } from "@/lib/filters/listing.facets";
+
+// Leaflet needs `window`, so the map is only rendered in the browser
+const ListingMap = dynamic(() => import("@/components/ListingMap"), {
+    ssr: false,
+    loading: () => <p className="text-xl text-slate-700 text-center w-full">Loading map...</p>,
+});
 
 // Define the type for a listing
-interface Listing {
+interface Listing extends MapListing {
     _id: string;
     projectName: string;
     address: string;
     beds: number;
     baths: number;
+    area?: number | null;
     regularPrice: number;
-    image?: string;
+    rent?: boolean;
+    rentalTerms?: RentalTerms | null;
+    images?: ListingImage[];
+    highlights?: ListingHighlight[]; // Where the search term matched (text searches only)
 }
 
 // Define the type for the sidebar data
@@ -42,8 +67,114 @@ interface SidebarData {
     parkingSpot: boolean;
     furnished: boolean;
     offer: boolean;
+    minPrice: string;
+    maxPrice: string;
+    minBeds: string;
+    maxBeds: string;
+    minBaths: string;
+    maxBaths: string;
+    minArea: string;
+    maxArea: string;
+    minFloor: string;
+    maxFloor: string;
+    maxPricePerSqm: string;
+    unitType: string;
+    finishing: string;
+    deliveryStatus: string;
+    maxMonthlyRent: string;
+    availableFrom: string;
+    developerId: string;
+    projectId: string;
+    sort: string;
+}
+
+// Define the type for a developer option
+interface DeveloperOption {
+    _id: string;
+    name: string;
+    unitCount: number;
 }
 
+// Define the type for a project option
+interface ProjectOption {
+    _id: string;
+    name: string;
+    developerRef?: string;
+    unitCount: number;
+}
+
+// Sort options offered in the sidebar; values match the whitelist in `/api/listing/get`
+const sortOptions = [
+    { value: "newest", label: "Newest" },
+    { value: "price_asc", label: "Price: low to high" },
+    { value: "price_desc", label: "Price: high to low" },
+    { value: "beds_desc", label: "Most beds" },
+    { value: "area_desc", label: "Largest area" },
+    { value: "price_per_sqm_asc", label: "Price per m²: low to high" },
+    { value: "relevance", label: "Relevance" },
+];
+
+// Range inputs in the sidebar; an empty string means "no bound"
+type RangeKey =
+    | "minPrice"
+    | "maxPrice"
+    | "minBeds"
+    | "maxBeds"
+    | "minBaths"
+    | "maxBaths"
+    | "minArea"
+    | "maxArea"
+    | "minFloor"
+    | "maxFloor"
+    | "maxPricePerSqm";
+const rangeKeys: RangeKey[] = [
+    "minPrice",
+    "maxPrice",
+    "minBeds",
+    "maxBeds",
+    "minBaths",
+    "maxBaths",
+    "minArea",
+    "maxArea",
+    "minFloor",
+    "maxFloor",
+    "maxPricePerSqm",
+];
+
+// Unit attribute dropdowns in the sidebar, with their options; an empty string means "any"
+type AttributeKey = "unitType" | "finishing" | "deliveryStatus";
+const attributeFilters: { key: AttributeKey; label: string; anyLabel: string; options: Record<string, string> }[] = [
+    { key: "unitType", label: "Unit type", anyLabel: "Any type", options: UNIT_TYPES },
+    { key: "finishing", label: "Finishing", anyLabel: "Any finishing", options: FINISHING_LEVELS },
+    { key: "deliveryStatus", label: "Delivery", anyLabel: "Ready or off-plan", options: DELIVERY_STATUSES },
+];
+const attributeKeys = attributeFilters.map(({ key }) => key);
+
+// Rental inputs in the sidebar, only applied when searching for rent; an empty string means "no limit"
+type RentalKey = "maxMonthlyRent" | "availableFrom";
+const rentalKeys: RentalKey[] = ["maxMonthlyRent", "availableFrom"];
+
+/**
+ * @function FacetCount
+ * @description Renders the number of listings matching a filter option, once the facet counts are loaded.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {number} [props.count] - The number of matching listings.
+ * @returns {JSX.Element | null} The rendered count.
+ */
+const FacetCount = ({ count }: { count?: number }) =>
+    count === undefined ? null : <span className="text-gray-500 font-normal"> ({count})</span>;
+
+/**
+ * @function formatPriceBound
+ * @description Formats a price bucket bound compactly, e.g. 2500000 as "2.5M".
+ *
+ * @param {number} value - The price, in the currency of the search (bounds converted from EGP are not round numbers).
+ * @returns {string} The formatted price.
+ */
+const formatPriceBound = (value: number): string =>
+    new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+
 /**
  * @function SearchPage
  * @description The main component for searching and displaying property listings.
@@ -65,6 +196,9 @@ export default function SearchPage() {
 function SearchPageContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
+    const { currency: displayCurrency, rates } = useCurrency();
+    // Price filters are typed in the currency picked in the header, once its rate is known
+    const currency = getRate(displayCurrency, rates) ? displayCurrency : BASE_CURRENCY;
 
     // State for search filters and listings
     const [sidebardata, setSidebardata] = useState<SidebarData>({
@@ -74,25 +208,92 @@ function SearchPageContent() {
         parkingSpot: false,
         furnished: false,
         offer: false,
+        minPrice: "",
+        maxPrice: "",
+        minBeds: "",
+        maxBeds: "",
+        minBaths: "",
+        maxBaths: "",
+        minArea: "",
+        maxArea: "",
+        minFloor: "",
+        maxFloor: "",
+        maxPricePerSqm: "",
+        unitType: "",
+        finishing: "",
+        deliveryStatus: "",
+        maxMonthlyRent: "",
+        availableFrom: "",
+        developerId: "",
+        projectId: "",
+        sort: "newest",
     });
+    const [developers, setDevelopers] = useState<DeveloperOption[]>([]); // Options of the developer filter
+    const [projects, setProjects] = useState<ProjectOption[]>([]); // Options of the project filter
+    const [facets, setFacets] = useState<ListingFacets | null>(null); // Matches per filter option
+    const [view, setView] = useState<"list" | "map">(searchParams.get("view") === "map" ? "map" : "list");
+    const [mapBounds, setMapBounds] = useState<MapBounds | null>(null); // Visible area of the map, once it is shown
     const [loading, setLoading] = useState<boolean>(false);
     const [listings, setListings] = useState<Listing[]>([]); // Ensure listings is always an array
-    const [showMore, setShowMore] = useState<boolean>(false);
+    const [total, setTotal] = useState<number>(0); // Number of listings matching the filters
+    const [nextCursor, setNextCursor] = useState<string | null>(null); // Where the next page starts, if there is one
+    const [loadingMore, setLoadingMore] = useState<boolean>(false);
 
     // Array of placeholder images
     const placeholderImages = [img1, img2, img3, img4, img5];
 
+    /**
+     * @constant searchCriteria
+     * @description The search filters in the shape expected by `/api/listing/get`, shared by the listings and facets requests.
+     */
+    const searchCriteria = useMemo(() => ({
+        searchTerm: sidebardata.searchTerm,
+        // Unchecked boxes are sent as "don't care" so they never exclude listings
+        sell: sidebardata.sell || undefined,
+        rent: sidebardata.rent || undefined,
+        parkingSpot: sidebardata.parkingSpot || undefined,
+        furnished: sidebardata.furnished || undefined,
+        offer: sidebardata.offer || undefined,
+        // Empty range inputs are sent as "no bound"; prices are converted to EGP by the API
+        currency,
+        minPrice: sidebardata.minPrice || undefined,
+        maxPrice: sidebardata.maxPrice || undefined,
+        minBeds: sidebardata.minBeds || undefined,
+        maxBeds: sidebardata.maxBeds || undefined,
+        minBaths: sidebardata.minBaths || undefined,
+        maxBaths: sidebardata.maxBaths || undefined,
+        minArea: sidebardata.minArea || undefined,
+        maxArea: sidebardata.maxArea || undefined,
+        minFloor: sidebardata.minFloor || undefined,
+        maxFloor: sidebardata.maxFloor || undefined,
+        maxPricePerSqm: sidebardata.maxPricePerSqm || undefined,
+        // Empty dropdowns are sent as "any value"
+        unitType: sidebardata.unitType || undefined,
+        finishing: sidebardata.finishing || undefined,
+        deliveryStatus: sidebardata.deliveryStatus || undefined,
+        // Rental filters only match rent listings, so they only apply when searching for rent
+        maxMonthlyRent: (sidebardata.rent && sidebardata.maxMonthlyRent) || undefined,
+        availableFrom: (sidebardata.rent && sidebardata.availableFrom) || undefined,
+        developerId: sidebardata.developerId || undefined, // Empty means any developer
+        projectId: sidebardata.projectId || undefined, // Empty means any project
+        // The map only searches the visible area
+        ...(view === "map" && mapBounds),
+    }), [sidebardata, currency, view, mapBounds]);
+
     /**
      * @function fetchListings
      * @description Fetches listings from the API based on the current search filters.
-     * Updates the `listings` state and handles pagination with the `showMore` state.
+     * Updates the `listings` state and keeps the cursor of the next page for "Show More".
      * 
      * @async
      * @returns {Promise<void>}
      */
     const fetchListings = useCallback(async () => {
+        // The map reports its bounds once it is shown; wait for them instead of searching everywhere first
+        if (view === "map" && !mapBounds) return;
+
         setLoading(true);
-        setShowMore(false);
+        setNextCursor(null);
         try {
             const res = await fetch("/api/listing/get", {
                 method: "POST",
@@ -100,14 +301,10 @@ function SearchPageContent() {
                     "Content-Type": "application/json",
                 },
                 body: JSON.stringify({
-                    searchTerm: sidebardata.searchTerm,
-                    sell: sidebardata.sell,
-                    rent: sidebardata.rent,
-                    parkingSpot: sidebardata.parkingSpot,
-                    furnished: sidebardata.furnished,
-                    offer: sidebardata.offer,
-                    startIndex: 0,  // Starting index for pagination
-                    limit: 9         // Number of listings to fetch per request
+                    ...searchCriteria,
+                    sort: sidebardata.sort,
+                    // The map shows every listing in the visible area; the list is paginated
+                    limit: view === "map" ? 500 : 9 // Number of listings to fetch per request
                 }),
             });
 
@@ -117,23 +314,50 @@ function SearchPageContent() {
 
             const data = await res.json();
 
-            // Ensure data is an array
-            if (Array.isArray(data)) {
-                if (data.length > 8) {
-                    setShowMore(true);
-                }
-                setListings(data);
+            // Ensure the page holds an array of listings
+            if (Array.isArray(data.items)) {
+                setListings(data.items);
+                setTotal(data.total);
+                setNextCursor(view === "list" ? data.nextCursor : null); // The map has no pages
             } else {
-                console.error("API response is not an array:", data);
+                console.error("API response has no listings:", data);
                 setListings([]); // Fallback to an empty array
+                setTotal(0);
             }
         } catch (error) {
             console.error("Error fetching listings:", error);
             setListings([]); // Fallback to an empty array
+            setTotal(0);
         } finally {
             setLoading(false);
         }
-    }, [sidebardata]); // Add sidebardata as a dependency
+    }, [searchCriteria, sidebardata.sort, view, mapBounds]); // Re-run when the filters, the view or the visible map area change
+
+    /**
+     * @function fetchFacets
+     * @description Fetches the number of listings matching each filter option for the current search filters.
+     * 
+     * @async
+     * @returns {Promise<void>}
+     */
+    const fetchFacets = useCallback(async () => {
+        if (view === "map" && !mapBounds) return; // Same as the listings: wait for the visible area
+
+        try {
+            const res = await fetch("/api/listing/get", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ ...searchCriteria, facets: true }),
+            });
+            const data = await res.json();
+            setFacets(res.ok ? data : null);
+        } catch (error) {
+            console.error("Error fetching facet counts:", error);
+            setFacets(null); // Hide the counts rather than show stale ones
+        }
+    }, [searchCriteria, view, mapBounds]);
 
     /**
      * @function useEffect
@@ -147,6 +371,12 @@ function SearchPageContent() {
         const parkingFromUrl = urlParams.get("parkingSpot");
         const furnishedFromUrl = urlParams.get("furnished");
         const offerFromUrl = urlParams.get("offer");
+        const hasRangeInUrl = rangeKeys.some((key) => urlParams.get(key));
+        const hasRentalInUrl = rentalKeys.some((key) => urlParams.get(key));
+        const hasAttributeInUrl = attributeKeys.some((key) => urlParams.get(key));
+        const developerIdFromUrl = urlParams.get("developerId");
+        const projectIdFromUrl = urlParams.get("projectId");
+        const sortFromUrl = urlParams.get("sort");
 
         if (
             searchTermFromUrl ||
@@ -154,7 +384,13 @@ function SearchPageContent() {
             rentFromUrl ||
             parkingFromUrl ||
             furnishedFromUrl ||
-            offerFromUrl
+            offerFromUrl ||
+            hasRangeInUrl ||
+            hasRentalInUrl ||
+            hasAttributeInUrl ||
+            developerIdFromUrl ||
+            projectIdFromUrl ||
+            sortFromUrl
         ) {
             setSidebardata({
                 searchTerm: searchTermFromUrl || "",
@@ -163,10 +399,70 @@ function SearchPageContent() {
                 parkingSpot: parkingFromUrl === "true" ? true : false,
                 furnished: furnishedFromUrl === "true" ? true : false,
                 offer: offerFromUrl === "true" ? true : false,
+                minPrice: urlParams.get("minPrice") || "",
+                maxPrice: urlParams.get("maxPrice") || "",
+                minBeds: urlParams.get("minBeds") || "",
+                maxBeds: urlParams.get("maxBeds") || "",
+                minBaths: urlParams.get("minBaths") || "",
+                maxBaths: urlParams.get("maxBaths") || "",
+                minArea: urlParams.get("minArea") || "",
+                maxArea: urlParams.get("maxArea") || "",
+                minFloor: urlParams.get("minFloor") || "",
+                maxFloor: urlParams.get("maxFloor") || "",
+                maxPricePerSqm: urlParams.get("maxPricePerSqm") || "",
+                unitType: urlParams.get("unitType") || "",
+                finishing: urlParams.get("finishing") || "",
+                deliveryStatus: urlParams.get("deliveryStatus") || "",
+                maxMonthlyRent: urlParams.get("maxMonthlyRent") || "",
+                availableFrom: urlParams.get("availableFrom") || "",
+                developerId: developerIdFromUrl || "",
+                projectId: projectIdFromUrl || "",
+                sort: sortFromUrl || "newest",
             });
         }
     }, [searchParams]);
 
+    /**
+     * @function useEffect
+     * @description Loads the developers and projects offered in the developer and project filters once.
+     */
+    useEffect(() => {
+        const fetchDevelopers = async () => {
+            try {
+                const res = await fetch("/api/developer/get", {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({ limit: 500 }),
+                });
+                const data = await res.json();
+                setDevelopers(Array.isArray(data) ? data : []);
+            } catch (error) {
+                console.error("Error fetching developers:", error);
+            }
+        };
+
+        const fetchProjects = async () => {
+            try {
+                const res = await fetch("/api/project/get", {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({ limit: 500 }),
+                });
+                const data = await res.json();
+                setProjects(Array.isArray(data) ? data : []);
+            } catch (error) {
+                console.error("Error fetching projects:", error);
+            }
+        };
+
+        fetchDevelopers();
+        fetchProjects();
+    }, []);
+
     /**
      * @function useEffect
      * @description Fetches listings whenever the `fetchListings` function changes (e.g., when `sidebardata` is updated).
@@ -175,6 +471,30 @@ function SearchPageContent() {
         fetchListings();
     }, [fetchListings]);
 
+    /**
+     * @function useEffect
+     * @description Refreshes the facet counts whenever the search filters change.
+     */
+    useEffect(() => {
+        fetchFacets();
+    }, [fetchFacets]);
+
+    /**
+     * @function handleRangePreset
+     * @description Fills a min/max range with a facet option (e.g. a bed count or a price bucket).
+     * 
+     * @param {RangeKey} minKey - The lower bound input.
+     * @param {RangeKey} maxKey - The upper bound input.
+     * @param {number} min - The lower bound.
+     * @param {number | null} max - The upper bound, or `null` for none.
+     */
+    const handleRangePreset = (minKey: RangeKey, maxKey: RangeKey, min: number, max: number | null) => {
+        setSidebardata({ ...sidebardata, [minKey]: String(min), [maxKey]: max === null ? "" : String(max) });
+    };
+
+    // Matches per project, for the project filter options
+    const projectCounts = new Map(facets?.projectName.map((project) => [project.projectId, project.count]));
+
     /**
      * @function handleChange
      * @description Handles changes to the search filters in the sidebar form.
@@ -189,8 +509,29 @@ function SearchPageContent() {
             setSidebardata({ ...sidebardata, searchTerm: value });
         } else if (id === "sell" || id === "rent") {
             setSidebardata({ ...sidebardata, [id]: checked });
-        } else if (id === "parking" || id === "furnished" || id === "offer") {
+        } else if (id === "parkingSpot" || id === "furnished" || id === "offer") {
             setSidebardata({ ...sidebardata, [id]: checked });
+        } else if (rangeKeys.includes(id as RangeKey) || rentalKeys.includes(id as RentalKey)) {
+            setSidebardata({ ...sidebardata, [id]: value });
+        }
+    };
+
+    /**
+     * @function handleSelectChange
+     * @description Handles changes to the developer, project, unit attribute and sort dropdowns in the sidebar form.
+     * Changing the developer clears a selected project that the new developer does not own.
+     * 
+     * @param {ChangeEvent<HTMLSelectElement>} e - The change event from the select field.
+     */
+    const handleSelectChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        const { id, value } = e.target;
+
+        if (id === "developerId") {
+            const project = projects.find((option) => option._id === sidebardata.projectId);
+            const keepProject = !value || !project || project.developerRef === value;
+            setSidebardata({ ...sidebardata, developerId: value, projectId: keepProject ? sidebardata.projectId : "" });
+        } else if (id === "projectId" || id === "sort" || attributeKeys.includes(id as AttributeKey)) {
+            setSidebardata({ ...sidebardata, [id]: value });
         }
     };
 
@@ -207,38 +548,64 @@ function SearchPageContent() {
         urlParams.set("searchTerm", sidebardata.searchTerm);
         urlParams.set("sell", sidebardata.sell.toString());
         urlParams.set("rent", sidebardata.rent.toString());
-        urlParams.set("parking", sidebardata.parkingSpot.toString());
+        urlParams.set("parkingSpot", sidebardata.parkingSpot.toString());
         urlParams.set("furnished", sidebardata.furnished.toString());
         urlParams.set("offer", sidebardata.offer.toString());
+        // Only keep the range bounds that are set, so shared URLs stay short
+        rangeKeys.forEach((key) => {
+            if (sidebardata[key]) urlParams.set(key, sidebardata[key]);
+        });
+        if (sidebardata.rent) {
+            rentalKeys.forEach((key) => {
+                if (sidebardata[key]) urlParams.set(key, sidebardata[key]);
+            });
+        }
+        attributeKeys.forEach((key) => {
+            if (sidebardata[key]) urlParams.set(key, sidebardata[key]);
+        });
+        if (sidebardata.developerId) urlParams.set("developerId", sidebardata.developerId);
+        if (sidebardata.projectId) urlParams.set("projectId", sidebardata.projectId);
+        urlParams.set("sort", sidebardata.sort);
+        if (view === "map") urlParams.set("view", "map");
         const searchQuery = urlParams.toString();
         router.push(`/search?${searchQuery}`);
     };
 
     /**
      * @function onShowMoreClick
-     * @description Handles the "Show More" button click to fetch additional listings for pagination.
-     * Updates the `listings` state with the new data and hides the "Show More" button if no more listings are available.
+     * @description Handles the "Show More" button click to fetch the next page of listings.
+     * Appends the page to the `listings` state and hides the "Show More" button after the last page.
      * 
      * @async
      * @returns {Promise<void>}
      */
     const onShowMoreClick = async () => {
-        const numberOfListings = listings.length;
-        const startIndex = numberOfListings;
-        const urlParams = new URLSearchParams(searchParams);
-        urlParams.set("startIndex", startIndex.toString());
-        const searchQuery = urlParams.toString();
-        const res = await fetch(`/api/listing/get?${searchQuery}`);
-        const data = await res.json();
+        if (!nextCursor) return;
 
-        // Ensure data is an array
-        if (Array.isArray(data)) {
-            if (data.length < 9) {
-                setShowMore(false);
+        setLoadingMore(true);
+        try {
+            const res = await fetch("/api/listing/get", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                // Same filters and sort as the first page; the cursor says where the next page starts
+                body: JSON.stringify({ ...searchCriteria, sort: sidebardata.sort, cursor: nextCursor, limit: 9 }),
+            });
+            const data = await res.json();
+
+            // Ensure the page holds an array of listings
+            if (Array.isArray(data.items)) {
+                setListings([...listings, ...data.items]);
+                setTotal(data.total);
+                setNextCursor(data.nextCursor);
+            } else {
+                console.error("API response has no listings:", data);
             }
-            setListings([...listings, ...data]);
-        } else {
-            console.error("API response is not an array:", data);
+        } catch (error) {
+            console.error("Error fetching more listings:", error);
+        } finally {
+            setLoadingMore(false);
         }
     };
 
@@ -259,6 +626,334 @@ function SearchPageContent() {
                             onChange={handleChange}
                         />
                     </div>
+                    {/* Listing Type */}
+                    <div className="flex gap-2 flex-wrap items-center">
+                        <label className="font-semibold">Type:</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="checkbox"
+                                id="sell"
+                                className="w-5"
+                                checked={sidebardata.sell}
+                                onChange={handleChange}
+                            />
+                            <span>Sell<FacetCount count={facets?.sell.true} /></span>
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                type="checkbox"
+                                id="rent"
+                                className="w-5"
+                                checked={sidebardata.rent}
+                                onChange={handleChange}
+                            />
+                            <span>Rent<FacetCount count={facets?.rent.true} /></span>
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                type="checkbox"
+                                id="offer"
+                                className="w-5"
+                                checked={sidebardata.offer}
+                                onChange={handleChange}
+                            />
+                            <span>Offer<FacetCount count={facets?.offer.true} /></span>
+                        </div>
+                    </div>
+                    {/* Amenities */}
+                    <div className="flex gap-2 flex-wrap items-center">
+                        <label className="font-semibold">Amenities:</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="checkbox"
+                                id="parkingSpot"
+                                className="w-5"
+                                checked={sidebardata.parkingSpot}
+                                onChange={handleChange}
+                            />
+                            <span>Parking<FacetCount count={facets?.parkingSpot.true} /></span>
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                type="checkbox"
+                                id="furnished"
+                                className="w-5"
+                                checked={sidebardata.furnished}
+                                onChange={handleChange}
+                            />
+                            <span>Furnished<FacetCount count={facets?.furnished.true} /></span>
+                        </div>
+                    </div>
+                    {/* Price Range */}
+                    <div className="flex items-center gap-2">
+                        <label className="whitespace-nowrap font-semibold">Price ({currency}):</label>
+                        <input
+                            type="number"
+                            id="minPrice"
+                            placeholder="Min"
+                            min={0}
+                            className="border rounded-lg p-3 w-full"
+                            value={sidebardata.minPrice}
+                            onChange={handleChange}
+                        />
+                        <input
+                            type="number"
+                            id="maxPrice"
+                            placeholder="Max"
+                            min={0}
+                            className="border rounded-lg p-3 w-full"
+                            value={sidebardata.maxPrice}
+                            onChange={handleChange}
+                        />
+                    </div>
+                    {facets && (
+                        <div className="flex gap-2 flex-wrap -mt-6">
+                            {facets.price.filter((bucket) => bucket.count > 0).map((bucket) => (
+                                <button
+                                    key={bucket.min}
+                                    type="button"
+                                    onClick={() => handleRangePreset("minPrice", "maxPrice", bucket.min, bucket.max)}
+                                    className="border rounded-full px-3 py-1 text-sm hover:bg-slate-200"
+                                >
+                                    {bucket.max === null
+                                        ? `${formatPriceBound(bucket.min)}+`
+                                        : `${formatPriceBound(bucket.min)}–${formatPriceBound(bucket.max + 1)}`}
+                                    <FacetCount count={bucket.count} />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {/* Rental Filters (rent searches only) */}
+                    {sidebardata.rent && (
+                        <div className="flex gap-4 flex-wrap">
+                            <div className="flex items-center gap-2">
+                                <label className="whitespace-nowrap font-semibold">Max rent / month ({currency}):</label>
+                                <input
+                                    type="number"
+                                    id="maxMonthlyRent"
+                                    placeholder="Any"
+                                    min={0}
+                                    className="border rounded-lg p-3 w-32"
+                                    value={sidebardata.maxMonthlyRent}
+                                    onChange={handleChange}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label className="whitespace-nowrap font-semibold">Move in by:</label>
+                                <input
+                                    type="date"
+                                    id="availableFrom"
+                                    className="border rounded-lg p-3"
+                                    value={sidebardata.availableFrom}
+                                    onChange={handleChange}
+                                />
+                            </div>
+                        </div>
+                    )}
+                    {/* Beds and Baths Ranges */}
+                    <div className="flex gap-4 flex-wrap">
+                        <div className="flex items-center gap-2">
+                            <label className="whitespace-nowrap font-semibold">Beds:</label>
+                            <input
+                                type="number"
+                                id="minBeds"
+                                placeholder="Min"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.minBeds}
+                                onChange={handleChange}
+                            />
+                            <input
+                                type="number"
+                                id="maxBeds"
+                                placeholder="Max"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.maxBeds}
+                                onChange={handleChange}
+                            />
+                        </div>
+                        {facets && facets.beds.length > 0 && (
+                            <div className="flex gap-2 flex-wrap items-center w-full">
+                                {facets.beds.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => handleRangePreset("minBeds", "maxBeds", option.value, option.value)}
+                                        className="border rounded-full px-3 py-1 text-sm hover:bg-slate-200"
+                                    >
+                                        {option.value} bed{option.value === 1 ? "" : "s"}
+                                        <FacetCount count={option.count} />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex items-center gap-2">
+                            <label className="whitespace-nowrap font-semibold">Baths:</label>
+                            <input
+                                type="number"
+                                id="minBaths"
+                                placeholder="Min"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.minBaths}
+                                onChange={handleChange}
+                            />
+                            <input
+                                type="number"
+                                id="maxBaths"
+                                placeholder="Max"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.maxBaths}
+                                onChange={handleChange}
+                            />
+                        </div>
+                        {facets && facets.baths.length > 0 && (
+                            <div className="flex gap-2 flex-wrap items-center w-full">
+                                {facets.baths.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => handleRangePreset("minBaths", "maxBaths", option.value, option.value)}
+                                        className="border rounded-full px-3 py-1 text-sm hover:bg-slate-200"
+                                    >
+                                        {option.value} bath{option.value === 1 ? "" : "s"}
+                                        <FacetCount count={option.count} />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    {/* Unit Details */}
+                    <div className="flex gap-4 flex-wrap">
+                        <div className="flex items-center gap-2">
+                            <label className="whitespace-nowrap font-semibold">Area (m²):</label>
+                            <input
+                                type="number"
+                                id="minArea"
+                                placeholder="Min"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.minArea}
+                                onChange={handleChange}
+                            />
+                            <input
+                                type="number"
+                                id="maxArea"
+                                placeholder="Max"
+                                min={0}
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.maxArea}
+                                onChange={handleChange}
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label className="whitespace-nowrap font-semibold">Floor:</label>
+                            <input
+                                type="number"
+                                id="minFloor"
+                                placeholder="Min"
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.minFloor}
+                                onChange={handleChange}
+                            />
+                            <input
+                                type="number"
+                                id="maxFloor"
+                                placeholder="Max"
+                                className="border rounded-lg p-3 w-24"
+                                value={sidebardata.maxFloor}
+                                onChange={handleChange}
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label className="whitespace-nowrap font-semibold">Max price / m² ({currency}):</label>
+                            <input
+                                type="number"
+                                id="maxPricePerSqm"
+                                placeholder="Any"
+                                min={0}
+                                className="border rounded-lg p-3 w-32"
+                                value={sidebardata.maxPricePerSqm}
+                                onChange={handleChange}
+                            />
+                        </div>
+                        {attributeFilters.map(({ key, label, anyLabel, options }) => (
+                            <div key={key} className="flex items-center gap-2">
+                                <label className="whitespace-nowrap font-semibold">{label}:</label>
+                                <select
+                                    id={key}
+                                    className="border rounded-lg p-3"
+                                    value={sidebardata[key]}
+                                    onChange={handleSelectChange}
+                                >
+                                    <option value="">{anyLabel}</option>
+                                    {Object.entries(options).map(([value, optionLabel]) => (
+                                        <option key={value} value={value}>
+                                            {optionLabel}
+                                            {/* Matches of the current search, once counted */}
+                                            {facets ? ` (${facets[key].find((option) => option.value === value)?.count ?? 0})` : ""}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    {/* Developer */}
+                    <div className="flex items-center gap-2">
+                        <label className="whitespace-nowrap font-semibold">Developer:</label>
+                        <select
+                            id="developerId"
+                            className="border rounded-lg p-3 w-full"
+                            value={sidebardata.developerId}
+                            onChange={handleSelectChange}
+                        >
+                            <option value="">Any developer</option>
+                            {developers.map((developer) => (
+                                <option key={developer._id} value={developer._id}>
+                                    {developer.name} ({developer.unitCount})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {/* Project */}
+                    <div className="flex items-center gap-2">
+                        <label className="whitespace-nowrap font-semibold">Project:</label>
+                        <select
+                            id="projectId"
+                            className="border rounded-lg p-3 w-full"
+                            value={sidebardata.projectId}
+                            onChange={handleSelectChange}
+                        >
+                            <option value="">Any project</option>
+                            {projects
+                                // Only offer the projects of the selected developer
+                                .filter((project) => !sidebardata.developerId || project.developerRef === sidebardata.developerId)
+                                .map((project) => (
+                                    <option key={project._id} value={project._id}>
+                                        {/* Matches of the current search once counted, otherwise every unit of the project */}
+                                        {project.name} ({facets ? projectCounts.get(project._id) ?? 0 : project.unitCount})
+                                    </option>
+                                ))}
+                        </select>
+                    </div>
+                    {/* Sort Order */}
+                    <div className="flex items-center gap-2">
+                        <label className="whitespace-nowrap font-semibold">Sort:</label>
+                        <select
+                            id="sort"
+                            className="border rounded-lg p-3"
+                            value={sidebardata.sort}
+                            onChange={handleSelectChange}
+                        >
+                            {sortOptions.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
                     {/* Search Button */}
                     <button className="bg-slate-700 text-white p-3 rounded-lg uppercase hover:opacity-95">
                         Search
@@ -268,10 +963,42 @@ function SearchPageContent() {
 
             {/* Main Content */}
             <div className="flex-1">
-                <h1 className="text-3xl font-semibold border-b p-3 text-slate-700 mt-5">
-                    Listing results:
-                </h1>
-                <div className="p-7 flex flex-wrap gap-4">
+                <div className="flex justify-between items-center border-b p-3 mt-5">
+                    <h1 className="text-3xl font-semibold text-slate-700">
+                        Listing results:
+                        {!loading && <span className="text-xl text-gray-600"> {total} found</span>}
+                    </h1>
+                    {/* Map/List Toggle */}
+                    <div className="flex rounded-lg overflow-hidden border border-slate-700">
+                        {(["list", "map"] as const).map((option) => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => setView(option)}
+                                className={`px-4 py-2 capitalize ${view === option ? "bg-slate-700 text-white" : "text-slate-700"}`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Map View: panning or zooming re-runs the search for the visible area */}
+                {view === "map" && (
+                    <div className="p-7">
+                        <ListingMap listings={listings} onBoundsChange={setMapBounds} />
+                        <p className="text-slate-700 mt-2">
+                            {loading
+                                ? "Loading..."
+                                : listings.length < total
+                                    ? `Showing ${listings.length} of ${total} listings in this area; zoom in to see them all`
+                                    : `${listings.length} listings in this area`}
+                            {" "}(listings without a location are not shown)
+                        </p>
+                    </div>
+                )}
+
+                <div className={`p-7 flex flex-wrap gap-4 ${view === "map" ? "hidden" : ""}`}>
                     {/* Loading State */}
                     {loading && (
                         <p className="text-xl text-slate-700 text-center w-full">Loading...</p>
@@ -291,11 +1018,11 @@ function SearchPageContent() {
                                 className="bg-white rounded-lg shadow-lg overflow-hidden w-full sm:w-[48%] lg:w-[31%]"
                             >
                                 <div className="relative h-48">
-                                    <Image
-                                        src={listing.image || placeholderImages[index % placeholderImages.length]}
+                                    <ListingPhoto
+                                        image={listing.images?.[0]}
+                                        fallback={placeholderImages[index % placeholderImages.length]}
                                         alt={listing.projectName}
-                                        fill
-                                        className="object-cover"
+                                        sizes="(min-width: 1024px) 31vw, (min-width: 640px) 48vw, 100vw"
                                     />
                                 </div>
                                 <div className="p-6">
@@ -303,6 +1030,7 @@ function SearchPageContent() {
                                         {listing.projectName}
                                     </h3>
                                     <p className="text-gray-600 mb-4">{listing.address}</p>
+                                    <SearchHighlights highlights={listing.highlights} />
                                     <div className="flex items-center space-x-4 mb-4">
                                         <div className="flex items-center">
                                             <FaBed className="text-[#e74833]" />
@@ -312,22 +1040,28 @@ function SearchPageContent() {
                                             <FaBath className="text-[#e74833]" />
                                             <span className="ml-2 text-gray-600">{listing.baths} Baths</span>
                                         </div>
+                                        {listing.area != null && (
+                                            <div className="flex items-center">
+                                                <FaRulerCombined className="text-[#e74833]" />
+                                                <span className="ml-2 text-gray-600">{listing.area} m²</span>
+                                            </div>
+                                        )}
                                     </div>
-                                    <p className="text-2xl font-bold text-[#e74833]">
-                                        ${listing.regularPrice}{" "}
-                                        <span className="text-lg text-gray-600">/ month</span>
-                                    </p>
+                                    <PriceTag listing={listing}>
+                                        <span className="text-lg text-gray-600">{getRentSuffix(listing)}</span>
+                                    </PriceTag>
                                 </div>
                             </Link>
                         ))}
 
                     {/* Show More Button */}
-                    {showMore && (
+                    {!loading && nextCursor && (
                         <button
                             onClick={onShowMoreClick}
-                            className="text-green-700 hover:underline p-7 text-center w-full"
+                            disabled={loadingMore}
+                            className="text-green-700 hover:underline p-7 text-center w-full disabled:opacity-80"
                         >
-                            Show more
+                            {loadingMore ? "Loading..." : `Show more (${total - listings.length} left)`}
                         </button>
                     )}
                 </div>
@@ -0,0 +1,142 @@
+/**
+ * @file SignIn component for signing in to an account.
+ * @module SignIn
+ * @description This component provides a form for signing in with an email and password. The credentials are submitted to
+ * the `/api/auth/signin` endpoint, which sets the session cookie. Upon success, the user is redirected to the page they came
+ * from (the `redirect` search parameter) or to the home page.
+ * 
+ * @returns {JSX.Element} The rendered SignIn component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <SignIn />
+ */
+
+"use client";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import toast from "react-hot-toast";
+import { getSafeRedirect } from "@/lib/auth/redirect";
+
+/**
+ * @function SignIn
+ * @description Wraps the sign-in form in a Suspense boundary, as required by `useSearchParams`.
+ * 
+ * @returns {JSX.Element} The rendered SignIn component.
+ */
+export default function SignIn() {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <SignInContent />
+        </Suspense>
+    );
+}
+
+function SignInContent() {
+    const [loading, setLoading] = useState<boolean>(false); // Loading state for form submission
+    const router = useRouter(); // Next.js router for navigation
+    const searchParams = useSearchParams();
+
+    // Only follow same-site redirects
+    const redirectTo = getSafeRedirect(searchParams.get("redirect"));
+
+    // State to manage form data
+    const [formData, setFormData] = useState({
+        email: "",
+        password: "",
+    });
+
+    /**
+     * Handles changes to form inputs.
+     * 
+     * @param {React.ChangeEvent<HTMLInputElement>} e - The change event from the input field.
+     */
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+    };
+
+    /**
+     * Handles form submission.
+     * 
+     * @param {React.FormEvent<HTMLFormElement>} e - The form submission event.
+     */
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        try {
+            setLoading(true);
+
+            const res = await fetch("/api/auth/signin", {
+                method: "POST",
+                body: JSON.stringify(formData),
+                headers: {
+                    "Content-Type": "application/json",
+                },
+            });
+
+            const data = await res.json();
+
+            if (data.success === false) {
+                toast.error(data.message); // Display error message from the backend
+            } else {
+                toast.success(`Welcome back, ${data.user.name}`);
+                router.push(redirectTo);
+                router.refresh(); // Re-render server components with the new session
+            }
+        } catch (error) {
+            console.log(error);
+            toast.error("An unexpected error occurred. Please try again.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-100 p-6 min-h-screen flex items-center justify-center">
+            <div className="max-w-md w-full bg-white p-8 rounded-lg shadow-lg">
+                <h1 className="text-2xl font-bold text-[#244856] mb-6">Sign In</h1>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Email</label>
+                        <input
+                            type="email"
+                            name="email"
+                            value={formData.email}
+                            onChange={handleChange}
+                            className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                            placeholder="Email"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Password</label>
+                        <input
+                            type="password"
+                            name="password"
+                            value={formData.password}
+                            onChange={handleChange}
+                            className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                            placeholder="Password"
+                            required
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={loading} // Disable the button when loading
+                        className={`inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white ${loading ? 'bg-[#e74833]/50 cursor-not-allowed' : 'bg-[#e74833] hover:bg-[#d1402e]'
+                            } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#e74833] w-full`}
+                    >
+                        {loading ? 'Signing in...' : 'Sign In'}
+                    </button>
+                </form>
+                <p className="text-gray-600 mt-6 text-center">
+                    Don&apos;t have an account?{" "}
+                    <Link href={`/sign-up?redirect=${encodeURIComponent(redirectTo)}`} className="text-[#e74833] hover:underline">
+                        Sign up
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+/**
+ * @file SignUp component for creating an account.
+ * @module SignUp
+ * @description This component provides a form for creating an account with a name, email and password. The data is submitted to
+ * the `/api/auth/signup` endpoint, which creates the account and sets the session cookie. Upon success, the user is redirected to the page they came
+ * from (the `redirect` search parameter) or to the home page.
+ * 
+ * @returns {JSX.Element} The rendered SignUp component.
+ * 
+ * @example
+ * // Usage in a Next.js route
+ * <SignUp />
+ */
+
+"use client";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import toast from "react-hot-toast";
+import { getSafeRedirect } from "@/lib/auth/redirect";
+
+/**
+ * @function SignUp
+ * @description Wraps the sign-up form in a Suspense boundary, as required by `useSearchParams`.
+ * 
+ * @returns {JSX.Element} The rendered SignUp component.
+ */
+export default function SignUp() {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <SignUpContent />
+        </Suspense>
+    );
+}
+
+function SignUpContent() {
+    const [loading, setLoading] = useState<boolean>(false); // Loading state for form submission
+    const router = useRouter(); // Next.js router for navigation
+    const searchParams = useSearchParams();
+
+    // Only follow same-site redirects
+    const redirectTo = getSafeRedirect(searchParams.get("redirect"));
+
+    // State to manage form data
+    const [formData, setFormData] = useState({
+        name: "",
+        email: "",
+        password: "",
+    });
+
+    /**
+     * Handles changes to form inputs.
+     * 
+     * @param {React.ChangeEvent<HTMLInputElement>} e - The change event from the input field.
+     */
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+    };
+
+    /**
+     * Handles form submission.
+     * 
+     * @param {React.FormEvent<HTMLFormElement>} e - The form submission event.
+     */
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        try {
+            setLoading(true);
+
+            const res = await fetch("/api/auth/signup", {
+                method: "POST",
+                body: JSON.stringify(formData),
+                headers: {
+                    "Content-Type": "application/json",
+                },
+            });
+
+            const data = await res.json();
+
+            if (data.success === false) {
+                toast.error(data.message); // Display error message from the backend
+            } else {
+                toast.success(`Welcome, ${data.user.name}`);
+                router.push(redirectTo);
+                router.refresh(); // Re-render server components with the new session
+            }
+        } catch (error) {
+            console.log(error);
+            toast.error("An unexpected error occurred. Please try again.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-100 p-6 min-h-screen flex items-center justify-center">
+            <div className="max-w-md w-full bg-white p-8 rounded-lg shadow-lg">
+                <h1 className="text-2xl font-bold text-[#244856] mb-6">Sign Up</h1>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Name</label>
+                        <input
+                            type="text"
+                            name="name"
+                            value={formData.name}
+                            onChange={handleChange}
+                            className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                            placeholder="Name"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Email</label>
+                        <input
+                            type="email"
+                            name="email"
+                            value={formData.email}
+                            onChange={handleChange}
+                            className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                            placeholder="Email"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Password</label>
+                        <input
+                            type="password"
+                            name="password"
+                            value={formData.password}
+                            onChange={handleChange}
+                            className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                            placeholder="Password (at least 8 characters)"
+                            minLength={8}
+                            required
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={loading} // Disable the button when loading
+                        className={`inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white ${loading ? 'bg-[#e74833]/50 cursor-not-allowed' : 'bg-[#e74833] hover:bg-[#d1402e]'
+                            } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#e74833] w-full`}
+                    >
+                        {loading ? 'Creating account...' : 'Sign Up'}
+                    </button>
+                </form>
+                <p className="text-gray-600 mt-6 text-center">
+                    Already have an account?{" "}
+                    <Link href={`/sign-in?redirect=${encodeURIComponent(redirectTo)}`} className="text-[#e74833] hover:underline">
+                        Sign in
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -16,6 +16,16 @@
 import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import toast from "react-hot-toast";
+import ImageUploader from "@/components/ImageUploader";
+import FieldError from "@/components/FieldError";
+import LocationFields from "@/components/LocationFields";
+import OfferFields from "@/components/OfferFields";
+import PaymentPlanFields, { PaymentPlanValues } from "@/components/PaymentPlanFields";
+import RentalTermsFields, { EMPTY_RENTAL_TERMS } from "@/components/RentalTermsFields";
+import ProjectPicker from "@/components/ProjectPicker";
+import UnitAttributeFields, { EMPTY_UNIT_ATTRIBUTES } from "@/components/UnitAttributeFields";
+import { ListingImage } from "@/lib/storage/listingImage";
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode, isCurrencyCode } from "@/lib/pricing/currency";
 
 /**
  * @function UpdateListing
@@ -26,25 +36,36 @@ import toast from "react-hot-toast";
  */
 export default function UpdateListing() {
     const [loading, setLoading] = useState<boolean>(false); // Loading state for form submission
+    const [errors, setErrors] = useState<Record<string, string>>({}); // Field-level validation messages from the API
     const router = useRouter(); // Next.js router for navigation
     const pathname = usePathname(); // Current URL pathname
     const listingId = pathname.split('/').pop(); // Extract the listing ID from the URL
 
     // State for form data
     const [formData, setFormData] = useState({
-        projectName: '',
+        projectId: '',
         unitName: '',
         unitNumber: '',
         description: '',
         address: '',
+        latitude: '',
+        longitude: '',
         sell: false,
         rent: true,
         parkingSpot: true,
         furnished: true,
-        offer: true,
+        offer: false,
+        discountPrice: '',
+        offerStartsAt: '',
+        offerEndsAt: '',
         beds: 1,
         baths: 1,
+        ...EMPTY_UNIT_ATTRIBUTES,
         regularPrice: 0,
+        currency: BASE_CURRENCY as CurrencyCode,
+        paymentPlans: [] as PaymentPlanValues[],
+        rentalTerms: EMPTY_RENTAL_TERMS,
+        images: [] as ListingImage[],
     });
 
     /**
@@ -70,7 +91,38 @@ export default function UpdateListing() {
                     return;
                 }
 
-                setFormData(data[0]); // Update form data with fetched listing
+                const listing = data.items?.[0];
+                if (!listing) {
+                    toast.error("Listing not found.");
+                    return;
+                }
+
+                // Update form data with fetched listing (GeoJSON stores [longitude, latitude])
+                const [longitude, latitude] = listing.location?.coordinates ?? [];
+                setFormData({
+                    ...listing,
+                    projectId: listing.projectRef || '',
+                    latitude: latitude?.toString() ?? '',
+                    longitude: longitude?.toString() ?? '',
+                    offer: Boolean(listing.offer),
+                    currency: listing.currency ?? BASE_CURRENCY, // Listings created before currencies existed are in EGP
+                    area: listing.area ?? '',
+                    floor: listing.floor ?? '',
+                    unitType: listing.unitType ?? '',
+                    finishing: listing.finishing ?? '',
+                    deliveryStatus: listing.deliveryStatus ?? '',
+                    discountPrice: listing.discountPrice?.toString() ?? '',
+                    offerStartsAt: listing.offerStartsAt?.slice(0, 10) ?? '', // Date inputs take YYYY-MM-DD
+                    offerEndsAt: listing.offerEndsAt?.slice(0, 10) ?? '',
+                    rentalTerms: {
+                        rentPeriod: listing.rentalTerms?.rentPeriod ?? 'monthly',
+                        deposit: listing.rentalTerms?.deposit ?? '',
+                        minLeaseMonths: listing.rentalTerms?.minLeaseMonths ?? '',
+                        availableFrom: listing.rentalTerms?.availableFrom?.slice(0, 10) ?? '',
+                    },
+                    paymentPlans: (listing.paymentPlans || []).map((plan: PaymentPlanValues) => ({ ...plan, name: plan.name ?? '' })),
+                    images: listing.images || [],
+                });
             } catch (error) {
                 console.error("Error fetching listing:", error);
                 toast.error("Failed to fetch listing data. Please try again.");
@@ -90,6 +142,9 @@ export default function UpdateListing() {
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value, type, checked } = e.target;
 
+        // Hide the field's validation message once it is edited
+        setErrors((prev) => ({ ...prev, [name]: '' }));
+
         setFormData((prev) => ({
             ...prev,
             [name]: type === 'checkbox' ? checked : value,
@@ -125,6 +180,7 @@ export default function UpdateListing() {
             const data = await res.json();
 
             if (data.success === false) {
+                setErrors(data.errors || {}); // Show field-level messages next to the inputs
                 toast.error(data.message); // Display error message from the backend
                 console.error(data.message);
             } else {
@@ -145,19 +201,18 @@ export default function UpdateListing() {
             <div className="max-w-2xl w-full bg-white p-8 rounded-lg shadow-lg">
                 <h1 className="text-2xl font-bold text-[#244856] mb-6">Create a Listing</h1>
                 <form onSubmit={handleSubmit}>
-                    {/* Project Name, Unit Name, and Unit Number */}
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
-                        <div>
-                            <label className="block text-sm font-medium text-[#244856]">Project Name</label>
-                            <input
-                                type="text"
-                                name="projectName"
-                                value={formData.projectName}
-                                onChange={handleChange}
-                                className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
-                                placeholder="Project Name"
-                                required
+                    {/* Project, Unit Name, and Unit Number */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+                        <div className="sm:col-span-2">
+                            <label className="block text-sm font-medium text-[#244856]">Project</label>
+                            <ProjectPicker
+                                value={formData.projectId}
+                                onChange={(projectId) => {
+                                    setErrors((prev) => ({ ...prev, projectId: '' }));
+                                    setFormData((prev) => ({ ...prev, projectId }));
+                                }}
                             />
+                            <FieldError message={errors.projectId} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Unit Name</label>
@@ -170,6 +225,7 @@ export default function UpdateListing() {
                                 placeholder="Unit Name"
                                 required
                             />
+                            <FieldError message={errors.unitName} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Unit Number</label>
@@ -183,6 +239,7 @@ export default function UpdateListing() {
                                 placeholder="Unit Number"
                                 required
                             />
+                            <FieldError message={errors.unitNumber} />
                         </div>
                     </div>
 
@@ -199,6 +256,7 @@ export default function UpdateListing() {
                                 placeholder="Description"
                                 required
                             />
+                            <FieldError message={errors.description} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Address</label>
@@ -211,9 +269,24 @@ export default function UpdateListing() {
                                 placeholder="Address"
                                 required
                             />
+                            <FieldError message={errors.address} />
                         </div>
                     </div>
 
+                    {/* Location (optional, used by the radius and map searches) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Location</h2>
+                        <LocationFields
+                            latitude={formData.latitude}
+                            longitude={formData.longitude}
+                            errors={errors}
+                            onChange={(latitude, longitude) => {
+                                setErrors((prev) => ({ ...prev, latitude: '', longitude: '' }));
+                                setFormData((prev) => ({ ...prev, latitude, longitude }));
+                            }}
+                        />
+                    </div>
+
                     {/* Listing Options */}
                     <div className="mb-8">
                         <h2 className="text-lg font-semibold text-[#244856] mb-4">Listing Options</h2>
@@ -231,6 +304,20 @@ export default function UpdateListing() {
                                 </label>
                             ))}
                         </div>
+                        <FieldError message={errors.sell} />
+                    </div>
+
+                    {/* Unit Details (optional, used by the search filters) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Unit Details</h2>
+                        <UnitAttributeFields
+                            values={formData}
+                            errors={errors}
+                            onChange={(values) => {
+                                setErrors((prev) => ({ ...prev, area: '', floor: '', unitType: '', finishing: '', deliveryStatus: '' }));
+                                setFormData((prev) => ({ ...prev, ...values }));
+                            }}
+                        />
                     </div>
 
                     {/* Beds, Baths, and Price */}
@@ -247,6 +334,7 @@ export default function UpdateListing() {
                                 max={10}
                                 required
                             />
+                            <FieldError message={errors.beds} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">Baths</label>
@@ -260,21 +348,91 @@ export default function UpdateListing() {
                                 max={10}
                                 required
                             />
+                            <FieldError message={errors.baths} />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-[#244856]">
-                                Regular price ($)
+                                Regular price
                             </label>
-                            <input
-                                type="number"
-                                name="regularPrice"
-                                value={formData.regularPrice}
-                                onChange={handleChange}
-                                className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
-                                min={0}
-                                required
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    name="regularPrice"
+                                    value={formData.regularPrice}
+                                    onChange={handleChange}
+                                    className="mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                                    min={0}
+                                    required
+                                />
+                                {/* The currency of every price of the listing (discount, deposit) */}
+                                <select
+                                    name="currency"
+                                    value={formData.currency}
+                                    onChange={(e) => {
+                                        const { value } = e.target;
+                                        setErrors((prev) => ({ ...prev, currency: '' }));
+                                        if (isCurrencyCode(value)) setFormData((prev) => ({ ...prev, currency: value }));
+                                    }}
+                                    aria-label="Currency"
+                                    className="mt-1 block px-2 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]"
+                                >
+                                    {CURRENCIES.map((code) => (
+                                        <option key={code} value={code}>
+                                            {code}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <FieldError message={errors.regularPrice} />
+                            <FieldError message={errors.currency} />
+                        </div>
+                    </div>
+
+                    {/* Rental Terms (rent listings only) */}
+                    {formData.rent && (
+                        <div className="mb-8">
+                            <h2 className="text-lg font-semibold text-[#244856] mb-4">Rental Terms</h2>
+                            <RentalTermsFields
+                                values={formData.rentalTerms}
+                                errors={errors}
+                                onChange={(rentalTerms) => setFormData((prev) => ({ ...prev, rentalTerms }))}
                             />
                         </div>
+                    )}
+
+                    {/* Payment Plans (sale listings only) */}
+                    {formData.sell && (
+                        <div className="mb-8">
+                            <h2 className="text-lg font-semibold text-[#244856] mb-4">Payment Plans</h2>
+                            <PaymentPlanFields
+                                plans={formData.paymentPlans}
+                                errors={errors}
+                                onChange={(paymentPlans) => setFormData((prev) => ({ ...prev, paymentPlans }))}
+                            />
+                        </div>
+                    )}
+
+                    {/* Special Offer (optional discounted price, shown with the regular price struck through) */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Special Offer</h2>
+                        <OfferFields
+                            values={formData}
+                            errors={errors}
+                            onChange={(values) => {
+                                setErrors((prev) => ({ ...prev, discountPrice: '', offerStartsAt: '', offerEndsAt: '' }));
+                                setFormData((prev) => ({ ...prev, ...values }));
+                            }}
+                        />
+                    </div>
+
+                    {/* Photos */}
+                    <div className="mb-8">
+                        <h2 className="text-lg font-semibold text-[#244856] mb-4">Photos</h2>
+                        <ImageUploader
+                            images={formData.images}
+                            onChange={(images) => setFormData((prev) => ({ ...prev, images }))}
+                        />
+                        <FieldError message={errors.images} />
                     </div>
 
                     {/* Submit Button */}
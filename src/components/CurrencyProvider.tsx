@@ -0,0 +1,131 @@
+/**
+ * @file CurrencyProvider component for the currency prices are shown in.
+ * @module CurrencyProvider
+ * @description This component keeps the display currency picked in the header switcher (remembered in `localStorage`)
+ * and the exchange rates from `/api/exchange-rates`, and shares them with the price components through `useCurrency`.
+ * Prices are shown in their own currency until the rates are loaded, or when a rate is missing.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {React.ReactNode} props.children - The components that show prices.
+ * @returns {JSX.Element} The rendered CurrencyProvider component.
+ *
+ * @example
+ * // Usage in the root layout
+ * <CurrencyProvider>
+ *   <Header />
+ *   {children}
+ * </CurrencyProvider>
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import {
+    BASE_CURRENCY,
+    convertAmount,
+    CurrencyCode,
+    ExchangeRates,
+    formatPrice,
+    isCurrencyCode,
+} from "@/lib/pricing/currency";
+
+// The key of the display currency in `localStorage`
+const CURRENCY_STORAGE_KEY = "currency";
+
+/**
+ * @interface CurrencyContextValue
+ * @description The display currency, the exchange rates and the helpers to show prices in the display currency.
+ */
+interface CurrencyContextValue {
+    currency: CurrencyCode;
+    rates: ExchangeRates;
+    setCurrency: (currency: CurrencyCode) => void;
+    convert: (amount: number, from?: CurrencyCode | null) => { amount: number; currency: CurrencyCode };
+    format: (amount: number, from?: CurrencyCode | null, options?: { compact?: boolean }) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+/**
+ * @function CurrencyProvider
+ * @description Provides the display currency and the exchange rates to the price components.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered provider.
+ */
+export default function CurrencyProvider({ children }: { children: ReactNode }) {
+    const [currency, setCurrencyState] = useState<CurrencyCode>(BASE_CURRENCY);
+    const [rates, setRates] = useState<ExchangeRates>({ [BASE_CURRENCY]: 1 });
+
+    /**
+     * @function useEffect
+     * @description Restores the display currency and loads the exchange rates once.
+     */
+    useEffect(() => {
+        const stored = localStorage.getItem(CURRENCY_STORAGE_KEY);
+        if (isCurrencyCode(stored)) setCurrencyState(stored);
+
+        const fetchRates = async () => {
+            try {
+                const res = await fetch("/api/exchange-rates");
+                const data = await res.json();
+                if (data.rates) setRates(data.rates);
+            } catch (error) {
+                console.error("Error fetching exchange rates:", error);
+            }
+        };
+
+        fetchRates();
+    }, []);
+
+    /**
+     * @function setCurrency
+     * @description Changes the display currency and remembers it for the next visits.
+     *
+     * @param {CurrencyCode} next - The new display currency.
+     */
+    const setCurrency = useCallback((next: CurrencyCode) => {
+        setCurrencyState(next);
+        localStorage.setItem(CURRENCY_STORAGE_KEY, next);
+    }, []);
+
+    const value = useMemo<CurrencyContextValue>(() => {
+        // Prices without a currency were created before currencies existed, in EGP
+        const convert = (amount: number, from?: CurrencyCode | null) => {
+            const source = from ?? BASE_CURRENCY;
+            const converted = convertAmount(amount, source, currency, rates);
+            return converted === null ? { amount, currency: source } : { amount: converted, currency };
+        };
+        const format = (amount: number, from?: CurrencyCode | null, options?: { compact?: boolean }) => {
+            const converted = convert(amount, from);
+            return formatPrice(converted.amount, converted.currency, options);
+        };
+        return { currency, rates, setCurrency, convert, format };
+    }, [currency, rates, setCurrency]);
+
+    return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+/**
+ * @function useCurrency
+ * @description Returns the display currency and the price helpers. Outside a `CurrencyProvider`, prices are shown in their
+ * own currency.
+ *
+ * @returns {CurrencyContextValue} The display currency, the rates and the price helpers.
+ *
+ * @example
+ * const { format } = useCurrency();
+ * format(listing.regularPrice, listing.currency); // "$52,000"
+ */
+export const useCurrency = (): CurrencyContextValue => {
+    const context = useContext(CurrencyContext);
+    if (context) return context;
+
+    return {
+        currency: BASE_CURRENCY,
+        rates: { [BASE_CURRENCY]: 1 },
+        setCurrency: () => undefined,
+        convert: (amount, from) => ({ amount, currency: from ?? BASE_CURRENCY }),
+        format: (amount, from, options) => formatPrice(amount, from ?? BASE_CURRENCY, options),
+    };
+};
@@ -0,0 +1,36 @@
+/**
+ * @file FieldError component for displaying a validation message under a form input.
+ * @module FieldError
+ * @description This component renders the field-level message returned by the listing routes (422 responses) next to the
+ * matching input. Nothing is rendered when there is no message.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} [props.message] - The validation message for the field.
+ * @returns {JSX.Element | null} The rendered FieldError component.
+ *
+ * @example
+ * // Usage under an input
+ * <FieldError message={errors.unitNumber} />
+ */
+
+interface PageProps {
+    message?: string;
+}
+
+/**
+ * @function FieldError
+ * @description Renders a field-level validation message.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} [props.message] - The validation message for the field.
+ * @returns {JSX.Element | null} The rendered message, or `null` when there is none.
+ */
+export default function FieldError({ message }: PageProps) {
+    if (!message) return null;
+
+    return (
+        <p className="mt-1 text-sm text-[#e74833]" role="alert">
+            {message}
+        </p>
+    );
+}
@@ -2,7 +2,9 @@
  * @file Header component for the application.
  * @module Header
  * @description This component provides the main header for the application, including a logo, search bar, and navigation links.
- * It handles search functionality by updating the URL with the search term and redirecting to the search page.
+ * It handles search functionality by updating the URL with the search term and redirecting to the search page, suggests
+ * projects, units and addresses as the user types, and shows sign in/sign out links depending on the current session.
+ * It also holds the currency switcher that picks the currency prices are shown in.
  * 
  * @returns {JSX.Element} The rendered Header component.
  * 
@@ -15,9 +17,34 @@
 
 import Logo from '@/assets/icons/Logo';
 import Link from 'next/link';
-import { useRouter, useSearchParams } from 'next/navigation';
-import React, { Suspense, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import React, { Suspense, useEffect, useRef, useState } from 'react';
 import { FaSearch } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import type { Suggestion } from '@/lib/search/listing.suggestions';
+import { useCurrency } from '@/components/CurrencyProvider';
+import { CURRENCIES, isCurrencyCode } from '@/lib/pricing/currency';
+
+// Define the type for the signed-in user
+interface CurrentUser {
+    id: string;
+    name: string;
+    email: string;
+    role: "admin" | "agent" | "viewer";
+}
+
+// Delay between the last keystroke and the suggestions request
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+// Shortest term worth asking for suggestions (the API returns none for shorter terms)
+const MIN_SUGGESTION_LENGTH = 2;
+
+// Labels shown next to each kind of suggestion
+const suggestionTypeLabels: Record<Suggestion['type'], string> = {
+    project: 'Project',
+    unit: 'Unit',
+    address: 'Address',
+};
 
 /**
  * @function Header
@@ -38,7 +65,14 @@ function Header() {
 const HeaderContent = () => {
     const searchParams = useSearchParams(); // Access URL search parameters
     const router = useRouter(); // Next.js router for navigation
+    const pathname = usePathname(); // Current URL pathname
     const [searchTerm, setSearchTerm] = useState<string>(''); // State for the search term
+    const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null); // The signed-in user, if any
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]); // Suggestions for the typed term
+    const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+    const [activeIndex, setActiveIndex] = useState<number>(-1); // Suggestion highlighted with the arrow keys
+    const userTyped = useRef<boolean>(false); // Only suggest for typed terms, not for terms restored from the URL
+    const { currency, setCurrency } = useCurrency(); // The currency prices are shown in
 
     /**
      * @function useEffect
@@ -52,6 +86,94 @@ const HeaderContent = () => {
         }
     }, [searchParams]);
 
+    /**
+     * @function useEffect
+     * @description Loads the signed-in user whenever the page changes, so the header reflects sign in and sign out.
+     */
+    useEffect(() => {
+        const fetchCurrentUser = async () => {
+            try {
+                const res = await fetch('/api/auth/me', { cache: 'no-store' });
+                const data = await res.json();
+                setCurrentUser(data.user || null);
+            } catch (error) {
+                console.error('Error fetching current user:', error);
+                setCurrentUser(null);
+            }
+        };
+
+        fetchCurrentUser();
+    }, [pathname]);
+
+    /**
+     * @function useEffect
+     * @description Hides the suggestions when the user navigates to another page.
+     */
+    useEffect(() => {
+        setShowSuggestions(false);
+    }, [pathname, searchParams]);
+
+    /**
+     * @function useEffect
+     * @description Loads the suggestions for the typed term once the user stops typing. Requests for terms that changed
+     * in the meantime are aborted, so stale suggestions never replace newer ones.
+     */
+    useEffect(() => {
+        if (!userTyped.current) return;
+
+        const term = searchTerm.trim();
+        if (term.length < MIN_SUGGESTION_LENGTH) {
+            setSuggestions([]);
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch('/api/listing/suggest', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ searchTerm: term }),
+                    signal: controller.signal,
+                });
+                const data = await res.json();
+                setSuggestions(Array.isArray(data) ? data : []);
+                setActiveIndex(-1);
+            } catch (error) {
+                if ((error as Error).name !== 'AbortError') {
+                    console.error('Error fetching suggestions:', error);
+                }
+            }
+        }, SUGGESTION_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [searchTerm]);
+
+    /**
+     * @function handleSignOut
+     * @description Signs the user out and redirects to the home page.
+     * 
+     * @async
+     * @returns {Promise<void>}
+     */
+    const handleSignOut = async () => {
+        try {
+            await fetch('/api/auth/signout', { method: 'POST' });
+            setCurrentUser(null);
+            toast.success('Signed out successfully.');
+            router.push('/');
+            router.refresh(); // Re-render server components without the session
+        } catch (error) {
+            console.error('Error signing out:', error);
+            toast.error('Failed to sign out. Please try again.');
+        }
+    };
+
     /**
      * @function handleSubmit
      * @description Handles the form submission for the search bar.
@@ -61,12 +183,64 @@ const HeaderContent = () => {
      */
     const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
+        setShowSuggestions(false);
         const urlParams = new URLSearchParams(searchParams);
         urlParams.set('searchTerm', searchTerm); // Set the search term in the URL
         const searchQuery = urlParams.toString();
         router.push(`/search?${searchQuery}`); // Redirect to the search page
     };
 
+    /**
+     * @function handleSelectSuggestion
+     * @description Opens the page of a suggestion: the search results of a project, the listing of a unit, or a search
+     * for an address.
+     * 
+     * @param {Suggestion} suggestion - The selected suggestion.
+     */
+    const handleSelectSuggestion = (suggestion: Suggestion) => {
+        setShowSuggestions(false);
+        setSuggestions([]);
+        userTyped.current = false;
+
+        if (suggestion.type === 'project' && suggestion.projectId) {
+            setSearchTerm('');
+            router.push(`/search?${new URLSearchParams({ projectId: suggestion.projectId }).toString()}`);
+        } else if (suggestion.type === 'unit' && suggestion.listingId) {
+            setSearchTerm('');
+            router.push(`/listing/${suggestion.listingId}`);
+        } else {
+            setSearchTerm(suggestion.label);
+            router.push(`/search?${new URLSearchParams({ searchTerm: suggestion.label }).toString()}`);
+        }
+    };
+
+    /**
+     * @function handleKeyDown
+     * @description Handles keyboard navigation of the suggestions: the arrow keys move the highlight, Enter opens the
+     * highlighted suggestion (or submits the search when none is highlighted) and Escape closes the list.
+     * 
+     * @param {React.KeyboardEvent<HTMLInputElement>} e - The keyboard event from the search input.
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!showSuggestions || suggestions.length === 0) return;
+
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex((index) => (index + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        } else if (e.key === 'Enter' && activeIndex >= 0) {
+            e.preventDefault();
+            handleSelectSuggestion(suggestions[activeIndex]);
+        } else if (e.key === 'Escape') {
+            setShowSuggestions(false);
+            setActiveIndex(-1);
+        }
+    };
+
+    const suggestionsOpen = showSuggestions && suggestions.length > 0;
+
     return (
         <header className='bg-[#244857] shadow-md'>
             <div className='flex justify-between items-center max-w-6xl mx-auto p-3'>
@@ -81,22 +255,87 @@ const HeaderContent = () => {
                 {/* Search Bar */}
                 <form
                     onSubmit={handleSubmit}
-                    className='bg-[#90aeae] p-3 rounded-lg flex items-center'
+                    className='relative bg-[#90aeae] p-3 rounded-lg flex items-center'
                 >
                     <input
                         type='text'
                         placeholder='Search...'
                         value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
+                        onChange={(e) => {
+                            userTyped.current = true;
+                            setSearchTerm(e.target.value);
+                            setShowSuggestions(true);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        onFocus={() => setShowSuggestions(true)}
+                        onBlur={() => setShowSuggestions(false)}
+                        role='combobox'
+                        aria-autocomplete='list'
+                        aria-expanded={suggestionsOpen}
+                        aria-controls='search-suggestions'
+                        aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
                         className='bg-transparent focus:outline-none w-24 sm:w-64'
                     />
                     <button type="submit">
                         <FaSearch className='text-[#e74933]' />
                     </button>
+
+                    {/* Suggestions */}
+                    {suggestionsOpen && (
+                        <ul
+                            id='search-suggestions'
+                            role='listbox'
+                            className='absolute left-0 top-full mt-1 w-full min-w-64 bg-white rounded-lg shadow-lg overflow-hidden z-[1100]'
+                        >
+                            {suggestions.map((suggestion, index) => (
+                                <li
+                                    key={`${suggestion.type}-${suggestion.projectId || suggestion.listingId || suggestion.label}`}
+                                    id={`search-suggestion-${index}`}
+                                    role='option'
+                                    aria-selected={index === activeIndex}
+                                    // Select on mouse down, before the input loses focus and closes the list
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        handleSelectSuggestion(suggestion);
+                                    }}
+                                    onMouseEnter={() => setActiveIndex(index)}
+                                    className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-[#90aeae]/30' : ''
+                                        }`}
+                                >
+                                    <span className='min-w-0'>
+                                        <span className='block truncate text-[#244856]'>{suggestion.label}</span>
+                                        {suggestion.detail && (
+                                            <span className='block truncate text-xs text-gray-600'>{suggestion.detail}</span>
+                                        )}
+                                    </span>
+                                    <span className='shrink-0 text-xs text-[#e74933] font-semibold'>
+                                        {suggestionTypeLabels[suggestion.type]}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </form>
 
                 {/* Navigation Links */}
                 <ul className='flex gap-4 items-center font-bold'>
+                    {/* Currency Switcher */}
+                    <li className='inline'>
+                        <select
+                            value={currency}
+                            onChange={(e) => {
+                                if (isCurrencyCode(e.target.value)) setCurrency(e.target.value);
+                            }}
+                            aria-label='Currency'
+                            className='bg-[#90aeae] text-[#244856] rounded-lg p-1 text-sm'
+                        >
+                            {CURRENCIES.map((code) => (
+                                <option key={code} value={code}>
+                                    {code}
+                                </option>
+                            ))}
+                        </select>
+                    </li>
                     <Link href={'/'}>
                         <li className='hidden md:inline text-[#e74933] hover:text-[#90aeae]'>
                             Home
@@ -107,11 +346,52 @@ const HeaderContent = () => {
                             About
                         </li>
                     </Link>
-                    <Link href={'/create-listing'}>
-                        <li className='inline text-[#e74933] hover:text-[#90aeae]'>
-                            Create Post
-                        </li>
-                    </Link>
+                    {currentUser ? (
+                        <>
+                            {currentUser.role === 'admin' && (
+                                <>
+                                    <Link href={'/admin/users'}>
+                                        <li className='hidden md:inline text-[#e74933] hover:text-[#90aeae]'>
+                                            Users
+                                        </li>
+                                    </Link>
+                                    <Link href={'/admin/exchange-rates'}>
+                                        <li className='hidden md:inline text-[#e74933] hover:text-[#90aeae]'>
+                                            Rates
+                                        </li>
+                                    </Link>
+                                </>
+                            )}
+                            {/* Viewers can only browse, so they have no listings to manage */}
+                            {currentUser.role !== 'viewer' && (
+                                <>
+                                    <Link href={'/my-listings'}>
+                                        <li className='hidden md:inline text-[#e74933] hover:text-[#90aeae]'>
+                                            My Listings
+                                        </li>
+                                    </Link>
+                                    <Link href={'/create-listing'}>
+                                        <li className='inline text-[#e74933] hover:text-[#90aeae]'>
+                                            Create Post
+                                        </li>
+                                    </Link>
+                                </>
+                            )}
+                            <li
+                                onClick={handleSignOut}
+                                title={currentUser.email}
+                                className='inline text-[#e74933] hover:text-[#90aeae] cursor-pointer'
+                            >
+                                Sign Out
+                            </li>
+                        </>
+                    ) : (
+                        <Link href={'/sign-in'}>
+                            <li className='inline text-[#e74933] hover:text-[#90aeae]'>
+                                Sign In
+                            </li>
+                        </Link>
+                    )}
                 </ul>
             </div>
         </header>
@@ -0,0 +1,201 @@
+/**
+ * @file ImageUploader component for uploading and ordering listing photos.
+ * @module ImageUploader
+ * @description This component lets users add photos to a listing by dropping files on it or picking them from a file dialog.
+ * Files are uploaded to `/api/upload` right away (which also generates their resized variants) and the returned images are
+ * kept in order. Thumbnails can be dragged to reorder them (the first photo is the cover) and removed.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {ListingImage[]} props.images - The current photos, in display order.
+ * @param {Function} props.onChange - Called with the new list of photos whenever photos are added, moved or removed.
+ * @returns {JSX.Element} The rendered ImageUploader component.
+ *
+ * @example
+ * // Usage in a form
+ * <ImageUploader images={formData.images} onChange={(images) => setFormData({ ...formData, images })} />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import Image from "next/image";
+import { ChangeEvent, DragEvent, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { FaTimes } from "react-icons/fa";
+import { ListingImage, pickImageVariant } from "@/lib/storage/listingImage";
+
+interface PageProps {
+    images: ListingImage[];
+    onChange: (images: ListingImage[]) => void;
+}
+
+/**
+ * @function ImageUploader
+ * @description A drop zone and sortable thumbnail list for listing photos.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {ListingImage[]} props.images - The current photos, in display order.
+ * @param {Function} props.onChange - Called with the new list of photos.
+ * @returns {JSX.Element} The rendered ImageUploader component.
+ */
+export default function ImageUploader({ images, onChange }: PageProps) {
+    const [uploading, setUploading] = useState<boolean>(false);
+    const [dragOver, setDragOver] = useState<boolean>(false); // Files are being dragged over the drop zone
+    const draggedIndex = useRef<number | null>(null); // Thumbnail being dragged to a new position
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    /**
+     * @function uploadFiles
+     * @description Uploads files to `/api/upload` and appends the returned images.
+     *
+     * @async
+     * @param {FileList | File[]} files - The files to upload.
+     * @returns {Promise<void>}
+     */
+    const uploadFiles = async (files: FileList | File[]) => {
+        if (files.length === 0) return;
+
+        const body = new FormData();
+        Array.from(files).forEach((file) => body.append("files", file));
+
+        try {
+            setUploading(true);
+            const res = await fetch("/api/upload", { method: "POST", body });
+            const data = await res.json();
+
+            if (data.success === false) {
+                toast.error(data.message); // Display error message from the backend
+            } else {
+                onChange([...images, ...data.images]);
+            }
+        } catch (error) {
+            console.error("Error uploading images:", error);
+            toast.error("Failed to upload images. Please try again.");
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    /**
+     * @function handleFileDrop
+     * @description Uploads the files dropped on the drop zone.
+     *
+     * @param {DragEvent<HTMLDivElement>} e - The drop event.
+     */
+    const handleFileDrop = (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDragOver(false);
+        uploadFiles(e.dataTransfer.files);
+    };
+
+    /**
+     * @function handleFileSelect
+     * @description Uploads the files picked in the file dialog.
+     *
+     * @param {ChangeEvent<HTMLInputElement>} e - The change event from the file input.
+     */
+    const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) uploadFiles(e.target.files);
+        e.target.value = ""; // Allow picking the same file again
+    };
+
+    /**
+     * @function handleThumbnailDrop
+     * @description Moves the dragged thumbnail to the position it was dropped on.
+     *
+     * @param {number} targetIndex - The index the thumbnail was dropped on.
+     */
+    const handleThumbnailDrop = (targetIndex: number) => {
+        const sourceIndex = draggedIndex.current;
+        draggedIndex.current = null;
+        if (sourceIndex === null || sourceIndex === targetIndex) return;
+
+        const reordered = [...images];
+        const [moved] = reordered.splice(sourceIndex, 1);
+        reordered.splice(targetIndex, 0, moved);
+        onChange(reordered);
+    };
+
+    /**
+     * @function handleRemove
+     * @description Removes a photo from the listing.
+     *
+     * @param {number} index - The index of the photo to remove.
+     */
+    const handleRemove = (index: number) => {
+        onChange(images.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div>
+            {/* Drop Zone */}
+            <div
+                onDragOver={(e) => {
+                    // Only react to files, not to thumbnails being reordered
+                    if (e.dataTransfer.types.includes("Files")) {
+                        e.preventDefault();
+                        setDragOver(true);
+                    }
+                }}
+                onDragLeave={() => setDragOver(false)}
+                onDrop={handleFileDrop}
+                onClick={() => fileInput.current?.click()}
+                className={`border-2 border-dashed rounded-md p-6 text-center cursor-pointer ${dragOver ? 'border-[#e74833] bg-[#e74833]/10' : 'border-[#244856]'
+                    }`}
+            >
+                <p className="text-[#244856]">
+                    {uploading ? 'Uploading...' : 'Drag and drop photos here, or click to select them'}
+                </p>
+                <p className="text-sm text-gray-600">JPEG, PNG or WebP, up to 5 MB each</p>
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    multiple
+                    onChange={handleFileSelect}
+                    className="hidden"
+                />
+            </div>
+
+            {/* Sortable Thumbnails */}
+            {images.length > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-4 mt-4">
+                    {images.map((image, index) => (
+                        <div
+                            key={image.url}
+                            draggable
+                            onDragStart={() => (draggedIndex.current = index)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                handleThumbnailDrop(index);
+                            }}
+                            className="relative h-24 rounded-md overflow-hidden border border-[#244856] cursor-move"
+                        >
+                            <Image
+                                src={pickImageVariant(image, 320)} // The smallest variant is enough for a thumbnail
+                                alt={`Listing photo ${index + 1}`}
+                                fill
+                                unoptimized
+                                className="object-cover"
+                            />
+                            {index === 0 && (
+                                <span className="absolute bottom-1 left-1 bg-[#e74833] text-white text-xs px-2 rounded-full">
+                                    Cover
+                                </span>
+                            )}
+                            <button
+                                type="button"
+                                onClick={() => handleRemove(index)}
+                                className="absolute top-1 right-1 bg-white/80 rounded-full p-1 text-[#e74833]"
+                                aria-label={`Remove photo ${index + 1}`}
+                            >
+                                <FaTimes />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+/**
+ * @file ListingHistory component for displaying the change log of a property listing.
+ * @module ListingHistory
+ * @description This component renders the audit history of a listing as a collapsible list. Each entry shows when
+ * the change was made, who made it (when known) and the field-level changes.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {HistoryEntry[]} props.history - The history entries to display, newest first.
+ * @returns {JSX.Element} The rendered ListingHistory component.
+ *
+ * @example
+ * // Usage in a parent component
+ * <ListingHistory history={history} />
+ */
+
+// Define the type for a history entry
+export interface HistoryEntry {
+    _id: string;
+    action: "update" | "delete";
+    changes: { field: string; from: unknown; to: unknown }[];
+    changedBy: string | null; // Name of the user who made the change, when known
+    createdAt: string;
+}
+
+interface PageProps {
+    history: HistoryEntry[];
+}
+
+/**
+ * @function formatValue
+ * @description Formats a field value for display.
+ *
+ * @param {unknown} value - The field value.
+ * @returns {string} A human-readable representation of the value.
+ */
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+};
+
+/**
+ * @function ListingHistory
+ * @description Renders the change log of a listing.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {HistoryEntry[]} props.history - The history entries to display, newest first.
+ * @returns {JSX.Element} The rendered ListingHistory component.
+ */
+export default function ListingHistory({ history }: PageProps) {
+    return (
+        <details className="bg-white rounded-lg shadow-lg p-6 mt-8">
+            <summary className="text-2xl font-bold text-[#244856] cursor-pointer">
+                Change History ({history.length})
+            </summary>
+            {history.length === 0 ? (
+                <p className="text-gray-600 mt-4">No changes have been recorded for this listing.</p>
+            ) : (
+                <ul className="mt-4 space-y-4">
+                    {history.map((entry) => (
+                        <li key={entry._id} className="border-b pb-4">
+                            <p className="text-[#244856] font-semibold">
+                                {entry.action === "delete" ? "Deleted" : "Updated"} on{" "}
+                                {new Date(entry.createdAt).toLocaleString()}
+                                {entry.changedBy && <span className="text-gray-600"> by {entry.changedBy}</span>}
+                            </p>
+                            <table className="w-full text-left text-sm mt-2">
+                                <thead>
+                                    <tr className="text-gray-600">
+                                        <th className="py-1">Field</th>
+                                        <th className="py-1">From</th>
+                                        <th className="py-1">To</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {entry.changes.map((change) => (
+                                        <tr key={change.field}>
+                                            <td className="py-1 text-[#244856]">{change.field}</td>
+                                            <td className="py-1 text-gray-600 line-through">{formatValue(change.from)}</td>
+                                            <td className="py-1 text-[#e74833]">{formatValue(change.to)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </details>
+    );
+}
@@ -0,0 +1,207 @@
+/**
+ * @file ListingMap component for showing search results on a map.
+ * @module ListingMap
+ * @description This component plots listings with a location as price pins on a Leaflet map. Nearby pins are grouped
+ * into clusters showing how many listings they contain; clicking a cluster zooms in on it. Every time the map is panned
+ * or zoomed, the visible bounds are reported so the search can be re-run for that area. Tiles come from the configurable
+ * tile server in `mapConfig`.
+ *
+ * Leaflet needs `window`, so this component must be loaded with `next/dynamic` and `ssr: false`.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {MapListing[]} props.listings - The listings to plot (listings without a location are skipped).
+ * @param {Function} props.onBoundsChange - Called with the visible bounds when the map is shown and after every move.
+ * @returns {JSX.Element} The rendered ListingMap component.
+ *
+ * @example
+ * // Usage in a client component
+ * const ListingMap = dynamic(() => import("@/components/ListingMap"), { ssr: false });
+ * <ListingMap listings={listings} onBoundsChange={setMapBounds} />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import "leaflet/dist/leaflet.css";
+import L, { LatLngBounds } from "leaflet";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import Supercluster from "supercluster";
+import {
+    MAP_DEFAULT_CENTER,
+    MAP_DEFAULT_ZOOM,
+    MAP_MAX_ZOOM,
+    MAP_TILE_ATTRIBUTION,
+    MAP_TILE_URL,
+    MapBounds,
+} from "@/lib/map/map.config";
+import PriceTag from "@/components/PriceTag";
+import { useCurrency } from "@/components/CurrencyProvider";
+import { getOfferPrice, ListingPricing } from "@/lib/pricing/listing.offer";
+
+// Define the type for a listing shown on the map
+export interface MapListing extends ListingPricing {
+    _id: string;
+    projectName: string;
+    unitName?: string;
+    regularPrice: number;
+    location?: { type: "Point"; coordinates: [number, number] };
+}
+
+interface PageProps {
+    listings: MapListing[];
+    onBoundsChange: (bounds: MapBounds) => void;
+}
+
+/**
+ * @function toMapBounds
+ * @description Converts Leaflet bounds to the bounds accepted by `/api/listing/get`.
+ *
+ * @param {LatLngBounds} bounds - The Leaflet bounds.
+ * @returns {MapBounds} The edges of the box, in degrees.
+ */
+const toMapBounds = (bounds: LatLngBounds): MapBounds => ({
+    north: bounds.getNorth(),
+    south: bounds.getSouth(),
+    east: bounds.getEast(),
+    west: bounds.getWest(),
+});
+
+/**
+ * @function priceIcon
+ * @description Builds the pin of a single listing, labelled with its price.
+ *
+ * @param {string} price - The formatted price, e.g. "$2.5M".
+ * @returns {L.DivIcon} The marker icon.
+ */
+const priceIcon = (price: string) =>
+    L.divIcon({
+        className: "", // Drop Leaflet's default white square
+        iconSize: [0, 0], // Anchor at the point; the label positions itself with translate classes
+        html: `<span class="inline-block whitespace-nowrap bg-[#e74833] text-white text-xs font-bold px-2 py-1 rounded-full shadow -translate-x-1/2 -translate-y-full">${price}</span>`,
+    });
+
+/**
+ * @function clusterIcon
+ * @description Builds the marker of a cluster, labelled with the number of listings it contains.
+ *
+ * @param {number} count - The number of listings in the cluster.
+ * @returns {L.DivIcon} The marker icon.
+ */
+const clusterIcon = (count: number) =>
+    L.divIcon({
+        className: "",
+        iconSize: [0, 0],
+        html: `<span class="flex items-center justify-center w-10 h-10 -translate-x-1/2 -translate-y-1/2 rounded-full bg-[#244856] text-white text-sm font-bold border-4 border-white shadow">${count}</span>`,
+    });
+
+/**
+ * @function ClusteredPins
+ * @description Renders the clusters and price pins visible at the current zoom, and reports the visible bounds.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered markers.
+ */
+function ClusteredPins({ listings, onBoundsChange }: PageProps) {
+    const map = useMap();
+    const { format } = useCurrency(); // Pins show compact prices in the currency picked in the header
+    const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+
+    // Re-cluster and re-query whenever the map is panned or zoomed
+    useMapEvents({
+        moveend: () => {
+            setView({ bounds: map.getBounds(), zoom: map.getZoom() });
+            onBoundsChange(toMapBounds(map.getBounds()));
+        },
+    });
+
+    // Report the initial bounds so the first search is limited to the visible area
+    useEffect(() => {
+        onBoundsChange(toMapBounds(map.getBounds()));
+    }, [map, onBoundsChange]);
+
+    // Build the cluster index once per result set
+    const index = useMemo(() => {
+        const cluster = new Supercluster<{ listing: MapListing }>({ radius: 60, maxZoom: MAP_MAX_ZOOM - 1 });
+        cluster.load(
+            listings
+                .filter((listing) => listing.location?.coordinates?.length === 2)
+                .map((listing) => ({
+                    type: "Feature" as const,
+                    properties: { listing },
+                    geometry: { type: "Point" as const, coordinates: listing.location!.coordinates }, // [longitude, latitude]
+                }))
+        );
+        return cluster;
+    }, [listings]);
+
+    const { bounds, zoom } = view;
+    const features = index.getClusters(
+        [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+        Math.round(zoom)
+    );
+
+    return (
+        <>
+            {features.map((feature) => {
+                const [lng, lat] = feature.geometry.coordinates;
+
+                // A cluster: zoom in until it splits
+                if ("cluster" in feature.properties && feature.properties.cluster) {
+                    const clusterId = feature.properties.cluster_id;
+                    return (
+                        <Marker
+                            key={`cluster-${clusterId}`}
+                            position={[lat, lng]}
+                            icon={clusterIcon(feature.properties.point_count)}
+                            eventHandlers={{
+                                click: () => map.setView([lat, lng], Math.min(index.getClusterExpansionZoom(clusterId), MAP_MAX_ZOOM)),
+                            }}
+                        />
+                    );
+                }
+
+                // A single listing: a price pin with a link to the listing
+                const { listing } = feature.properties as { listing: MapListing };
+                return (
+                    <Marker
+                        key={listing._id}
+                        position={[lat, lng]}
+                        icon={priceIcon(format(getOfferPrice(listing) ?? listing.regularPrice, listing.currency, { compact: true }))}
+                    >
+                        <Popup>
+                            <Link href={`/listing/${listing._id}`} className="font-semibold text-[#244856] hover:underline">
+                                {listing.projectName}
+                                {listing.unitName ? ` · ${listing.unitName}` : ""}
+                            </Link>
+                            <PriceTag listing={listing} className="text-[#e74833] font-bold" />
+                        </Popup>
+                    </Marker>
+                );
+            })}
+        </>
+    );
+}
+
+/**
+ * @function ListingMap
+ * @description Renders the map with clustered listing pins.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {MapListing[]} props.listings - The listings to plot.
+ * @param {Function} props.onBoundsChange - Called with the visible bounds when the map is shown and after every move.
+ * @returns {JSX.Element} The rendered ListingMap component.
+ */
+export default function ListingMap({ listings, onBoundsChange }: PageProps) {
+    return (
+        <MapContainer
+            center={MAP_DEFAULT_CENTER}
+            zoom={MAP_DEFAULT_ZOOM}
+            maxZoom={MAP_MAX_ZOOM}
+            className="h-[600px] w-full rounded-lg z-0"
+        >
+            <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+            <ClusteredPins listings={listings} onBoundsChange={onBoundsChange} />
+        </MapContainer>
+    );
+}
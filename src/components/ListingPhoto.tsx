@@ -0,0 +1,61 @@
+/**
+ * @file ListingPhoto component for displaying a listing photo at the right size.
+ * @module ListingPhoto
+ * @description This component renders a listing photo with `next/image`, using a custom loader that picks the smallest
+ * pre-generated WebP variant wide enough for each `srcset` entry, so grids never download full-size originals. The blurred
+ * placeholder is shown while the photo loads. Listings without photos fall back to a static placeholder image.
+ * 
+ * @param {Object} props - The props passed to the component.
+ * @param {ListingImage} [props.image] - The listing photo to display.
+ * @param {StaticImageData} props.fallback - The placeholder image used when there is no photo.
+ * @param {string} props.alt - The alternative text of the image.
+ * @param {string} props.sizes - The `sizes` attribute describing how wide the image is displayed.
+ * @param {string} [props.className] - Extra classes for the image.
+ * @param {boolean} [props.priority] - Whether to preload the image (for above-the-fold photos).
+ * @returns {JSX.Element} The rendered ListingPhoto component.
+ * 
+ * @example
+ * // Usage in a listing card
+ * <ListingPhoto image={listing.images?.[0]} fallback={img1} alt={listing.projectName} sizes="(min-width: 1024px) 25vw, 100vw" />
+ */
+
+"use client"; // Mark this as a Client Component (next/image loaders are functions)
+
+import Image, { StaticImageData } from "next/image";
+import { ListingImage, pickImageVariant } from "@/lib/storage/listingImage";
+
+interface PageProps {
+    image?: ListingImage;
+    fallback: StaticImageData;
+    alt: string;
+    sizes: string;
+    className?: string;
+    priority?: boolean;
+}
+
+/**
+ * @function ListingPhoto
+ * @description Renders a listing photo filling its (relatively positioned) parent.
+ * 
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered ListingPhoto component.
+ */
+export default function ListingPhoto({ image, fallback, alt, sizes, className = "object-cover", priority }: PageProps) {
+    if (!image) {
+        return <Image src={fallback} alt={alt} fill sizes={sizes} className={className} priority={priority} />;
+    }
+
+    return (
+        <Image
+            src={image.url}
+            loader={({ width }) => pickImageVariant(image, width)} // Serve the matching pre-generated variant
+            alt={alt}
+            fill
+            sizes={sizes}
+            className={className}
+            priority={priority}
+            placeholder={image.blurDataURL ? "blur" : "empty"}
+            blurDataURL={image.blurDataURL}
+        />
+    );
+}
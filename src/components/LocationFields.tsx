@@ -0,0 +1,117 @@
+/**
+ * @file LocationFields component for capturing the coordinates of a listing.
+ * @module LocationFields
+ * @description This component renders the latitude and longitude inputs of the listing forms, with a button that fills
+ * them from the browser's current position. Both fields are optional, but must be given together.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} props.latitude - The latitude input value.
+ * @param {string} props.longitude - The longitude input value.
+ * @param {Record<string, string>} props.errors - The field-level validation messages of the form.
+ * @param {Function} props.onChange - Called with the new latitude and longitude.
+ * @returns {JSX.Element} The rendered LocationFields component.
+ *
+ * @example
+ * // Usage in a form
+ * <LocationFields
+ *     latitude={formData.latitude}
+ *     longitude={formData.longitude}
+ *     errors={errors}
+ *     onChange={(latitude, longitude) => setFormData({ ...formData, latitude, longitude })}
+ * />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaCrosshairs } from "react-icons/fa";
+import FieldError from "@/components/FieldError";
+
+interface PageProps {
+    latitude: string;
+    longitude: string;
+    errors: Record<string, string>;
+    onChange: (latitude: string, longitude: string) => void;
+}
+
+/**
+ * @function LocationFields
+ * @description Latitude and longitude inputs with a "use my location" button.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered LocationFields component.
+ */
+export default function LocationFields({ latitude, longitude, errors, onChange }: PageProps) {
+    const [locating, setLocating] = useState<boolean>(false);
+
+    /**
+     * @function handleUseMyLocation
+     * @description Fills the coordinates from the browser's current position.
+     */
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            toast.error("Your browser cannot share its location.");
+            return;
+        }
+
+        setLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                // Six decimals are about 10 cm, more than enough for a unit
+                onChange(position.coords.latitude.toFixed(6), position.coords.longitude.toFixed(6));
+                setLocating(false);
+            },
+            () => {
+                toast.error("Could not get your location. Please enter the coordinates manually.");
+                setLocating(false);
+            }
+        );
+    };
+
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Latitude</label>
+                <input
+                    type="number"
+                    name="latitude"
+                    value={latitude}
+                    onChange={(e) => onChange(e.target.value, longitude)}
+                    min={-90}
+                    max={90}
+                    step="any"
+                    className={inputClassName}
+                    placeholder="30.0189"
+                />
+                <FieldError message={errors.latitude} />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Longitude</label>
+                <input
+                    type="number"
+                    name="longitude"
+                    value={longitude}
+                    onChange={(e) => onChange(latitude, e.target.value)}
+                    min={-180}
+                    max={180}
+                    step="any"
+                    className={inputClassName}
+                    placeholder="31.4995"
+                />
+                <FieldError message={errors.longitude} />
+            </div>
+            <button
+                type="button"
+                onClick={handleUseMyLocation}
+                disabled={locating}
+                className="mt-6 flex items-center justify-center gap-2 px-3 py-2 border border-[#244856] rounded-md text-[#244856]"
+            >
+                <FaCrosshairs />
+                {locating ? 'Locating...' : 'Use My Location'}
+            </button>
+        </div>
+    );
+}
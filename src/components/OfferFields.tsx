@@ -0,0 +1,109 @@
+/**
+ * @file OfferFields component for setting up the special offer of a listing.
+ * @module OfferFields
+ * @description This component renders the offer inputs of the listing forms: the offer checkbox, the discounted
+ * price, and the optional dates between which the offer runs. The price and dates are only shown while the offer box
+ * is checked; the server ignores them for listings without an offer.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {OfferValues} props.values - The offer input values.
+ * @param {Record<string, string>} props.errors - The field-level validation messages of the form.
+ * @param {Function} props.onChange - Called with the changed offer values.
+ * @returns {JSX.Element} The rendered OfferFields component.
+ *
+ * @example
+ * // Usage in a form
+ * <OfferFields
+ *     values={formData}
+ *     errors={errors}
+ *     onChange={(values) => setFormData({ ...formData, ...values })}
+ * />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import FieldError from "@/components/FieldError";
+
+/**
+ * @interface OfferValues
+ * @description The offer inputs of a listing form. The dates are `YYYY-MM-DD` strings, as used by date inputs.
+ */
+export interface OfferValues {
+    offer: boolean;
+    discountPrice: string;
+    offerStartsAt: string;
+    offerEndsAt: string;
+}
+
+interface PageProps {
+    values: OfferValues;
+    errors: Record<string, string>;
+    onChange: (values: Partial<OfferValues>) => void;
+}
+
+/**
+ * @function OfferFields
+ * @description The offer checkbox, discounted price and offer dates.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered OfferFields component.
+ */
+export default function OfferFields({ values, errors, onChange }: PageProps) {
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div className="space-y-4">
+            <label className="flex items-center">
+                <input
+                    type="checkbox"
+                    name="offer"
+                    checked={values.offer}
+                    onChange={(e) => onChange({ offer: e.target.checked })}
+                    className="form-checkbox h-5 w-5 text-[#e74833]"
+                />
+                <span className="ml-2 text-[#244856]">Special offer</span>
+            </label>
+
+            {values.offer && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Discount price</label>
+                        <input
+                            type="number"
+                            name="discountPrice"
+                            value={values.discountPrice}
+                            onChange={(e) => onChange({ discountPrice: e.target.value })}
+                            className={inputClassName}
+                            min={0}
+                            placeholder="Optional"
+                        />
+                        <FieldError message={errors.discountPrice} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Offer starts</label>
+                        <input
+                            type="date"
+                            name="offerStartsAt"
+                            value={values.offerStartsAt}
+                            onChange={(e) => onChange({ offerStartsAt: e.target.value })}
+                            className={inputClassName}
+                        />
+                        <FieldError message={errors.offerStartsAt} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Offer expires on</label>
+                        <input
+                            type="date"
+                            name="offerEndsAt"
+                            value={values.offerEndsAt}
+                            min={values.offerStartsAt || undefined}
+                            onChange={(e) => onChange({ offerEndsAt: e.target.value })}
+                            className={inputClassName}
+                        />
+                        <FieldError message={errors.offerEndsAt} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,262 @@
+/**
+ * @file PaymentCalculator component for exploring the payment plans of a sale listing.
+ * @module PaymentCalculator
+ * @description This component lets buyers pick one of a listing's payment plans, adjust its down payment, years and
+ * installment frequency, and see the resulting schedule. The schedule is computed by
+ * `/api/listings/[id]/payment-schedule`, so it always uses the listing's current price (the offer price while an offer
+ * runs) and the project's delivery date.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} props.listingId - The ID of the listing.
+ * @param {PaymentPlan[]} props.plans - The payment plans of the listing.
+ * @param {CurrencyCode} [props.currency] - The currency of the listing's price; amounts are shown in the currency picked
+ * in the header.
+ * @returns {JSX.Element | null} The rendered PaymentCalculator component.
+ *
+ * @example
+ * // Usage on the listing page
+ * <PaymentCalculator listingId={listing._id} plans={listing.paymentPlans} currency={listing.currency} />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { useEffect, useState } from "react";
+import {
+    FREQUENCY_LABELS,
+    InstallmentFrequency,
+    MAX_PLAN_YEARS,
+    PaymentPlan,
+    PaymentSchedule,
+    ScheduledPayment,
+} from "@/lib/pricing/payment.plan";
+import type { CurrencyCode } from "@/lib/pricing/currency";
+import { useCurrency } from "@/components/CurrencyProvider";
+
+interface PageProps {
+    listingId: string;
+    plans: PaymentPlan[];
+    currency?: CurrencyCode;
+}
+
+// The schedule as sent by the API (dates are ISO strings in JSON)
+type ScheduleResponse = Omit<PaymentSchedule, "payments"> & {
+    payments: (Omit<ScheduledPayment, "dueDate"> & { dueDate: string | null })[];
+};
+
+// Wait this long after the last change before recomputing the schedule
+const CALCULATOR_DEBOUNCE_MS = 300;
+
+// The number of payments listed before "Show all"
+const COLLAPSED_PAYMENTS = 6;
+
+// Human-readable names of the payment kinds
+const paymentLabels: Record<ScheduledPayment["kind"], string> = {
+    downPayment: "Down payment",
+    installment: "Installment",
+    maintenance: "Maintenance fee",
+};
+
+/**
+ * @function PaymentCalculator
+ * @description Renders the plan picker, the adjustable terms and the computed schedule.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element | null} The rendered calculator, or `null` when the listing has no payment plans.
+ */
+export default function PaymentCalculator({ listingId, plans, currency }: PageProps) {
+    const { format } = useCurrency();
+    const formatAmount = (amount: number) => format(amount, currency); // In the currency picked in the header
+    const [planIndex, setPlanIndex] = useState<number>(0);
+    const [downPaymentPercent, setDownPaymentPercent] = useState<number>(plans[0]?.downPaymentPercent ?? 0);
+    const [years, setYears] = useState<number>(plans[0]?.years ?? 0);
+    const [frequency, setFrequency] = useState<InstallmentFrequency>(plans[0]?.frequency ?? "monthly");
+    const [schedule, setSchedule] = useState<ScheduleResponse | null>(null);
+    const [error, setError] = useState<string>("");
+    const [showAll, setShowAll] = useState<boolean>(false);
+
+    /**
+     * @function useEffect
+     * @description Recomputes the schedule after the terms change (debounced, cancelling the previous request).
+     */
+    useEffect(() => {
+        if (plans.length === 0) return;
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch(`/api/listings/${listingId}/payment-schedule`, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({ planIndex, downPaymentPercent, years, frequency }),
+                    signal: controller.signal,
+                });
+                const data = await res.json();
+
+                if (data.success === false) {
+                    // Show the first field-level message, if any
+                    setError(Object.values(data.errors ?? {})[0] as string ?? data.message);
+                    return;
+                }
+                setSchedule(data);
+                setError("");
+            } catch (error) {
+                if ((error as Error).name !== "AbortError") {
+                    console.error("Error computing payment schedule:", error);
+                    setError("Could not compute the payment schedule.");
+                }
+            }
+        }, CALCULATOR_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [listingId, plans.length, planIndex, downPaymentPercent, years, frequency]);
+
+    /**
+     * @function handlePlanChange
+     * @description Switches to another plan and resets the terms to that plan's.
+     *
+     * @param {number} index - The position of the plan.
+     */
+    const handlePlanChange = (index: number) => {
+        setPlanIndex(index);
+        setDownPaymentPercent(plans[index].downPaymentPercent);
+        setYears(plans[index].years);
+        setFrequency(plans[index].frequency);
+        setShowAll(false);
+    };
+
+    if (plans.length === 0) return null;
+
+    const payments = schedule ? (showAll ? schedule.payments : schedule.payments.slice(0, COLLAPSED_PAYMENTS)) : [];
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+            <h2 className="text-2xl font-bold text-[#244856] mb-4">Payment Plans</h2>
+
+            {/* Plan picker */}
+            {plans.length > 1 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {plans.map((plan, index) => (
+                        <button
+                            key={index}
+                            type="button"
+                            onClick={() => handlePlanChange(index)}
+                            className={`px-3 py-1 rounded-full text-sm border ${index === planIndex
+                                ? "bg-[#244856] text-white border-[#244856]"
+                                : "text-[#244856] border-[#244856] hover:bg-gray-100"}`}
+                        >
+                            {plan.name || `${plan.downPaymentPercent}% down, ${plan.years} years`}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Adjustable terms */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <div>
+                    <label className="block text-sm font-medium text-[#244856]">
+                        Down payment: {downPaymentPercent}%
+                    </label>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={downPaymentPercent}
+                        onChange={(e) => setDownPaymentPercent(Number(e.target.value))}
+                        className="mt-3 w-full accent-[#e74833]"
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-[#244856]">Years</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_PLAN_YEARS}
+                        value={years}
+                        onChange={(e) => setYears(Number(e.target.value))}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-[#244856]">Installments</label>
+                    <select
+                        value={frequency}
+                        onChange={(e) => setFrequency(e.target.value as InstallmentFrequency)}
+                        className={inputClassName}
+                    >
+                        {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-[#e74833] mb-4" role="alert">{error}</p>}
+
+            {schedule && (
+                <>
+                    {/* Summary */}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+                        <div>
+                            <p className="text-sm text-gray-600">Down payment</p>
+                            <p className="text-lg font-bold text-[#244856]">{formatAmount(schedule.downPayment)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-600">
+                                {schedule.installmentCount} × {FREQUENCY_LABELS[schedule.plan.frequency].toLowerCase()}
+                            </p>
+                            <p className="text-lg font-bold text-[#e74833]">{formatAmount(schedule.installmentAmount)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-600">Maintenance ({schedule.plan.maintenanceFeePercent}%)</p>
+                            <p className="text-lg font-bold text-[#244856]">{formatAmount(schedule.maintenanceFee)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-600">Total</p>
+                            <p className="text-lg font-bold text-[#244856]">{formatAmount(schedule.total)}</p>
+                        </div>
+                    </div>
+
+                    {/* Schedule */}
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600 border-b">
+                                <th className="py-2">#</th>
+                                <th className="py-2">Payment</th>
+                                <th className="py-2">Due</th>
+                                <th className="py-2 text-right">Amount</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {payments.map((payment) => (
+                                <tr key={payment.number} className="border-b last:border-0">
+                                    <td className="py-2 text-gray-600">{payment.number}</td>
+                                    <td className="py-2 text-[#244856]">{paymentLabels[payment.kind]}</td>
+                                    <td className="py-2 text-gray-600">
+                                        {payment.dueDate ? new Date(payment.dueDate).toLocaleDateString() : "On delivery"}
+                                    </td>
+                                    <td className="py-2 text-right font-medium">{formatAmount(payment.amount)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {schedule.payments.length > COLLAPSED_PAYMENTS && (
+                        <button
+                            type="button"
+                            onClick={() => setShowAll((prev) => !prev)}
+                            className="mt-4 text-[#244856] hover:text-[#e74833] font-medium"
+                        >
+                            {showAll ? "Show less" : `Show all ${schedule.payments.length} payments`}
+                        </button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
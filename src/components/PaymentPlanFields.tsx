@@ -0,0 +1,174 @@
+/**
+ * @file PaymentPlanFields component for editing the payment plans of a sale listing.
+ * @module PaymentPlanFields
+ * @description This component renders one row of inputs per payment plan of the listing forms (name, down payment,
+ * years, installment frequency and maintenance fee), with buttons to add and remove plans. Plans are only kept for
+ * listings for sale.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {PaymentPlanValues[]} props.plans - The payment plan input values.
+ * @param {Record<string, string>} props.errors - The field-level validation messages of the form (e.g. "paymentPlans.0.years").
+ * @param {Function} props.onChange - Called with the new list of plans.
+ * @returns {JSX.Element} The rendered PaymentPlanFields component.
+ *
+ * @example
+ * // Usage in a form
+ * <PaymentPlanFields
+ *     plans={formData.paymentPlans}
+ *     errors={errors}
+ *     onChange={(paymentPlans) => setFormData({ ...formData, paymentPlans })}
+ * />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { FaPlus, FaTimes } from "react-icons/fa";
+import FieldError from "@/components/FieldError";
+import { FREQUENCY_LABELS, InstallmentFrequency, MAX_PAYMENT_PLANS, MAX_PLAN_YEARS } from "@/lib/pricing/payment.plan";
+
+/**
+ * @interface PaymentPlanValues
+ * @description The inputs of a payment plan. Numbers are kept as entered; the server coerces them.
+ */
+export interface PaymentPlanValues {
+    name: string;
+    downPaymentPercent: string | number;
+    years: string | number;
+    frequency: InstallmentFrequency;
+    maintenanceFeePercent: string | number;
+}
+
+interface PageProps {
+    plans: PaymentPlanValues[];
+    errors: Record<string, string>;
+    onChange: (plans: PaymentPlanValues[]) => void;
+}
+
+// A common plan in the Egyptian market, used as the starting point of new plans
+const NEW_PLAN: PaymentPlanValues = {
+    name: "",
+    downPaymentPercent: 10,
+    years: 8,
+    frequency: "quarterly",
+    maintenanceFeePercent: 8,
+};
+
+/**
+ * @function PaymentPlanFields
+ * @description The list of payment plan inputs.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered PaymentPlanFields component.
+ */
+export default function PaymentPlanFields({ plans, errors, onChange }: PageProps) {
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    /**
+     * @function updatePlan
+     * @description Changes one field of one plan.
+     *
+     * @param {number} index - The position of the plan.
+     * @param {Partial<PaymentPlanValues>} values - The changed fields.
+     */
+    const updatePlan = (index: number, values: Partial<PaymentPlanValues>) =>
+        onChange(plans.map((plan, planIndex) => (planIndex === index ? { ...plan, ...values } : plan)));
+
+    return (
+        <div className="space-y-4">
+            {plans.length === 0 && <p className="text-sm text-gray-600">No payment plans: the unit is paid in cash.</p>}
+
+            {plans.map((plan, index) => (
+                <div key={index} className="border border-gray-200 rounded-md p-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-medium text-[#244856]">Plan {index + 1}</h3>
+                        <button
+                            type="button"
+                            onClick={() => onChange(plans.filter((_, planIndex) => planIndex !== index))}
+                            className="text-gray-500 hover:text-[#e74833]"
+                            aria-label={`Remove plan ${index + 1}`}
+                        >
+                            <FaTimes />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="sm:col-span-2">
+                            <label className="block text-sm font-medium text-[#244856]">Name</label>
+                            <input
+                                type="text"
+                                value={plan.name}
+                                onChange={(e) => updatePlan(index, { name: e.target.value })}
+                                className={inputClassName}
+                                placeholder="e.g. 10% down, 8 years"
+                            />
+                            <FieldError message={errors[`paymentPlans.${index}.name`]} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Down payment (%)</label>
+                            <input
+                                type="number"
+                                value={plan.downPaymentPercent}
+                                onChange={(e) => updatePlan(index, { downPaymentPercent: e.target.value })}
+                                className={inputClassName}
+                                min={0}
+                                max={100}
+                                step="any"
+                                required
+                            />
+                            <FieldError message={errors[`paymentPlans.${index}.downPaymentPercent`]} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Years</label>
+                            <input
+                                type="number"
+                                value={plan.years}
+                                onChange={(e) => updatePlan(index, { years: e.target.value })}
+                                className={inputClassName}
+                                min={0}
+                                max={MAX_PLAN_YEARS}
+                                required
+                            />
+                            <FieldError message={errors[`paymentPlans.${index}.years`]} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Installments</label>
+                            <select
+                                value={plan.frequency}
+                                onChange={(e) => updatePlan(index, { frequency: e.target.value as InstallmentFrequency })}
+                                className={inputClassName}
+                            >
+                                {Object.entries(FREQUENCY_LABELS).map(([frequency, label]) => (
+                                    <option key={frequency} value={frequency}>{label}</option>
+                                ))}
+                            </select>
+                            <FieldError message={errors[`paymentPlans.${index}.frequency`]} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Maintenance fee (%)</label>
+                            <input
+                                type="number"
+                                value={plan.maintenanceFeePercent}
+                                onChange={(e) => updatePlan(index, { maintenanceFeePercent: e.target.value })}
+                                className={inputClassName}
+                                min={0}
+                                max={100}
+                                step="any"
+                            />
+                            <FieldError message={errors[`paymentPlans.${index}.maintenanceFeePercent`]} />
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            {plans.length < MAX_PAYMENT_PLANS && (
+                <button
+                    type="button"
+                    onClick={() => onChange([...plans, { ...NEW_PLAN }])}
+                    className="flex items-center text-[#244856] hover:text-[#e74833]"
+                >
+                    <FaPlus className="mr-2" /> Add payment plan
+                </button>
+            )}
+            <FieldError message={errors.paymentPlans} />
+        </div>
+    );
+}
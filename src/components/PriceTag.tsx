@@ -0,0 +1,76 @@
+/**
+ * @file PriceTag component for showing the price of a listing.
+ * @module PriceTag
+ * @description This component renders the price of a listing in the currency picked in the header. While the listing's
+ * offer runs, the discounted price is shown next to the regular price struck through; otherwise only the regular price
+ * is shown.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {ListingPricing} props.listing - The price and offer fields of the listing.
+ * @param {string} [props.className] - The classes of the price (default: the card price style).
+ * @param {React.ReactNode} [props.children] - Content shown after the price (e.g. "/ month").
+ * @returns {JSX.Element} The rendered PriceTag component.
+ *
+ * @example
+ * // Usage in a listing card
+ * <PriceTag listing={listing} />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { ReactNode } from "react";
+import { getOfferPrice, ListingPricing } from "@/lib/pricing/listing.offer";
+import type { CurrencyCode } from "@/lib/pricing/currency";
+import { useCurrency } from "@/components/CurrencyProvider";
+
+interface PageProps {
+    listing: ListingPricing;
+    className?: string;
+    children?: ReactNode;
+}
+
+/**
+ * @function PriceTag
+ * @description Renders the current price of a listing, with the regular price struck through during an offer.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered price.
+ */
+export default function PriceTag({ listing, className = "text-2xl font-bold text-[#e74833]", children }: PageProps) {
+    const { format } = useCurrency();
+    const offerPrice = getOfferPrice(listing);
+
+    return (
+        <p className={className}>
+            {offerPrice !== null ? (
+                <>
+                    {format(offerPrice, listing.currency)}{" "}
+                    <span className="text-base font-normal text-gray-400 line-through">
+                        {format(listing.regularPrice, listing.currency)}
+                    </span>
+                </>
+            ) : (
+                <>{format(listing.regularPrice, listing.currency)}</>
+            )}{" "}
+            {children}
+        </p>
+    );
+}
+
+/**
+ * @function Price
+ * @description Renders any amount quoted in a listing's currency (a deposit, an installment) in the currency picked in
+ * the header.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {number} props.amount - The amount.
+ * @param {CurrencyCode} [props.currency] - The currency of the amount (default: EGP).
+ * @returns {JSX.Element} The formatted amount.
+ *
+ * @example
+ * <Price amount={listing.rentalTerms.deposit} currency={listing.currency} />
+ */
+export function Price({ amount, currency }: { amount: number; currency?: CurrencyCode }) {
+    const { format } = useCurrency();
+    return <>{format(amount, currency)}</>;
+}
@@ -0,0 +1,213 @@
+/**
+ * @file ProjectPicker component for choosing the project (compound) of a listing.
+ * @module ProjectPicker
+ * @description This component lists the projects from `/api/project/get` in a dropdown. When the project does not exist
+ * yet, admins and agents can create it inline through `/api/project/create`; the new project is then selected.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} props.value - The ID of the selected project (empty when none is selected).
+ * @param {Function} props.onChange - Called with the ID of the newly selected project.
+ * @returns {JSX.Element} The rendered ProjectPicker component.
+ *
+ * @example
+ * // Usage in a form
+ * <ProjectPicker value={formData.projectId} onChange={(projectId) => setFormData({ ...formData, projectId })} />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import { ChangeEvent, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import FieldError from "@/components/FieldError";
+import ImageUploader from "@/components/ImageUploader";
+import { ListingImage } from "@/lib/storage/listingImage";
+
+// Define the type for a project option
+interface ProjectOption {
+    _id: string;
+    name: string;
+    location?: string;
+}
+
+interface PageProps {
+    value: string;
+    onChange: (projectId: string) => void;
+}
+
+// The empty new-project form
+const emptyProject = {
+    name: '',
+    developer: '',
+    location: '',
+    amenities: '',
+    deliveryDate: '',
+    coverImage: [] as ListingImage[],
+};
+
+/**
+ * @function ProjectPicker
+ * @description A project dropdown with an inline form for creating a new project.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {string} props.value - The ID of the selected project.
+ * @param {Function} props.onChange - Called with the ID of the newly selected project.
+ * @returns {JSX.Element} The rendered ProjectPicker component.
+ */
+export default function ProjectPicker({ value, onChange }: PageProps) {
+    const [projects, setProjects] = useState<ProjectOption[]>([]);
+    const [creating, setCreating] = useState<boolean>(false); // The new-project form is open
+    const [saving, setSaving] = useState<boolean>(false);
+    const [newProject, setNewProject] = useState(emptyProject);
+    const [errors, setErrors] = useState<Record<string, string>>({}); // Field-level validation messages from the API
+
+    // Load the projects once
+    useEffect(() => {
+        const fetchProjects = async () => {
+            try {
+                const res = await fetch('/api/project/get', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ limit: 500 }),
+                });
+                const data = await res.json();
+                setProjects(Array.isArray(data) ? data : []);
+            } catch (error) {
+                console.error("Error fetching projects:", error);
+                toast.error("Failed to load projects. Please try again.");
+            }
+        };
+
+        fetchProjects();
+    }, []);
+
+    /**
+     * @function handleNewProjectChange
+     * @description Handles changes to the inputs of the new-project form.
+     *
+     * @param {ChangeEvent<HTMLInputElement>} e - The change event from the input field.
+     */
+    const handleNewProjectChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setErrors((prev) => ({ ...prev, [name]: '' }));
+        setNewProject((prev) => ({ ...prev, [name]: value }));
+    };
+
+    /**
+     * @function handleCreate
+     * @description Creates the new project and selects it.
+     *
+     * @async
+     * @returns {Promise<void>}
+     */
+    const handleCreate = async () => {
+        try {
+            setSaving(true);
+            const res = await fetch('/api/project/create', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ ...newProject, coverImage: newProject.coverImage[0] }),
+            });
+            const data = await res.json();
+
+            if (data.success === false) {
+                setErrors(data.errors || {}); // Show field-level messages next to the inputs
+                toast.error(data.message);
+                return;
+            }
+
+            // Add the project to the dropdown (kept in alphabetical order) and select it
+            const created = { _id: data.id, name: newProject.name.trim(), location: newProject.location.trim() };
+            setProjects((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            onChange(data.id);
+            setNewProject(emptyProject);
+            setCreating(false);
+            toast.success("Project created successfully");
+        } catch (error) {
+            console.error("Error creating project:", error);
+            toast.error("An unexpected error occurred. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div>
+            <div className="flex gap-2">
+                <select
+                    name="projectId"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">Select a project</option>
+                    {projects.map((project) => (
+                        <option key={project._id} value={project._id}>
+                            {project.name}{project.location ? ` — ${project.location}` : ''}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    onClick={() => setCreating(!creating)}
+                    className="mt-1 px-3 py-2 border border-[#244856] rounded-md text-[#244856] whitespace-nowrap"
+                >
+                    {creating ? 'Cancel' : 'New Project'}
+                </button>
+            </div>
+
+            {/* New Project Form (not a nested <form>: it lives inside the listing form) */}
+            {creating && (
+                <div className="mt-4 p-4 border border-dashed border-[#244856] rounded-md space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Project Name</label>
+                            <input type="text" name="name" value={newProject.name} onChange={handleNewProjectChange} className={inputClassName} placeholder="Project Name" />
+                            <FieldError message={errors.name} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Developer</label>
+                            <input type="text" name="developer" value={newProject.developer} onChange={handleNewProjectChange} className={inputClassName} placeholder="Developer" />
+                            <FieldError message={errors.developer} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Location</label>
+                            <input type="text" name="location" value={newProject.location} onChange={handleNewProjectChange} className={inputClassName} placeholder="Location" />
+                            <FieldError message={errors.location} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-[#244856]">Delivery Date</label>
+                            <input type="date" name="deliveryDate" value={newProject.deliveryDate} onChange={handleNewProjectChange} className={inputClassName} />
+                            <FieldError message={errors.deliveryDate} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856]">Amenities</label>
+                        <input type="text" name="amenities" value={newProject.amenities} onChange={handleNewProjectChange} className={inputClassName} placeholder="Pool, Gym, Club House" />
+                        <FieldError message={errors.amenities} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#244856] mb-1">Cover Image</label>
+                        <ImageUploader
+                            images={newProject.coverImage}
+                            onChange={(images) => setNewProject((prev) => ({ ...prev, coverImage: images.slice(0, 1) }))} // Only one cover
+                        />
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleCreate}
+                        disabled={saving}
+                        className={`py-2 px-4 rounded-md text-white ${saving ? 'bg-[#e74833]/50 cursor-not-allowed' : 'bg-[#e74833] hover:bg-[#d1402e]'}`}
+                    >
+                        {saving ? 'Creating...' : 'Create Project'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
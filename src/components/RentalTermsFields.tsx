@@ -0,0 +1,121 @@
+/**
+ * @file RentalTermsFields component for setting the rental terms of a rent listing.
+ * @module RentalTermsFields
+ * @description This component renders the rental term inputs of the listing forms: the period the price covers, the
+ * deposit, the minimum lease length and the date the unit becomes available. Only the period is required; the server
+ * ignores the terms for listings that are not for rent.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {RentalTermsValues} props.values - The rental term input values.
+ * @param {Record<string, string>} props.errors - The field-level validation messages of the form (e.g. "rentalTerms.deposit").
+ * @param {Function} props.onChange - Called with the changed rental terms.
+ * @returns {JSX.Element} The rendered RentalTermsFields component.
+ *
+ * @example
+ * // Usage in a form
+ * <RentalTermsFields
+ *     values={formData.rentalTerms}
+ *     errors={errors}
+ *     onChange={(rentalTerms) => setFormData({ ...formData, rentalTerms })}
+ * />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import FieldError from "@/components/FieldError";
+import { MAX_LEASE_MONTHS, RentPeriod } from "@/lib/pricing/rental.terms";
+
+/**
+ * @interface RentalTermsValues
+ * @description The rental term inputs. Numbers are kept as entered; the date is a `YYYY-MM-DD` string.
+ */
+export interface RentalTermsValues {
+    rentPeriod: RentPeriod;
+    deposit: string | number;
+    minLeaseMonths: string | number;
+    availableFrom: string;
+}
+
+/**
+ * @constant EMPTY_RENTAL_TERMS
+ * @description The rental terms of a new listing: a monthly rent, available now.
+ */
+export const EMPTY_RENTAL_TERMS: RentalTermsValues = {
+    rentPeriod: "monthly",
+    deposit: "",
+    minLeaseMonths: "",
+    availableFrom: "",
+};
+
+interface PageProps {
+    values: RentalTermsValues;
+    errors: Record<string, string>;
+    onChange: (values: RentalTermsValues) => void;
+}
+
+/**
+ * @function RentalTermsFields
+ * @description The rent period, deposit, minimum lease and availability inputs.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered RentalTermsFields component.
+ */
+export default function RentalTermsFields({ values, errors, onChange }: PageProps) {
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-start">
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">The price is the rent</label>
+                <select
+                    name="rentPeriod"
+                    value={values.rentPeriod}
+                    onChange={(e) => onChange({ ...values, rentPeriod: e.target.value as RentPeriod })}
+                    className={inputClassName}
+                >
+                    <option value="monthly">Per month</option>
+                    <option value="yearly">Per year</option>
+                </select>
+                <FieldError message={errors["rentalTerms.rentPeriod"]} />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Deposit</label>
+                <input
+                    type="number"
+                    name="deposit"
+                    value={values.deposit}
+                    onChange={(e) => onChange({ ...values, deposit: e.target.value })}
+                    className={inputClassName}
+                    min={0}
+                    placeholder="Optional"
+                />
+                <FieldError message={errors["rentalTerms.deposit"]} />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Minimum lease (months)</label>
+                <input
+                    type="number"
+                    name="minLeaseMonths"
+                    value={values.minLeaseMonths}
+                    onChange={(e) => onChange({ ...values, minLeaseMonths: e.target.value })}
+                    className={inputClassName}
+                    min={1}
+                    max={MAX_LEASE_MONTHS}
+                    placeholder="Optional"
+                />
+                <FieldError message={errors["rentalTerms.minLeaseMonths"]} />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Available from</label>
+                <input
+                    type="date"
+                    name="availableFrom"
+                    value={values.availableFrom}
+                    onChange={(e) => onChange({ ...values, availableFrom: e.target.value })}
+                    className={inputClassName}
+                />
+                <FieldError message={errors["rentalTerms.availableFrom"]} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,60 @@
+/**
+ * @file SearchHighlights component for showing where a search term matched a listing.
+ * @module SearchHighlights
+ * @description This component renders the highlighted snippets returned by `/api/listing/get` for text searches. The
+ * matched words are wrapped in `<mark>` elements; the snippets are plain text, so no HTML is injected.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {ListingHighlight[]} [props.highlights] - The highlighted snippets of the listing.
+ * @param {number} [props.max] - The maximum number of snippets to show (default: 2).
+ * @returns {JSX.Element | null} The rendered SearchHighlights component.
+ *
+ * @example
+ * // Usage in a search result card
+ * <SearchHighlights highlights={listing.highlights} />
+ */
+
+import type { ListingHighlight } from "@/lib/search/listing.highlight";
+
+interface PageProps {
+    highlights?: ListingHighlight[];
+    max?: number;
+}
+
+// Human-readable names of the searchable fields
+const fieldLabels: Record<ListingHighlight["field"], string> = {
+    projectName: "Project",
+    unitName: "Unit",
+    address: "Address",
+    description: "Description",
+};
+
+/**
+ * @function SearchHighlights
+ * @description Renders the highlighted snippets of a listing.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element | null} The rendered snippets, or `null` when there are none.
+ */
+export default function SearchHighlights({ highlights, max = 2 }: PageProps) {
+    if (!highlights || highlights.length === 0) return null;
+
+    return (
+        <ul className="mb-4 space-y-1 text-sm text-gray-600">
+            {highlights.slice(0, max).map((highlight) => (
+                <li key={highlight.field}>
+                    <span className="font-semibold text-[#244856]">{fieldLabels[highlight.field]}: </span>
+                    {highlight.fragments.map((fragment, index) =>
+                        fragment.highlight ? (
+                            <mark key={index} className="bg-[#e74833]/20 text-[#244856] rounded px-0.5">
+                                {fragment.text}
+                            </mark>
+                        ) : (
+                            <span key={index}>{fragment.text}</span>
+                        )
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+}
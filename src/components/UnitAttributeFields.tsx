@@ -0,0 +1,133 @@
+/**
+ * @file UnitAttributeFields component for describing the unit of a listing.
+ * @module UnitAttributeFields
+ * @description This component renders the unit attribute inputs of the listing forms: the built-up area, the floor, the
+ * unit type, the finishing level and the delivery status. Every attribute is optional; buyers can filter the search
+ * results on them.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @param {UnitAttributeValues} props.values - The unit attribute input values.
+ * @param {Record<string, string>} props.errors - The field-level validation messages of the form.
+ * @param {Function} props.onChange - Called with the changed unit attribute values.
+ * @returns {JSX.Element} The rendered UnitAttributeFields component.
+ *
+ * @example
+ * // Usage in a form
+ * <UnitAttributeFields
+ *     values={formData}
+ *     errors={errors}
+ *     onChange={(values) => setFormData({ ...formData, ...values })}
+ * />
+ */
+
+"use client"; // Mark this as a Client Component
+
+import FieldError from "@/components/FieldError";
+import {
+    DELIVERY_STATUSES,
+    FINISHING_LEVELS,
+    MAX_AREA_SQM,
+    MAX_FLOOR,
+    MIN_FLOOR,
+    UNIT_TYPES,
+} from "@/lib/listings/unit.attributes";
+
+/**
+ * @interface UnitAttributeValues
+ * @description The unit attribute inputs of a listing form. Empty strings mean "not specified".
+ */
+export interface UnitAttributeValues {
+    area: string | number;
+    floor: string | number;
+    unitType: string;
+    finishing: string;
+    deliveryStatus: string;
+}
+
+/**
+ * @constant EMPTY_UNIT_ATTRIBUTES
+ * @description The unit attribute inputs of a new listing.
+ */
+export const EMPTY_UNIT_ATTRIBUTES: UnitAttributeValues = {
+    area: "",
+    floor: "",
+    unitType: "",
+    finishing: "",
+    deliveryStatus: "",
+};
+
+interface PageProps {
+    values: UnitAttributeValues;
+    errors: Record<string, string>;
+    onChange: (values: Partial<UnitAttributeValues>) => void;
+}
+
+// The choice inputs, with their options
+const choiceFields = [
+    { name: "unitType", label: "Unit type", options: UNIT_TYPES },
+    { name: "finishing", label: "Finishing", options: FINISHING_LEVELS },
+    { name: "deliveryStatus", label: "Delivery", options: DELIVERY_STATUSES },
+] as const;
+
+/**
+ * @function UnitAttributeFields
+ * @description The area, floor, unit type, finishing and delivery status inputs.
+ *
+ * @param {Object} props - The props passed to the component.
+ * @returns {JSX.Element} The rendered UnitAttributeFields component.
+ */
+export default function UnitAttributeFields({ values, errors, onChange }: PageProps) {
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-[#244856] rounded-md shadow-sm focus:outline-none focus:ring-[#e74833] focus:border-[#e74833]";
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Area (m²)</label>
+                <input
+                    type="number"
+                    name="area"
+                    value={values.area}
+                    onChange={(e) => onChange({ area: e.target.value })}
+                    className={inputClassName}
+                    min={1}
+                    max={MAX_AREA_SQM}
+                    placeholder="Optional"
+                />
+                <FieldError message={errors.area} />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-[#244856]">Floor</label>
+                <input
+                    type="number"
+                    name="floor"
+                    value={values.floor}
+                    onChange={(e) => onChange({ floor: e.target.value })}
+                    className={inputClassName}
+                    min={MIN_FLOOR}
+                    max={MAX_FLOOR}
+                    placeholder="0 = ground floor"
+                />
+                <FieldError message={errors.floor} />
+            </div>
+            {choiceFields.map(({ name, label, options }) => (
+                <div key={name}>
+                    <label className="block text-sm font-medium text-[#244856]">{label}</label>
+                    <select
+                        name={name}
+                        value={values[name]}
+                        onChange={(e) => onChange({ [name]: e.target.value })}
+                        className={inputClassName}
+                    >
+                        <option value="">Not specified</option>
+                        {Object.entries(options).map(([value, optionLabel]) => (
+                            <option key={value} value={value}>
+                                {optionLabel}
+                            </option>
+                        ))}
+                    </select>
+                    <FieldError message={errors[name]} />
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,51 @@
+/**
+ * @file Password hashing utilities.
+ * @module password
+ * @description This file hashes and verifies user passwords with Node's built-in scrypt key derivation function.
+ * Hashes are stored as `salt:hash` (both hex encoded), so every password gets its own random salt.
+ * 
+ * @requires crypto
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Length of the derived key in bytes
+const KEY_LENGTH = 64;
+
+/**
+ * @function hashPassword
+ * @description Hashes a password with a random salt.
+ * 
+ * @async
+ * @param {string} password - The plain-text password.
+ * @returns {Promise<string>} The `salt:hash` string to store.
+ * 
+ * @example
+ * const passwordHash = await hashPassword("s3cret-pass");
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16).toString("hex");
+    const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+    return `${salt}:${derivedKey.toString("hex")}`;
+};
+
+/**
+ * @function verifyPassword
+ * @description Checks a password against a stored hash using a constant-time comparison.
+ * 
+ * @async
+ * @param {string} password - The plain-text password to check.
+ * @param {string} storedHash - The `salt:hash` string produced by `hashPassword`.
+ * @returns {Promise<boolean>} `true` if the password matches the hash.
+ */
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+    const [salt, hash] = storedHash.split(":");
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, "hex");
+    const derivedKey = await scryptAsync(password, salt, expected.length);
+    return derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+};
@@ -0,0 +1,166 @@
+/**
+ * @file Role-based listing permissions.
+ * @module permissions
+ * @description This file defines which role may perform which action on a listing or project, and the reusable checks
+ * used by the `/api/listing/*` and `/api/project/*` route handlers and the listing pages.
+ *
+ * - `admin`: can read, create, update and delete every listing and project, and manage users.
+ * - `agent`: can read every listing, create listings, and update or delete the listings they own. Can create and update
+ *   projects, but not delete them (other agents' listings may belong to them).
+ * - `viewer`: can only read listings and projects (as can anonymous visitors).
+ *
+ * The change history of a listing (`history`) is only shown to admins and to the owner of the listing.
+ */
+
+import { SessionUser } from "@/lib/auth/session";
+
+/**
+ * @constant ROLES
+ * @description The user roles, from most to least privileged.
+ */
+export const ROLES = ["admin", "agent", "viewer"] as const;
+
+/**
+ * @typedef {"admin" | "agent" | "viewer"} Role
+ * @description A user role.
+ */
+export type Role = (typeof ROLES)[number];
+
+/**
+ * @typedef {"read" | "create" | "update" | "delete" | "history"} ListingAction
+ * @description An action that can be performed on a listing. `history` is viewing its change history.
+ */
+export type ListingAction = "read" | "create" | "update" | "delete" | "history";
+
+/**
+ * @function isRole
+ * @description Checks whether a raw value is a valid role.
+ *
+ * @param {unknown} value - The raw role value.
+ * @returns {boolean} `true` if the value is one of the roles.
+ */
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+/**
+ * @function canPerformListingAction
+ * @description Checks whether a user may perform an action on a listing.
+ * When `listing` is omitted, only the role is checked (e.g. "can agents ever update listings?"); pass the listing to
+ * also check ownership.
+ *
+ * @param {SessionUser | null} user - The signed-in user, or `null` for anonymous visitors.
+ * @param {ListingAction} action - The action to perform.
+ * @param {{ userRef?: unknown }} [listing] - The listing the action applies to, if any.
+ * @returns {boolean} `true` if the action is allowed.
+ *
+ * The `history` action always needs the listing, since only admins and its owner pass it.
+ *
+ * @example
+ * canPerformListingAction(agent, "update", listing); // true only if the agent owns the listing
+ */
+export const canPerformListingAction = (
+    user: SessionUser | null,
+    action: ListingAction,
+    listing?: { userRef?: unknown }
+): boolean => {
+    // Everyone, including anonymous visitors, can browse listings
+    if (action === "read") return true;
+    if (!user) return false;
+    if (user.role === "admin") return true;
+
+    // Only the owner of a listing can see its change history, whatever their role
+    if (action === "history") return Boolean(listing?.userRef) && String(listing?.userRef) === user.id;
+
+    switch (user.role) {
+        case "agent":
+            if (action === "create" || !listing) return true;
+            // Agents can only change the listings they own
+            return Boolean(listing.userRef) && String(listing.userRef) === user.id;
+        default:
+            return false;
+    }
+};
+
+/**
+ * @function checkListingPermission
+ * @description Reusable authorization check for the listing route handlers.
+ * Returns `null` when the action is allowed, otherwise a ready-made error response: 401 for anonymous visitors and
+ * 403 for signed-in users whose role (or ownership) does not allow the action.
+ *
+ * @param {SessionUser | null} user - The signed-in user, or `null` for anonymous visitors.
+ * @param {ListingAction} action - The action to perform.
+ * @param {{ userRef?: unknown }} [listing] - The listing the action applies to, if any.
+ * @returns {Response | null} The error response to send back, or `null` if the action is allowed.
+ *
+ * @example
+ * const denied = checkListingPermission(user, "delete", listing);
+ * if (denied) return denied;
+ */
+export const checkListingPermission = (
+    user: SessionUser | null,
+    action: ListingAction,
+    listing?: { userRef?: unknown }
+): Response | null => {
+    if (canPerformListingAction(user, action, listing)) return null;
+    return deniedResponse(
+        user,
+        action === "history"
+            ? "You are not allowed to view the history of this listing."
+            : `You are not allowed to ${action} this listing.`
+    );
+};
+
+/**
+ * @function canPerformProjectAction
+ * @description Checks whether a user may perform an action on a project. Projects are shared by every agent, so there is
+ * no ownership check: agents can create and update any project, and only admins can delete one.
+ *
+ * @param {SessionUser | null} user - The signed-in user, or `null` for anonymous visitors.
+ * @param {ListingAction} action - The action to perform.
+ * @returns {boolean} `true` if the action is allowed.
+ */
+export const canPerformProjectAction = (user: SessionUser | null, action: ListingAction): boolean => {
+    if (action === "read") return true;
+    if (!user) return false;
+
+    switch (user.role) {
+        case "admin":
+            return true;
+        case "agent":
+            return action !== "delete";
+        default:
+            return false;
+    }
+};
+
+/**
+ * @function checkProjectPermission
+ * @description Reusable authorization check for the project route handlers, with the same 401/403 responses as
+ * `checkListingPermission`.
+ *
+ * @param {SessionUser | null} user - The signed-in user, or `null` for anonymous visitors.
+ * @param {ListingAction} action - The action to perform.
+ * @returns {Response | null} The error response to send back, or `null` if the action is allowed.
+ */
+export const checkProjectPermission = (user: SessionUser | null, action: ListingAction): Response | null => {
+    if (canPerformProjectAction(user, action)) return null;
+    return deniedResponse(user, `You are not allowed to ${action} this project.`);
+};
+
+/**
+ * @function deniedResponse
+ * @description Builds the error response for a denied action: 401 for anonymous visitors and 403 for signed-in users.
+ *
+ * @param {SessionUser | null} user - The signed-in user, or `null` for anonymous visitors.
+ * @param {string} message - The message sent to signed-in users.
+ * @returns {Response} The error response.
+ */
+const deniedResponse = (user: SessionUser | null, message: string): Response => {
+    if (!user) {
+        return new Response(
+            JSON.stringify({ success: false, message: "Authentication required. Please sign in." }),
+            { status: 401 }
+        );
+    }
+
+    return new Response(JSON.stringify({ success: false, message }), { status: 403 });
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { getSafeRedirect } from "@/lib/auth/redirect";
+
+describe("getSafeRedirect", () => {
+    it("follows paths on this site", () => {
+        expect(getSafeRedirect("/my-listings")).toBe("/my-listings");
+        expect(getSafeRedirect("/search?sell=true#results")).toBe("/search?sell=true#results");
+    });
+
+    it("falls back to the home page without a redirect", () => {
+        expect(getSafeRedirect(null)).toBe("/");
+        expect(getSafeRedirect("")).toBe("/");
+    });
+
+    it("rejects other sites", () => {
+        for (const value of [
+            "https://evil.com",
+            "//evil.com",
+            "/\\evil.com",
+            "/\t/evil.com",
+            "javascript:alert(1)",
+            "evil.com",
+        ]) {
+            expect(getSafeRedirect(value)).toBe("/");
+        }
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * @file Post sign-in redirect handling.
+ * @module redirect
+ * @description The sign-in and sign-up pages send the user back to the page they came from, taken from the `redirect`
+ * search parameter. Since anyone can craft that parameter, only paths on this site are followed; anything else (other
+ * sites, protocol-relative URLs such as `//evil.com` or `/\evil.com`, `javascript:` URLs) falls back to the home page.
+ */
+
+// Any fixed origin works: it is only used to tell whether the value stays on the same site
+const SAME_SITE_BASE = "http://localhost";
+
+/**
+ * @function getSafeRedirect
+ * @description Returns the path to go to after signing in or up.
+ *
+ * @param {string | null} value - The raw `redirect` search parameter.
+ * @returns {string} The path (with its query and hash) when it stays on this site, otherwise "/".
+ *
+ * @example
+ * getSafeRedirect("/my-listings?page=2"); // "/my-listings?page=2"
+ * getSafeRedirect("//evil.com"); // "/"
+ */
+export const getSafeRedirect = (value: string | null): string => {
+    if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) return "/";
+
+    // Resolve it the way the browser would (which also ignores tabs and newlines), and require the same origin
+    try {
+        const url = new URL(value, SAME_SITE_BASE);
+        return url.origin === SAME_SITE_BASE ? `${url.pathname}${url.search}${url.hash}` : "/";
+    } catch {
+        return "/";
+    }
+};
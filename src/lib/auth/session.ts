@@ -0,0 +1,146 @@
+/**
+ * @file Session management utilities.
+ * @module session
+ * @description This file creates, reads and destroys user sessions. The session token is sent to the browser in an
+ * HTTP-only cookie and only its SHA-256 hash is stored in MongoDB. It also provides `requireUser`, the server-side
+ * guard used by route handlers that need a signed-in user.
+ * 
+ * @requires crypto
+ * @requires next/headers
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import Session from "@/lib/modals/session.modal";
+import User from "@/lib/modals/user.modal";
+import { connect } from "@/lib/mongod/mongoose";
+import { Role } from "@/lib/auth/permissions";
+
+// Name of the session cookie
+export const SESSION_COOKIE = "session";
+
+// Sessions last 7 days
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * @interface SessionUser
+ * @description The public view of the signed-in user.
+ */
+export interface SessionUser {
+    id: string;
+    name: string;
+    email: string;
+    role: Role;
+}
+
+/**
+ * @function hashToken
+ * @description Hashes a session token for storage and lookup.
+ * 
+ * @param {string} token - The raw session token.
+ * @returns {string} The hex-encoded SHA-256 hash of the token.
+ */
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+/**
+ * @function createSession
+ * @description Creates a session for a user and sets the HTTP-only session cookie.
+ * Must be called from a route handler or server action.
+ * 
+ * @async
+ * @param {string} userId - The ID of the user to sign in.
+ * @returns {Promise<void>}
+ */
+export const createSession = async (userId: string): Promise<void> => {
+    await connect();
+
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+    await Session.create({ tokenHash: hashToken(token), userId, expiresAt });
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/",
+        expires: expiresAt,
+    });
+};
+
+/**
+ * @function destroySession
+ * @description Deletes the current session (if any) and clears the session cookie.
+ * Must be called from a route handler or server action.
+ * 
+ * @async
+ * @returns {Promise<void>}
+ */
+export const destroySession = async (): Promise<void> => {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+    if (token) {
+        await connect();
+        await Session.deleteOne({ tokenHash: hashToken(token) });
+    }
+
+    cookieStore.delete(SESSION_COOKIE);
+};
+
+/**
+ * @function getCurrentUser
+ * @description Resolves the signed-in user from the session cookie.
+ * Works in route handlers and server components.
+ * 
+ * @async
+ * @returns {Promise<SessionUser | null>} The signed-in user, or `null` if there is no valid session.
+ * 
+ * @example
+ * const user = await getCurrentUser();
+ * if (user) console.log(`Signed in as ${user.email}`);
+ */
+export const getCurrentUser = async (): Promise<SessionUser | null> => {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+
+    await connect();
+    const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+    if (!session) return null;
+
+    const user = await User.findById(session.userId);
+    if (!user) return null;
+
+    return { id: user._id.toString(), name: user.name, email: user.email, role: user.role };
+};
+
+/**
+ * @function requireUser
+ * @description Server-side guard for route handlers that need a signed-in user.
+ * Returns either the user or a ready-made 401 response to send back.
+ * 
+ * @async
+ * @returns {Promise<{ user: SessionUser; response: null } | { user: null; response: Response }>}
+ * 
+ * @example
+ * const { user, response } = await requireUser();
+ * if (!user) return response;
+ */
+export const requireUser = async (): Promise<
+    { user: SessionUser; response: null } | { user: null; response: Response }
+> => {
+    const user = await getCurrentUser();
+
+    if (!user) {
+        return {
+            user: null,
+            response: new Response(
+                JSON.stringify({ success: false, message: "Authentication required. Please sign in." }),
+                { status: 401 }
+            ),
+        };
+    }
+
+    return { user, response: null };
+};
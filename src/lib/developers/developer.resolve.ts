@@ -0,0 +1,33 @@
+/**
+ * @file Developer lookup for project forms.
+ * @module developerResolve
+ * @description Projects are entered with a free-text developer name. This file turns that name into a `Developer`
+ * document, creating it the first time the name is used, so "Palm Hills" and "palm hills " end up as the same developer.
+ */
+
+import Developer, { normalizeDeveloperName } from "@/lib/modals/developer.modal";
+
+/**
+ * @function resolveDeveloper
+ * @description Finds the developer with the given name, creating it when it does not exist yet.
+ *
+ * @async
+ * @param {string} name - The developer name entered in the project form.
+ * @returns {Promise<{ _id: unknown; name: string } | null>} The developer, or `null` when the name is empty.
+ *
+ * @example
+ * const developer = await resolveDeveloper("Palm Hills");
+ * await Project.create({ ...data, developerRef: developer?._id, developer: developer?.name ?? "" });
+ */
+export const resolveDeveloper = async (name: string): Promise<{ _id: unknown; name: string } | null> => {
+    const trimmed = name.trim().replace(/\s+/g, " ");
+    if (!trimmed) return null;
+
+    // Upsert on the normalized name, so concurrent requests cannot create the same developer twice
+    const normalizedName = normalizeDeveloperName(trimmed);
+    return Developer.findOneAndUpdate(
+        { normalizedName },
+        { $setOnInsert: { name: trimmed, normalizedName } },
+        { upsert: true, new: true }
+    );
+};
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { searchListings } from "@/lib/listings/listing.search";
+import { clearTestDatabase, createListings, startTestDatabase, stopTestDatabase } from "@/test/database";
+
+/**
+ * @function pageThrough
+ * @description Follows the cursors of a search from the first page to the last.
+ *
+ * @param {string} sort - The sort key of the search.
+ * @returns {Promise<string[]>} The unit names of every listing returned, in the order they were returned.
+ */
+const pageThrough = async (sort: string): Promise<string[]> => {
+    const units: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const res = await searchListings({ sort, limit: 2, ...(cursor && { cursor }) });
+        expect(res.status).toBe(200);
+        const page = (await res.json()) as { items: { unitName: string }[]; nextCursor: string | null };
+        units.push(...page.items.map((item) => item.unitName));
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    return units;
+};
+
+beforeAll(startTestDatabase);
+afterAll(stopTestDatabase);
+beforeEach(clearTestDatabase);
+
+describe("listing cursors", () => {
+    let small: string, large: string, tiedA: string, tiedB: string, noAreaA: string, noAreaB: string;
+
+    beforeEach(async () => {
+        // Two listings without an area, and two sharing the same area, so pages end on ties and missing values
+        [noAreaA, small, tiedA, noAreaB, tiedB, large] = await createListings([
+            {},
+            { area: 50, pricePerSqm: 20_000 },
+            { area: 100, pricePerSqm: 10_000 },
+            {},
+            { area: 100, pricePerSqm: 10_000 },
+            { area: 200, pricePerSqm: 5_000 },
+        ]);
+    });
+
+    it("returns the listings without an area after the others when sorting by area descending", async () => {
+        const units = await pageThrough("area_desc");
+        expect(units).toHaveLength(6);
+        expect(units.slice(0, 4)).toEqual([large, tiedB, tiedA, small]);
+        expect(units.slice(4).sort()).toEqual([noAreaA, noAreaB].sort());
+    });
+
+    it("returns the listings without an area before the others when sorting by area ascending", async () => {
+        const units = await pageThrough("area_asc");
+        expect(units).toHaveLength(6);
+        expect(units.slice(0, 2).sort()).toEqual([noAreaA, noAreaB].sort());
+        expect(units.slice(2)).toEqual([small, tiedA, tiedB, large]);
+    });
+
+    it("returns the listings without a price per m² when sorting by price per m² descending", async () => {
+        const units = await pageThrough("price_per_sqm_desc");
+        expect(new Set(units).size).toBe(6);
+        expect(units.slice(0, 4)).toEqual([small, tiedB, tiedA, large]);
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * @file Listing search cursors.
+ * @module listingCursor
+ * @description This file implements the keyset cursors used to page through `/api/listing/get`. A cursor records the
+ * sort key and the sort values of the last listing of a page; the next page starts right after that listing in the
+ * sort order. Unlike `startIndex` offsets, cursors do not skip or repeat listings when listings are added or removed
+ * between two pages, and do not get slower on later pages.
+ *
+ * Every sort ends with `_id`, so no two listings share the same position and the order is stable.
+ */
+
+import { isValidObjectId, Types } from "mongoose";
+import { ListingFilter } from "@/lib/filters/listing.filters";
+import { isListingSortKey, ListingSortKey, ListingSortSpec } from "@/lib/filters/listing.sort";
+
+/**
+ * @interface EncodedCursor
+ * @description The JSON payload of a cursor: the sort key it was made for and the sort values of the last listing.
+ * Dates and ObjectIds are tagged so they can be restored before being compared in MongoDB.
+ */
+interface EncodedCursor {
+    sort: ListingSortKey;
+    values: unknown[];
+}
+
+/**
+ * @function encodeValue
+ * @description Tags the values that JSON cannot represent (dates and ObjectIds).
+ *
+ * @param {unknown} value - A sort value.
+ * @returns {unknown} The JSON-safe value.
+ */
+const encodeValue = (value: unknown): unknown => {
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (value instanceof Types.ObjectId) return { $oid: value.toHexString() };
+    return value ?? null;
+};
+
+/**
+ * @function decodeValue
+ * @description Restores a value tagged by `encodeValue`.
+ *
+ * @param {unknown} value - A JSON-safe sort value.
+ * @returns {unknown} The sort value, or `undefined` when the tag is invalid.
+ */
+const decodeValue = (value: unknown): unknown => {
+    if (value && typeof value === "object") {
+        const tagged = value as { $date?: unknown; $oid?: unknown };
+        if (typeof tagged.$date === "string") {
+            const date = new Date(tagged.$date);
+            return isNaN(date.getTime()) ? undefined : date;
+        }
+        if (typeof tagged.$oid === "string" && isValidObjectId(tagged.$oid)) return new Types.ObjectId(tagged.$oid);
+        return undefined;
+    }
+    return value;
+};
+
+/**
+ * @function encodeListingCursor
+ * @description Builds the cursor pointing right after a listing.
+ *
+ * @param {ListingSortKey} sortKey - The sort key of the search.
+ * @param {ListingSortSpec} sortSpec - The sort specification of the search.
+ * @param {Record<string, unknown>} listing - The last listing of the page (with its sort fields).
+ * @returns {string} The opaque cursor (URL-safe base64).
+ */
+export const encodeListingCursor = (
+    sortKey: ListingSortKey,
+    sortSpec: ListingSortSpec,
+    listing: Record<string, unknown>
+): string => {
+    const payload: EncodedCursor = {
+        sort: sortKey,
+        values: Object.keys(sortSpec).map((field) => encodeValue(listing[field])),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+/**
+ * @function decodeListingCursor
+ * @description Reads a cursor sent back by the client. Cursors are only valid for the sort they were made for.
+ *
+ * @param {unknown} cursor - The raw cursor.
+ * @param {ListingSortKey} sortKey - The sort key of the search.
+ * @param {ListingSortSpec} sortSpec - The sort specification of the search.
+ * @returns {unknown[] | null} The sort values of the last listing, or `null` when the cursor is invalid.
+ */
+export const decodeListingCursor = (
+    cursor: unknown,
+    sortKey: ListingSortKey,
+    sortSpec: ListingSortSpec
+): unknown[] | null => {
+    if (typeof cursor !== "string" || !cursor) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as EncodedCursor;
+        if (!isListingSortKey(payload.sort) || payload.sort !== sortKey) return null;
+        if (!Array.isArray(payload.values) || payload.values.length !== Object.keys(sortSpec).length) return null;
+
+        const values = payload.values.map(decodeValue);
+        return values.includes(undefined) ? null : values;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * @function buildCursorClause
+ * @description Builds the clause selecting the listings that come after the cursor in the sort order: a listing
+ * comes after it when its first differing sort value is past the cursor's, in the direction of that field. Missing
+ * values (e.g. the area of a listing without one) sort before every other value, as in MongoDB, so in a descending
+ * sort they come after every cursor value that is not missing.
+ *
+ * @param {ListingSortSpec} sortSpec - The sort specification of the search.
+ * @param {unknown[]} values - The sort values of the cursor, in the order of the specification.
+ * @returns {ListingFilter} The clause to add to the search filter.
+ *
+ * @example
+ * buildCursorClause({ basePrice: 1, _id: 1 }, [2000, id]);
+ * // { $or: [{ basePrice: { $gt: 2000 } }, { basePrice: 2000, _id: { $gt: id } }] }
+ *
+ * buildCursorClause({ area: -1, _id: -1 }, [120, id]);
+ * // { $or: [{ $or: [{ area: { $lt: 120 } }, { area: null }] }, { area: 120, _id: { $lt: id } }] }
+ */
+export const buildCursorClause = (sortSpec: ListingSortSpec, values: unknown[]): ListingFilter => {
+    const fields = Object.entries(sortSpec);
+
+    /**
+     * @function buildPastClause
+     * @description Builds the condition on a sort field for listings past the cursor value of that field.
+     *
+     * @param {string} field - The sort field.
+     * @param {number} direction - The sort direction of the field.
+     * @param {unknown} value - The cursor value of the field.
+     * @returns {ListingFilter} The condition.
+     */
+    const buildPastClause = (field: string, direction: number, value: unknown): ListingFilter => {
+        // Every value is past a missing one going up; nothing is past it going down
+        if (value === null) return { [field]: direction === 1 ? { $ne: null } : { $in: [] } };
+        if (direction === 1) return { [field]: { $gt: value } };
+
+        // Going down, the missing values come last, after every lower value
+        return { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+    };
+
+    return {
+        $or: fields.map(([field, direction], index) => ({
+            // Every earlier sort field is tied with the cursor...
+            ...Object.fromEntries(fields.slice(0, index).map(([tiedField], tiedIndex) => [tiedField, values[tiedIndex]])),
+            // ...and this one is past it
+            ...buildPastClause(field, direction, values[index]),
+        })),
+    };
+};
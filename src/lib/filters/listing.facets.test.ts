@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import ExchangeRate from "@/lib/modals/exchangeRate.modal";
+import { searchListings } from "@/lib/listings/listing.search";
+import { ListingFacets } from "@/lib/filters/listing.facets";
+import { clearTestDatabase, createListings, startTestDatabase, stopTestDatabase } from "@/test/database";
+
+beforeAll(startTestDatabase);
+afterAll(stopTestDatabase);
+beforeEach(clearTestDatabase);
+
+describe("price buckets in another currency", () => {
+    beforeEach(async () => {
+        await ExchangeRate.create({ currency: "USD", rate: 48.5 });
+
+        // Prices on and around the bucket edges (10,000 EGP is about 206 USD, that is 9,991 EGP)
+        await createListings(
+            [0, 9_990, 9_991, 9_999, 10_000, 49_999, 50_000, 999_999, 1_000_000, 20_000_000].map((price) => ({
+                regularPrice: price,
+                basePrice: price,
+            }))
+        );
+    });
+
+    it("counts every listing in exactly one bucket", async () => {
+        const res = await searchListings({ facets: true, currency: "USD" });
+        const facets = (await res.json()) as ListingFacets;
+
+        expect(facets.price.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(facets.total);
+        facets.price.slice(1).forEach((bucket, index) => expect(bucket.min).toBe((facets.price[index].max ?? 0) + 1));
+    });
+
+    it("finds the listings a bucket counted when searching its bounds", async () => {
+        const res = await searchListings({ facets: true, currency: "USD" });
+        const facets = (await res.json()) as ListingFacets;
+
+        for (const bucket of facets.price) {
+            const search = await searchListings({
+                currency: "USD",
+                minPrice: bucket.min,
+                ...(bucket.max !== null && { maxPrice: bucket.max }),
+                limit: 100,
+            });
+            expect(((await search.json()) as { total: number }).total).toBe(bucket.count);
+        }
+    });
+});
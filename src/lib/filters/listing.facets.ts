@@ -0,0 +1,334 @@
+/**
+ * @file Listing search facet counts.
+ * @module listingFacets
+ * @description This file computes the facet counts returned by `/api/listing/get` in facets mode: how many listings
+ * match each listing type, amenity flag, bed and bath count, unit type, finishing level, delivery status, project and price
+ * bucket.
+ *
+ * Every facet is counted against the current filter, except for the facet's own selection: the `furnished` counts
+ * ignore the `furnished` flag, the bed counts ignore the bed range, and so on. This way, checking "Furnished" does not
+ * turn the count of unfurnished listings into zero, and the sidebar can still tell how many results the other options
+ * would give.
+ */
+
+import { PipelineStage } from "mongoose";
+import { buildListingFilter, ListingQuery } from "@/lib/filters/listing.filters";
+
+/**
+ * @constant FLAG_FACETS
+ * @description The boolean listing fields counted as facets.
+ */
+export const FLAG_FACETS = ["sell", "rent", "parkingSpot", "furnished", "offer"] as const;
+
+/**
+ * @constant CHOICE_FACETS
+ * @description The unit attributes holding one of fixed values, counted per value.
+ */
+export const CHOICE_FACETS = ["unitType", "finishing", "deliveryStatus"] as const;
+
+/**
+ * @constant PRICE_BUCKET_BOUNDARIES
+ * @description The lower bounds of the price buckets, in EGP (the base price of the listings). The last bucket has no
+ * upper bound.
+ */
+export const PRICE_BUCKET_BOUNDARIES = [0, 10_000, 50_000, 1_000_000, 2_500_000, 5_000_000, 10_000_000];
+
+/**
+ * @function getPriceBucketEdges
+ * @description Rounds each bucket boundary once, to a whole price in the currency of the search, and converts that price
+ * back to EGP the way the search converts `minPrice`. The listings are bucketed on these EGP edges, and both buckets
+ * next to an edge take their bound from it, so the buckets stay half-open ranges that never overlap.
+ *
+ * @param {number} rate - EGP per unit of the currency of the search.
+ * @returns {{ bound: number; base: number }[]} Each edge in the currency of the search (`bound`) and in EGP (`base`).
+ *
+ * @example
+ * getPriceBucketEdges(48.5)[1]; // { bound: 206, base: 9991 }
+ */
+const getPriceBucketEdges = (rate: number): { bound: number; base: number }[] =>
+    PRICE_BUCKET_BOUNDARIES.map((boundary) => {
+        const bound = Math.round(boundary / rate);
+        return { bound, base: Math.round(bound * rate) };
+    });
+
+/**
+ * @constant MAX_PROJECT_FACETS
+ * @description The number of projects counted in the `projectName` facet (the ones with the most matches). It matches
+ * the number of projects offered by the search sidebar, so every option there gets its count.
+ */
+const MAX_PROJECT_FACETS = 500;
+
+/**
+ * @typedef {"sell" | "rent" | "parkingSpot" | "furnished" | "offer" | "beds" | "baths" | "unitType" | "finishing" | "deliveryStatus" | "projectName" | "price"} FacetName
+ * @description The name of a facet.
+ */
+type FacetName =
+    | (typeof FLAG_FACETS)[number]
+    | (typeof CHOICE_FACETS)[number]
+    | "beds"
+    | "baths"
+    | "projectName"
+    | "price";
+
+/**
+ * @constant FACET_OWN_KEYS
+ * @description The search criteria that select values of each facet, and are therefore ignored when counting it.
+ * `sell` and `rent` share one clause ("for sale or for rent"), so both are ignored by both facets.
+ */
+const FACET_OWN_KEYS: Record<FacetName, (keyof ListingQuery)[]> = {
+    sell: ["sell", "rent"],
+    rent: ["sell", "rent"],
+    parkingSpot: ["parkingSpot"],
+    furnished: ["furnished"],
+    offer: ["offer"],
+    beds: ["minBeds", "maxBeds"],
+    baths: ["minBaths", "maxBaths"],
+    unitType: ["unitType"],
+    finishing: ["finishing"],
+    deliveryStatus: ["deliveryStatus"],
+    projectName: ["projectId"],
+    price: ["minPrice", "maxPrice"],
+};
+
+/**
+ * @constant FACETED_KEYS
+ * @description Every search criterion that belongs to a facet. The remaining criteria (search term, owner, developer,
+ * location, area, floor, price per m², rental filters) apply to every facet alike.
+ */
+const FACETED_KEYS = Array.from(new Set(Object.values(FACET_OWN_KEYS).flat()));
+
+/**
+ * @function activeOfferExpression
+ * @description Builds the aggregation expression telling whether a listing's offer is running, so the `offer` facet
+ * counts the same listings as the `offer` filter (see `buildActiveOfferClause`).
+ *
+ * @param {Date} now - The moment to check.
+ * @returns {Record<string, unknown>} The boolean expression.
+ */
+const activeOfferExpression = (now: Date): Record<string, unknown> => ({
+    $and: [
+        { $eq: ["$offer", true] },
+        { $lte: [{ $ifNull: ["$offerStartsAt", now] }, now] }, // No start date: the offer runs right away
+        { $or: [{ $eq: [{ $ifNull: ["$offerEndsAt", null] }, null] }, { $gt: ["$offerEndsAt", now] }] }, // No expiry date
+    ],
+});
+
+/**
+ * @interface FlagCounts
+ * @description The number of listings with a flag set and not set.
+ */
+export interface FlagCounts {
+    true: number;
+    false: number;
+}
+
+/**
+ * @interface ValueCount
+ * @description The number of listings with a given value (e.g. a bed count).
+ */
+export interface ValueCount {
+    value: number;
+    count: number;
+}
+
+/**
+ * @interface OptionCount
+ * @description The number of listings with a given choice (e.g. a unit type).
+ */
+export interface OptionCount {
+    value: string;
+    count: number;
+}
+
+/**
+ * @interface ProjectCount
+ * @description The number of listings in a project.
+ */
+export interface ProjectCount {
+    projectId: string;
+    projectName: string;
+    count: number;
+}
+
+/**
+ * @interface PriceBucketCount
+ * @description The number of listings in a price bucket. Both bounds are inclusive, like `minPrice` and `maxPrice`;
+ * `max` is `null` for the last bucket.
+ */
+export interface PriceBucketCount {
+    min: number;
+    max: number | null;
+    count: number;
+}
+
+/**
+ * @interface ListingFacets
+ * @description The facet counts of a listing search. `total` is the number of listings matching the whole filter.
+ */
+export interface ListingFacets
+    extends Record<(typeof FLAG_FACETS)[number], FlagCounts>,
+        Record<(typeof CHOICE_FACETS)[number], OptionCount[]> {
+    total: number;
+    beds: ValueCount[];
+    baths: ValueCount[];
+    projectName: ProjectCount[];
+    price: PriceBucketCount[];
+}
+
+/**
+ * @function omitKeys
+ * @description Copies search criteria without some keys.
+ *
+ * @param {ListingQuery} query - The search criteria.
+ * @param {(keyof ListingQuery)[]} keys - The keys to leave out.
+ * @returns {ListingQuery} The remaining criteria.
+ */
+const omitKeys = (query: ListingQuery, keys: (keyof ListingQuery)[]): ListingQuery => {
+    const copy = { ...query };
+    keys.forEach((key) => delete copy[key]);
+    return copy;
+};
+
+/**
+ * @function pickKeys
+ * @description Copies only some keys of search criteria.
+ *
+ * @param {ListingQuery} query - The search criteria.
+ * @param {(keyof ListingQuery)[]} keys - The keys to keep.
+ * @returns {ListingQuery} The selected criteria.
+ */
+const pickKeys = (query: ListingQuery, keys: (keyof ListingQuery)[]): ListingQuery =>
+    Object.fromEntries(keys.filter((key) => key in query).map((key) => [key, query[key]]));
+
+/**
+ * @function buildFacetPipeline
+ * @description Builds the aggregation computing every facet in one query. The criteria shared by all facets are
+ * matched first (a text search can only run in the first stage), then each facet matches the faceted criteria except
+ * its own and groups the remaining listings.
+ *
+ * @param {ListingQuery} query - The search criteria.
+ * @param {number} [rate=1] - EGP per unit of the currency of the search, which the price buckets are rounded in.
+ * @returns {PipelineStage[]} The aggregation pipeline; it produces a single document for `normalizeFacets`.
+ */
+export const buildFacetPipeline = (query: ListingQuery, rate = 1): PipelineStage[] => {
+    const facetedQuery = pickKeys(query, FACETED_KEYS);
+    const matchWithout = (facet: FacetName): PipelineStage.FacetPipelineStage => ({
+        $match: buildListingFilter(omitKeys(facetedQuery, FACET_OWN_KEYS[facet])),
+    });
+
+    const now = new Date();
+    const flagFacets = Object.fromEntries(
+        FLAG_FACETS.map((field) => [
+            field,
+            [
+                matchWithout(field),
+                {
+                    $group: {
+                        // Offers only count while they run, like the `offer` filter
+                        _id: field === "offer" ? activeOfferExpression(now) : { $eq: [`$${field}`, true] },
+                        count: { $sum: 1 },
+                    },
+                },
+            ],
+        ])
+    );
+
+    const choiceFacets = Object.fromEntries(
+        CHOICE_FACETS.map((field) => [
+            field,
+            [
+                matchWithout(field),
+                { $match: { [field]: { $ne: null } } }, // Listings without the attribute have no option to count
+                { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+                { $sort: { count: -1, _id: 1 } },
+            ],
+        ])
+    );
+
+    return [
+        { $match: buildListingFilter(omitKeys(query, FACETED_KEYS)) },
+        {
+            $facet: {
+                total: [{ $match: buildListingFilter(facetedQuery) }, { $count: "count" }],
+                ...flagFacets,
+                ...choiceFacets,
+                beds: [matchWithout("beds"), { $group: { _id: "$beds", count: { $sum: 1 } } }, { $sort: { _id: 1 } }],
+                baths: [matchWithout("baths"), { $group: { _id: "$baths", count: { $sum: 1 } } }, { $sort: { _id: 1 } }],
+                projectName: [
+                    matchWithout("projectName"),
+                    { $match: { projectRef: { $ne: null } } }, // Listings not yet moved into a project have nothing to filter on
+                    { $group: { _id: "$projectRef", projectName: { $first: "$projectName" }, count: { $sum: 1 } } },
+                    { $sort: { count: -1, projectName: 1 } },
+                    { $limit: MAX_PROJECT_FACETS },
+                ],
+                price: [
+                    matchWithout("price"),
+                    {
+                        $bucket: {
+                            groupBy: "$basePrice",
+                            boundaries: [...getPriceBucketEdges(rate).map(({ base }) => base), Number.MAX_SAFE_INTEGER],
+                            default: "other", // Negative or missing prices
+                            output: { count: { $sum: 1 } },
+                        },
+                    },
+                ],
+            },
+        },
+    ];
+};
+
+/**
+ * @function normalizeFacets
+ * @description Turns the raw output of `buildFacetPipeline` into the facet counts sent to the client. Every flag and
+ * price bucket is listed, with zero counts when nothing matches. Price bucket bounds are converted from EGP to the
+ * currency of the search.
+ *
+ * @param {Record<string, { _id: unknown; count: number; projectName?: string }[]> | undefined} raw - The aggregation result.
+ * @param {number} [rate=1] - EGP per unit of the currency of the search.
+ * @returns {ListingFacets} The facet counts.
+ */
+export const normalizeFacets = (
+    raw: Record<string, { _id: unknown; count: number; projectName?: string }[]> | undefined,
+    rate = 1
+): ListingFacets => {
+    const groups = (name: string) => raw?.[name] ?? [];
+    const edges = getPriceBucketEdges(rate); // The same edges the price buckets were counted on
+    const countOf = (name: string, id: unknown) => groups(name).find((group) => group._id === id)?.count ?? 0;
+
+    const flags = Object.fromEntries(
+        FLAG_FACETS.map((field) => [field, { true: countOf(field, true), false: countOf(field, false) }])
+    ) as Record<(typeof FLAG_FACETS)[number], FlagCounts>;
+
+    const choices = Object.fromEntries(
+        CHOICE_FACETS.map((field) => [
+            field,
+            groups(field)
+                .filter((group) => typeof group._id === "string")
+                .map((group) => ({ value: group._id as string, count: group.count })),
+        ])
+    ) as Record<(typeof CHOICE_FACETS)[number], OptionCount[]>;
+
+    const values = (name: string): ValueCount[] =>
+        groups(name)
+            .filter((group) => typeof group._id === "number")
+            .map((group) => ({ value: group._id as number, count: group.count }));
+
+    return {
+        total: groups("total")[0]?.count ?? 0,
+        ...flags,
+        ...choices,
+        beds: values("beds"),
+        baths: values("baths"),
+        projectName: groups("projectName").map((group) => ({
+            projectId: String(group._id),
+            projectName: group.projectName ?? "",
+            count: group.count,
+        })),
+        // Buckets are [edge, next edge); prices are whole units, so the inclusive upper bound is one below the next edge
+        price: edges.map(({ bound, base }, index) => ({
+            min: bound,
+            max: index + 1 < edges.length ? edges[index + 1].bound - 1 : null,
+            count: countOf("price", base),
+        })),
+    };
+};
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import Listing from "@/lib/modals/listing.modal";
+import { buildListingFilter, ListingQuery } from "@/lib/filters/listing.filters";
+import { clearTestDatabase, createListings, startTestDatabase, stopTestDatabase } from "@/test/database";
+
+/**
+ * @function findUnits
+ * @description Runs the filter built for search criteria against the test database.
+ *
+ * @param {ListingQuery} query - The search criteria.
+ * @returns {Promise<string[]>} The unit names of the matching listings, sorted.
+ */
+const findUnits = async (query: ListingQuery): Promise<string[]> => {
+    const listings = await Listing.find(buildListingFilter(query)).lean<{ unitName: string }[]>();
+    return listings.map((listing) => listing.unitName).sort();
+};
+
+beforeAll(startTestDatabase);
+afterAll(stopTestDatabase);
+beforeEach(clearTestDatabase);
+
+describe("buildListingFilter: listing type", () => {
+    let saleOnly: string, rentOnly: string, saleAndRent: string;
+
+    beforeEach(async () => {
+        [saleOnly, rentOnly, saleAndRent] = await createListings([
+            { sell: true, rent: false },
+            { sell: false, rent: true },
+            { sell: true, rent: true },
+        ]);
+    });
+
+    it("matches listings for sale or for rent when both boxes are checked", async () => {
+        expect(await findUnits({ sell: true, rent: true })).toEqual([saleOnly, rentOnly, saleAndRent].sort());
+    });
+
+    it("keeps listings that are also for rent when only sell is checked", async () => {
+        // The sidebar sends an unchecked box as "don't care", never as false
+        expect(await findUnits({ sell: true, rent: undefined })).toEqual([saleOnly, saleAndRent].sort());
+        expect(await findUnits({ sell: "true", rent: "" })).toEqual([saleOnly, saleAndRent].sort());
+    });
+
+    it("keeps listings that are also for sale when only rent is checked", async () => {
+        expect(await findUnits({ rent: true })).toEqual([rentOnly, saleAndRent].sort());
+    });
+
+    it("excludes a listing type explicitly set to false", async () => {
+        expect(await findUnits({ sell: false })).toEqual([rentOnly]);
+        expect(await findUnits({ sell: true, rent: "false" })).toEqual([saleOnly]);
+    });
+
+    it("ignores the listing type when neither flag is set", async () => {
+        expect(await findUnits({})).toEqual([saleOnly, rentOnly, saleAndRent].sort());
+        expect(await findUnits({ sell: "any", rent: "any" })).toEqual([saleOnly, rentOnly, saleAndRent].sort());
+    });
+});
+
+describe.each(["parkingSpot", "furnished"] as const)("buildListingFilter: %s flag", (field) => {
+    let withFlag: string, withoutFlag: string;
+
+    beforeEach(async () => {
+        [withFlag, withoutFlag] = await createListings([{ [field]: true }, { [field]: false }]);
+    });
+
+    it("requires the flag when true", async () => {
+        expect(await findUnits({ [field]: true })).toEqual([withFlag]);
+        expect(await findUnits({ [field]: "true" })).toEqual([withFlag]);
+    });
+
+    it("excludes the flag when false", async () => {
+        expect(await findUnits({ [field]: false })).toEqual([withoutFlag]);
+        expect(await findUnits({ [field]: "false" })).toEqual([withoutFlag]);
+    });
+
+    it("ignores the flag when it is not set", async () => {
+        for (const value of [undefined, "", "any"]) {
+            expect(await findUnits({ [field]: value })).toEqual([withFlag, withoutFlag].sort());
+        }
+    });
+});
+
+describe("buildListingFilter: offer flag", () => {
+    let running: string, expired: string, upcoming: string, noOffer: string;
+
+    beforeEach(async () => {
+        const day = 24 * 60 * 60 * 1000;
+        [running, expired, upcoming, noOffer] = await createListings([
+            { offer: true, discountPrice: 900_000, offerEndsAt: new Date(Date.now() + day) },
+            { offer: true, discountPrice: 900_000, offerEndsAt: new Date(Date.now() - day) },
+            { offer: true, discountPrice: 900_000, offerStartsAt: new Date(Date.now() + day) },
+            { offer: false },
+        ]);
+    });
+
+    it("only matches running offers when true", async () => {
+        expect(await findUnits({ offer: true })).toEqual([running]);
+    });
+
+    it("treats expired and upcoming offers as no offer when false", async () => {
+        expect(await findUnits({ offer: "false" })).toEqual([expired, upcoming, noOffer].sort());
+    });
+
+    it("ignores offers when the flag is not set", async () => {
+        expect(await findUnits({ offer: "any" })).toEqual([running, expired, upcoming, noOffer].sort());
+    });
+});
@@ -0,0 +1,490 @@
+/**
+ * @file Listing search filter engine.
+ * @module listingFilters
+ * @description This file turns the search criteria sent to `/api/listing/get` into a MongoDB filter.
+ * It supports the listing flags, inclusive min/max ranges on price, beds, baths, area, floor and price per m², the unit
+ * type, finishing level and delivery status (one or several of each), a free-text search term (backed by
+ * the text index for multi-word queries), and
+ * geographic queries on the listing location (within a radius of a point, or within map bounds).
+ * Boolean flags are handled as tri-state values (true, false, don't care) so that an unchecked box in the
+ * search sidebar never silently excludes listings. The `offer` flag only matches offers that are currently running, so
+ * expired offers drop out of offer searches by themselves. The rental filters (maximum monthly rent, available from)
+ * only match listings for rent. Price bounds (including the price per m²) are compared with the base price (EGP) of each
+ * listing, so they must be given in EGP: `searchListings` converts bounds sent in another currency first. Listings
+ * without a unit attribute never match a filter on it.
+ *
+ * @requires mongoose
+ */
+
+import { FilterQuery, isValidObjectId, Types } from "mongoose";
+import { RENT_PERIOD_MONTHS } from "@/lib/pricing/rental.terms";
+import { DELIVERY_STATUSES, FINISHING_LEVELS, UNIT_TYPES } from "@/lib/listings/unit.attributes";
+
+/**
+ * @typedef {boolean | undefined} TriState
+ * @description A filter flag that can be required (`true`), excluded (`false`) or ignored (`undefined`).
+ */
+export type TriState = boolean | undefined;
+
+/**
+ * @typedef {FilterQuery<Record<string, unknown>>} ListingFilter
+ * @description A MongoDB filter applied to the `Listing` collection.
+ */
+export type ListingFilter = FilterQuery<Record<string, unknown>>;
+
+/**
+ * @interface ListingQuery
+ * @description The search criteria accepted by `/api/listing/get`. Values may arrive as JSON primitives
+ * or as strings (e.g. when they come from URL search parameters).
+ */
+export interface ListingQuery {
+    userId?: string;
+    listingId?: string;
+    projectId?: string;
+    developerId?: string;
+    searchTerm?: string;
+    sell?: unknown;
+    rent?: unknown;
+    parkingSpot?: unknown;
+    furnished?: unknown;
+    offer?: unknown;
+    minPrice?: unknown;
+    maxPrice?: unknown;
+    minBeds?: unknown;
+    maxBeds?: unknown;
+    minBaths?: unknown;
+    maxBaths?: unknown;
+    minArea?: unknown;
+    maxArea?: unknown;
+    minFloor?: unknown;
+    maxFloor?: unknown;
+    minPricePerSqm?: unknown;
+    maxPricePerSqm?: unknown;
+    unitType?: unknown; // One value, a list, or comma-separated values
+    finishing?: unknown;
+    deliveryStatus?: unknown;
+    maxMonthlyRent?: unknown;
+    availableFrom?: unknown;
+    currency?: unknown; // The currency of the price bounds
+    lat?: unknown;
+    lng?: unknown;
+    radiusKm?: unknown;
+    north?: unknown;
+    south?: unknown;
+    east?: unknown;
+    west?: unknown;
+}
+
+/**
+ * @constant RANGE_FIELDS
+ * @description The numeric listing fields that can be filtered by range, mapped to their min/max query keys.
+ */
+const RANGE_FIELDS = [
+    { field: "basePrice", min: "minPrice", max: "maxPrice" }, // The price in EGP, whatever the listing's currency
+    { field: "beds", min: "minBeds", max: "maxBeds" },
+    { field: "baths", min: "minBaths", max: "maxBaths" },
+    { field: "area", min: "minArea", max: "maxArea" }, // In m²
+    { field: "floor", min: "minFloor", max: "maxFloor" },
+    { field: "pricePerSqm", min: "minPricePerSqm", max: "maxPricePerSqm" }, // In EGP per m²
+] as const;
+
+/**
+ * @constant CHOICE_FIELDS
+ * @description The listing fields holding one of fixed values, filtered by one or several accepted values.
+ */
+const CHOICE_FIELDS = {
+    unitType: Object.keys(UNIT_TYPES),
+    finishing: Object.keys(FINISHING_LEVELS),
+    deliveryStatus: Object.keys(DELIVERY_STATUSES),
+} as const;
+
+/**
+ * @constant SEARCHABLE_FIELDS
+ * @description The text fields matched by the search term, in the same order as the text index weights.
+ */
+export const SEARCHABLE_FIELDS = ["projectName", "unitName", "address", "description"] as const;
+
+/**
+ * @constant EARTH_RADIUS_KM
+ * @description The mean radius of the Earth, used to convert a search radius in kilometres to radians.
+ */
+const EARTH_RADIUS_KM = 6378.1;
+
+/**
+ * @constant MAX_RADIUS_KM
+ * @description The largest accepted search radius, in kilometres.
+ */
+const MAX_RADIUS_KM = 500;
+
+/**
+ * @function parseTriState
+ * @description Parses a raw flag value into a tri-state value.
+ * Accepts booleans and the strings "true"/"false"; anything else (including "any" or an empty string) means "don't care".
+ *
+ * @param {unknown} value - The raw flag value.
+ * @returns {TriState} `true`, `false` or `undefined` when the flag should be ignored.
+ *
+ * @example
+ * parseTriState("true"); // true
+ * parseTriState(false); // false
+ * parseTriState("any"); // undefined
+ */
+export const parseTriState = (value: unknown): TriState => {
+    if (value === true || value === "true") return true;
+    if (value === false || value === "false") return false;
+    return undefined;
+};
+
+/**
+ * @function parseNumber
+ * @description Parses a raw range bound into a number.
+ * Empty strings, `null` and values that are not finite numbers are treated as "no bound".
+ *
+ * @param {unknown} value - The raw bound value.
+ * @returns {number | undefined} The parsed number, or `undefined` when there is no bound.
+ *
+ * @example
+ * parseNumber("3"); // 3
+ * parseNumber(""); // undefined
+ */
+export const parseNumber = (value: unknown): number | undefined => {
+    if (value === null || value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * @function parseDate
+ * @description Parses a raw date value (e.g. "2025-06-01" from a date input).
+ * Empty values and strings that are not dates are treated as "no date".
+ *
+ * @param {unknown} value - The raw date value.
+ * @returns {Date | undefined} The parsed date, or `undefined` when there is no valid date.
+ *
+ * @example
+ * parseDate("2025-06-01"); // 2025-06-01T00:00:00.000Z
+ * parseDate("soon"); // undefined
+ */
+export const parseDate = (value: unknown): Date | undefined => {
+    if (typeof value !== "string" && !(value instanceof Date)) return undefined;
+    if (value === "") return undefined;
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+/**
+ * @function parseChoices
+ * @description Parses the accepted values of a choice filter. Accepts a single value, a list, or comma-separated values;
+ * unknown values are ignored.
+ *
+ * @param {unknown} value - The raw filter value.
+ * @param {readonly string[]} allowed - The values the field can hold.
+ * @returns {string[]} The accepted values (empty when the field is not filtered).
+ *
+ * @example
+ * parseChoices("villa,townhouse", ["apartment", "villa", "townhouse"]); // ["villa", "townhouse"]
+ * parseChoices("castle", ["apartment", "villa"]); // []
+ */
+export const parseChoices = (value: unknown, allowed: readonly string[]): string[] => {
+    const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+    return Array.from(new Set(values.map((item) => String(item).trim()).filter((item) => allowed.includes(item))));
+};
+
+/**
+ * @function escapeRegex
+ * @description Escapes regex metacharacters so a user-supplied term is matched literally.
+ *
+ * @param {string} term - The raw term.
+ * @returns {string} The escaped term, safe to use inside a regular expression.
+ */
+export const escapeRegex = (term: string): string => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * @function buildRangeClause
+ * @description Builds an inclusive `$gte`/`$lte` clause for a numeric field.
+ *
+ * @param {string} field - The listing field to constrain.
+ * @param {number | undefined} min - The inclusive lower bound, if any.
+ * @param {number | undefined} max - The inclusive upper bound, if any.
+ * @returns {ListingFilter | null} The clause to apply, or `null` when neither bound is set.
+ */
+const buildRangeClause = (field: string, min: number | undefined, max: number | undefined): ListingFilter | null => {
+    const range: Record<string, number> = {};
+    if (min !== undefined) range.$gte = min;
+    if (max !== undefined) range.$lte = max;
+
+    return Object.keys(range).length > 0 ? { [field]: range } : null;
+};
+
+/**
+ * @function buildSellRentClause
+ * @description Builds the listing-type clause. When both `sell` and `rent` are requested, a listing matching
+ * either of them is accepted ("either sell or rent"). An explicit `false` excludes listings of that type.
+ *
+ * @param {TriState} sell - Whether listings for sale are required, excluded or ignored.
+ * @param {TriState} rent - Whether listings for rent are required, excluded or ignored.
+ * @returns {ListingFilter | null} The clause to apply, or `null` when the listing type is not filtered.
+ */
+const buildSellRentClause = (sell: TriState, rent: TriState): ListingFilter | null => {
+    // Both requested: match listings that are for sale or for rent
+    if (sell === true && rent === true) {
+        return { $or: [{ sell: true }, { rent: true }] };
+    }
+
+    const clause: ListingFilter = {};
+    if (sell !== undefined) clause.sell = sell;
+    if (rent !== undefined) clause.rent = rent;
+
+    return Object.keys(clause).length > 0 ? clause : null;
+};
+
+/**
+ * @function buildActiveOfferClause
+ * @description Builds the clause matching listings whose offer is running: the offer flag is set, the offer has
+ * started (or has no start date) and has not expired (or has no expiry date). Mirrors `isOfferActive`.
+ *
+ * @param {Date} [now=new Date()] - The moment to check.
+ * @returns {ListingFilter} The clause to apply.
+ */
+export const buildActiveOfferClause = (now: Date = new Date()): ListingFilter => ({
+    offer: true,
+    $and: [
+        { $or: [{ offerStartsAt: null }, { offerStartsAt: { $lte: now } }] },
+        { $or: [{ offerEndsAt: null }, { offerEndsAt: { $gt: now } }] },
+    ],
+});
+
+/**
+ * @function buildMonthlyRentClause
+ * @description Builds the "rent at most N per month" clause, on the base price (EGP). Rents quoted per year are compared
+ * by their monthly equivalent; listings without rental terms (created before they existed) are treated as quoting a
+ * monthly rent.
+ *
+ * @param {number} maxMonthlyRent - The highest accepted monthly rent, in EGP.
+ * @returns {ListingFilter} The clause to apply.
+ */
+const buildMonthlyRentClause = (maxMonthlyRent: number): ListingFilter => ({
+    rent: true,
+    $or: Object.entries(RENT_PERIOD_MONTHS).map(([period, months]) => ({
+        // Monthly rents also cover listings without a rent period
+        "rentalTerms.rentPeriod": period === "monthly" ? { $in: [period, null] } : period,
+        basePrice: { $lte: maxMonthlyRent * months },
+    })),
+});
+
+/**
+ * @function buildAvailableFromClause
+ * @description Builds the "available by a move-in date" clause: rent listings that are available now, or become
+ * available on or before the date.
+ *
+ * @param {Date} moveInDate - The date the renter wants to move in.
+ * @returns {ListingFilter} The clause to apply.
+ */
+const buildAvailableFromClause = (moveInDate: Date): ListingFilter => ({
+    rent: true,
+    $or: [{ "rentalTerms.availableFrom": null }, { "rentalTerms.availableFrom": { $lte: moveInDate } }],
+});
+
+/**
+ * @function buildRadiusClause
+ * @description Builds the "within N km of a point" clause. `$geoWithin` is used rather than `$near` because it also
+ * works inside the aggregation used for relevance sorting and does not force a distance sort.
+ *
+ * @param {number | undefined} lat - The latitude of the centre, in degrees.
+ * @param {number | undefined} lng - The longitude of the centre, in degrees.
+ * @param {number | undefined} radiusKm - The radius, in kilometres (capped at `MAX_RADIUS_KM`).
+ * @returns {ListingFilter | null} The clause to apply, or `null` when the point or radius is missing or out of range.
+ */
+const buildRadiusClause = (
+    lat: number | undefined,
+    lng: number | undefined,
+    radiusKm: number | undefined
+): ListingFilter | null => {
+    if (lat === undefined || lng === undefined || radiusKm === undefined) return null;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || radiusKm <= 0) return null;
+
+    const radians = Math.min(radiusKm, MAX_RADIUS_KM) / EARTH_RADIUS_KM;
+    return { location: { $geoWithin: { $centerSphere: [[lng, lat], radians] } } };
+};
+
+/**
+ * @function buildBoundsClause
+ * @description Builds the "within map bounds" clause from the edges of the visible map.
+ *
+ * @param {Object} bounds - The edges of the box, in degrees.
+ * @param {number | undefined} bounds.north - The northern latitude.
+ * @param {number | undefined} bounds.south - The southern latitude.
+ * @param {number | undefined} bounds.east - The eastern longitude.
+ * @param {number | undefined} bounds.west - The western longitude.
+ * @returns {ListingFilter | null} The clause to apply, or `null` when an edge is missing.
+ */
+const buildBoundsClause = ({ north, south, east, west }: {
+    north?: number;
+    south?: number;
+    east?: number;
+    west?: number;
+}): ListingFilter | null => {
+    if (north === undefined || south === undefined || east === undefined || west === undefined) return null;
+
+    // Clamp to valid coordinates (zoomed-out maps can report values outside them)
+    const top = Math.min(Math.max(north, south), 90);
+    const bottom = Math.max(Math.min(north, south), -90);
+    const clampLng = (value: number) => Math.min(Math.max(value, -180), 180);
+
+    const box = (left: number, right: number) => ({
+        location: {
+            $geoWithin: {
+                $geometry: {
+                    type: "Polygon",
+                    coordinates: [[[left, bottom], [right, bottom], [right, top], [left, top], [left, bottom]]],
+                },
+            },
+        },
+    });
+
+    // The whole world is visible: no need to constrain longitudes (a polygon cannot span 360 degrees)
+    if (east - west >= 360) {
+        return { "location.coordinates.1": { $gte: bottom, $lte: top } };
+    }
+
+    // Split the longitudes into spans of at most 180 degrees: MongoDB reads a polygon larger than a hemisphere as its
+    // complement, and bounds crossing the antimeridian (`west > east`) need one span on each side of it
+    const left = clampLng(west);
+    const right = clampLng(east);
+    const spans = left <= right ? [[left, right]] : [[left, 180], [-180, right]];
+    const boxes = spans.flatMap(([from, to]) =>
+        to - from > 180 ? [box(from, (from + to) / 2), box((from + to) / 2, to)] : [box(from, to)]
+    );
+
+    return boxes.length === 1 ? boxes[0] : { $or: boxes };
+};
+
+/**
+ * @function isTextSearch
+ * @description Checks whether a search term is answered by the full-text index. Multi-word terms are; single words
+ * keep using the substring search, so partial words such as "Sun" still find "Sunrise".
+ *
+ * @param {string | undefined} searchTerm - The raw search term.
+ * @returns {boolean} `true` if the term has more than one word.
+ *
+ * @example
+ * isTextSearch("sea view apartment"); // true
+ * isTextSearch("Sunrise"); // false
+ */
+export const isTextSearch = (searchTerm: string | undefined): boolean =>
+    typeof searchTerm === "string" && /\S\s+\S/.test(searchTerm.trim());
+
+/**
+ * @function buildSearchTermClause
+ * @description Builds the search term clause:
+ * - a numeric term matches `unitNumber` exactly (the unit-number shortcut);
+ * - a multi-word term uses the weighted text index over `projectName`, `unitName`, `address` and `description`;
+ * - a single word is matched case-insensitively anywhere in those same fields.
+ *
+ * @param {string | undefined} searchTerm - The raw search term.
+ * @returns {ListingFilter | null} The clause to apply, or `null` when no search term is given.
+ */
+const buildSearchTermClause = (searchTerm: string | undefined): ListingFilter | null => {
+    const term = typeof searchTerm === "string" ? searchTerm.trim() : "";
+    if (!term) return null;
+
+    // Search unitNumber if the search term is numeric
+    if (!isNaN(Number(term))) {
+        return { $or: [{ unitNumber: Number(term) }] };
+    }
+
+    // Multi-word queries go through the text index (scored by `buildRelevanceStages`)
+    if (isTextSearch(term)) {
+        return { $text: { $search: term } };
+    }
+
+    // Escape regex metacharacters so the term is matched literally
+    const pattern = escapeRegex(term.toLowerCase());
+    return {
+        $or: SEARCHABLE_FIELDS.map((field) => ({ [field]: { $regex: pattern, $options: "i" } })),
+    };
+};
+
+/**
+ * @function toObjectId
+ * @description Casts an id sent as a string to an ObjectId. `find` casts ids by itself, but aggregation `$match`
+ * stages (used for relevance sorting) do not, so the filter always carries real ObjectIds.
+ *
+ * @param {string} id - The raw id.
+ * @returns {Types.ObjectId | string} The ObjectId, or the raw value when it is not a valid id.
+ */
+export const toObjectId = (id: string): Types.ObjectId | string =>
+    isValidObjectId(id) ? new Types.ObjectId(String(id)) : id;
+
+/**
+ * @function buildListingFilter
+ * @description Builds the MongoDB filter for a listing search. Every criterion becomes its own clause and the
+ * clauses are combined with `$and`, so criteria that both need `$or` (listing type and search term) do not clash.
+ *
+ * @param {ListingQuery} query - The search criteria.
+ * @returns {ListingFilter} The MongoDB filter (an empty object matches every listing).
+ *
+ * @example
+ * buildListingFilter({ sell: true, rent: true, furnished: "true", offer: "any", minBeds: 2, maxBeds: 3 });
+ * // { $and: [{ $or: [{ sell: true }, { rent: true }] }, { furnished: true }, { beds: { $gte: 2, $lte: 3 } }] }
+ */
+export const buildListingFilter = (query: ListingQuery): ListingFilter => {
+    const clauses: ListingFilter[] = [];
+
+    if (query.userId) clauses.push({ userRef: toObjectId(query.userId) }); // Filter by owner if provided
+    if (query.listingId) clauses.push({ _id: toObjectId(query.listingId) }); // Filter by listingId if provided
+    if (query.projectId) clauses.push({ projectRef: toObjectId(query.projectId) }); // Filter by project if provided
+    if (query.developerId) clauses.push({ developerRef: toObjectId(query.developerId) }); // Filter by developer if provided
+
+    const sellRentClause = buildSellRentClause(parseTriState(query.sell), parseTriState(query.rent));
+    if (sellRentClause) clauses.push(sellRentClause);
+
+    // Amenity flags: only constrain the results when the flag is explicitly true or false
+    for (const field of ["parkingSpot", "furnished"] as const) {
+        const value = parseTriState(query[field]);
+        if (value !== undefined) clauses.push({ [field]: value });
+    }
+
+    // Offers: only running offers count, so expired (and not yet started) offers are treated as "no offer"
+    const offer = parseTriState(query.offer);
+    if (offer === true) clauses.push(buildActiveOfferClause());
+    if (offer === false) clauses.push({ $nor: [buildActiveOfferClause()] });
+
+    // Numeric ranges: price, beds, baths, area, floor and price per m² (both bounds inclusive)
+    for (const { field, min, max } of RANGE_FIELDS) {
+        const rangeClause = buildRangeClause(field, parseNumber(query[min]), parseNumber(query[max]));
+        if (rangeClause) clauses.push(rangeClause);
+    }
+
+    // Unit type, finishing and delivery status: any of the requested values
+    for (const field of Object.keys(CHOICE_FIELDS) as (keyof typeof CHOICE_FIELDS)[]) {
+        const values = parseChoices(query[field], CHOICE_FIELDS[field]);
+        if (values.length > 0) clauses.push({ [field]: values.length === 1 ? values[0] : { $in: values } });
+    }
+
+    // Rental filters: only listings for rent can match them
+    const maxMonthlyRent = parseNumber(query.maxMonthlyRent);
+    if (maxMonthlyRent !== undefined) clauses.push(buildMonthlyRentClause(maxMonthlyRent));
+
+    const availableFrom = parseDate(query.availableFrom);
+    if (availableFrom) clauses.push(buildAvailableFromClause(availableFrom));
+
+    // Geographic queries: within a radius of a point, and/or within the visible map bounds
+    const radiusClause = buildRadiusClause(parseNumber(query.lat), parseNumber(query.lng), parseNumber(query.radiusKm));
+    if (radiusClause) clauses.push(radiusClause);
+
+    const boundsClause = buildBoundsClause({
+        north: parseNumber(query.north),
+        south: parseNumber(query.south),
+        east: parseNumber(query.east),
+        west: parseNumber(query.west),
+    });
+    if (boundsClause) clauses.push(boundsClause);
+
+    const searchTermClause = buildSearchTermClause(query.searchTerm);
+    if (searchTermClause) clauses.push(searchTermClause);
+
+    if (clauses.length === 0) return {};
+    if (clauses.length === 1) return clauses[0];
+    return { $and: clauses };
+};
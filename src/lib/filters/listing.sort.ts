@@ -0,0 +1,130 @@
+/**
+ * @file Listing search sort options.
+ * @module listingSort
+ * @description This file defines the whitelist of sort orders accepted by `/api/listing/get` and resolves a
+ * requested sort key into a MongoDB sort specification. Unknown keys never reach the database; they fall back
+ * to the default order.
+ */
+
+import { PipelineStage } from "mongoose";
+import { escapeRegex, isTextSearch } from "@/lib/filters/listing.filters";
+
+/**
+ * @typedef {Record<string, 1 | -1>} ListingSortSpec
+ * @description A MongoDB sort specification. Every spec ends with `_id` so the order is stable across pages.
+ */
+export type ListingSortSpec = Record<string, 1 | -1>;
+
+/**
+ * @constant LISTING_SORTS
+ * @description The sortable orders, keyed by the value sent in the `sort` parameter.
+ * `relevance` has no static spec: it is ranked against the search term (see `buildRelevanceStages`).
+ */
+export const LISTING_SORTS = {
+    newest: { createdAt: -1, _id: -1 },
+    oldest: { createdAt: 1, _id: 1 },
+    price_asc: { basePrice: 1, _id: 1 }, // Prices in EGP, so listings in different currencies are ordered together
+    price_desc: { basePrice: -1, _id: -1 },
+    beds_asc: { beds: 1, _id: 1 },
+    beds_desc: { beds: -1, _id: -1 },
+    area_asc: { area: 1, _id: 1 },
+    area_desc: { area: -1, _id: -1 },
+    price_per_sqm_asc: { pricePerSqm: 1, _id: 1 }, // In EGP per m², like the prices
+    price_per_sqm_desc: { pricePerSqm: -1, _id: -1 },
+    relevance: null,
+} as const satisfies Record<string, ListingSortSpec | null>;
+
+/**
+ * @constant RELEVANCE_SORT
+ * @description The order of relevance-ranked results: best match first, ties broken by `_id` like the other sorts.
+ */
+export const RELEVANCE_SORT = { relevance: -1, _id: -1 } as const satisfies ListingSortSpec;
+
+/**
+ * @typedef {keyof typeof LISTING_SORTS} ListingSortKey
+ * @description A whitelisted sort key.
+ */
+export type ListingSortKey = keyof typeof LISTING_SORTS;
+
+/**
+ * @function isListingSortKey
+ * @description Checks whether a raw value is one of the whitelisted sort keys.
+ *
+ * @param {unknown} value - The raw sort value.
+ * @returns {boolean} `true` if the value is a whitelisted sort key.
+ */
+export const isListingSortKey = (value: unknown): value is ListingSortKey =>
+    typeof value === "string" && Object.prototype.hasOwnProperty.call(LISTING_SORTS, value);
+
+/**
+ * @function resolveListingSort
+ * @description Resolves the requested sort key. When no (or an unknown) key is given, the legacy `order`
+ * parameter decides between `oldest` ("asc") and `newest` (anything else). Relevance only makes sense with a
+ * search term, so without one it falls back to `newest`.
+ *
+ * @param {unknown} sort - The raw `sort` parameter.
+ * @param {unknown} order - The legacy `order` parameter ("asc" or "desc").
+ * @param {string | undefined} searchTerm - The search term, used to decide whether relevance applies.
+ * @returns {ListingSortKey} The sort key to apply.
+ *
+ * @example
+ * resolveListingSort("price_asc", undefined, ""); // "price_asc"
+ * resolveListingSort("updatedAt", "asc", ""); // "oldest"
+ */
+export const resolveListingSort = (sort: unknown, order: unknown, searchTerm: string | undefined): ListingSortKey => {
+    if (!isListingSortKey(sort)) {
+        return order === "asc" ? "oldest" : "newest";
+    }
+    if (sort === "relevance" && !searchTerm?.trim()) {
+        return "newest";
+    }
+    return sort;
+};
+
+/**
+ * @function getListingSortSpec
+ * @description Returns the sort specification of a sort key, including the computed `relevance` field for relevance
+ * ranking. Used to build and read pagination cursors.
+ *
+ * @param {ListingSortKey} sortKey - The sort key.
+ * @returns {ListingSortSpec} The sort specification.
+ */
+export const getListingSortSpec = (sortKey: ListingSortKey): ListingSortSpec => LISTING_SORTS[sortKey] ?? RELEVANCE_SORT;
+
+/**
+ * @function buildRelevanceStages
+ * @description Builds the aggregation stages that rank listings against the search term.
+ * Multi-word terms are matched through the text index, so they are ranked by its weighted text score (a word in
+ * `projectName` counts more than one in `description`). For single words, an exact `projectName` or `unitName` match
+ * scores highest, then a prefix match, then a match anywhere in the field.
+ *
+ * @param {string} searchTerm - The search term to rank against.
+ * @returns {PipelineStage[]} The `$addFields` and `$sort` stages; the temporary `relevance` field is removed by the caller.
+ */
+export const buildRelevanceStages = (searchTerm: string): PipelineStage[] => {
+    if (isTextSearch(searchTerm)) {
+        return [
+            { $addFields: { relevance: { $meta: "textScore" } } },
+            { $sort: RELEVANCE_SORT },
+        ];
+    }
+
+    const term = escapeRegex(searchTerm.trim());
+
+    // Score a single field: exact match (4), prefix match (2), match anywhere (1)
+    const scoreField = (field: string) => ({
+        $switch: {
+            branches: [
+                { case: { $regexMatch: { input: { $toString: field }, regex: `^${term}$`, options: "i" } }, then: 4 },
+                { case: { $regexMatch: { input: { $toString: field }, regex: `^${term}`, options: "i" } }, then: 2 },
+                { case: { $regexMatch: { input: { $toString: field }, regex: term, options: "i" } }, then: 1 },
+            ],
+            default: 0,
+        },
+    });
+
+    return [
+        { $addFields: { relevance: { $add: [scoreField("$projectName"), scoreField("$unitName")] } } },
+        { $sort: RELEVANCE_SORT },
+    ];
+};
@@ -0,0 +1,129 @@
+/**
+ * @file Listing audit history helpers.
+ * @module listingHistory
+ * @description This file computes field-level diffs between two versions of a listing and records them in the
+ * `ListingHistory` collection. It is used by the update and delete listing routes.
+ */
+
+import ListingHistory from "@/lib/modals/listingHistory.modal";
+
+/**
+ * @interface FieldChange
+ * @description A single field-level change between two versions of a listing.
+ */
+export interface FieldChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * @constant TRACKED_FIELDS
+ * @description The listing fields whose changes are recorded in the history.
+ * Bookkeeping fields (`_id`, `__v`, `createdAt`, `updatedAt`) are intentionally left out.
+ */
+const TRACKED_FIELDS = [
+    "projectRef",
+    "projectName",
+    "unitName",
+    "unitNumber",
+    "description",
+    "address",
+    "location",
+    "sell",
+    "rent",
+    "parkingSpot",
+    "furnished",
+    "offer",
+    "discountPrice",
+    "offerStartsAt",
+    "offerEndsAt",
+    "beds",
+    "baths",
+    "area",
+    "floor",
+    "unitType",
+    "finishing",
+    "deliveryStatus",
+    "regularPrice",
+    "currency",
+    "paymentPlans",
+    "rentalTerms",
+    "images",
+];
+
+/**
+ * @function normalize
+ * @description Normalizes a field value so equal values compare equal regardless of their runtime type
+ * (e.g. ObjectIds, Dates and nested objects).
+ *
+ * @param {unknown} value - The field value.
+ * @returns {string} A comparable representation of the value.
+ */
+const normalize = (value: unknown): string => JSON.stringify(value ?? null);
+
+/**
+ * @function diffListing
+ * @description Computes the field-level changes between two versions of a listing.
+ *
+ * @param {Record<string, unknown> | null} before - The listing before the change (`null` if it did not exist).
+ * @param {Record<string, unknown> | null} after - The listing after the change (`null` if it was deleted).
+ * @returns {FieldChange[]} One entry per tracked field whose value changed.
+ *
+ * @example
+ * diffListing({ regularPrice: 2000 }, { regularPrice: 2500 });
+ * // [{ field: "regularPrice", from: 2000, to: 2500 }]
+ */
+export const diffListing = (
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+): FieldChange[] => {
+    const changes: FieldChange[] = [];
+
+    for (const field of TRACKED_FIELDS) {
+        const from = before?.[field] ?? null;
+        const to = after?.[field] ?? null;
+        if (normalize(from) !== normalize(to)) {
+            changes.push({ field, from, to });
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * @function recordListingChange
+ * @description Stores a history entry for an update or deletion of a listing.
+ * Updates that did not change any tracked field are not recorded.
+ *
+ * @async
+ * @param {Object} entry - The change to record.
+ * @param {string} entry.listingId - The ID of the listing that changed.
+ * @param {"update" | "delete"} entry.action - The operation that was performed.
+ * @param {Record<string, unknown> | null} entry.before - The listing before the change.
+ * @param {Record<string, unknown> | null} entry.after - The listing after the change (`null` for deletions).
+ * @param {string | null} [entry.userRef] - The ID of the user who made the change, when known.
+ * @returns {Promise<void>}
+ */
+export const recordListingChange = async ({
+    listingId,
+    action,
+    before,
+    after,
+    userRef = null,
+}: {
+    listingId: string;
+    action: "update" | "delete";
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    userRef?: string | null;
+}): Promise<void> => {
+    const changes = diffListing(before, after);
+
+    // Nothing changed: skip empty update entries, but always keep a record of deletions
+    if (changes.length === 0 && action === "update") {
+        return;
+    }
+
+    await ListingHistory.create({ listingId, action, changes, userRef });
+};
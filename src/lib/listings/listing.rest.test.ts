@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { etagMatches } from "@/lib/listings/listing.rest";
+
+describe("etagMatches", () => {
+    const etag = '"abc"';
+
+    it("matches the same tag, a tag in a list, or any version", () => {
+        expect(etagMatches('"abc"', etag)).toBe(true);
+        expect(etagMatches('"xyz", "abc"', etag)).toBe(true);
+        expect(etagMatches("*", etag)).toBe(true);
+    });
+
+    it("does not match other tags or a missing header", () => {
+        expect(etagMatches('"xyz"', etag)).toBe(false);
+        expect(etagMatches(null, etag)).toBe(false);
+    });
+
+    it("never lets a weak tag pass the strong comparison used by If-Match", () => {
+        expect(etagMatches('W/"abc"', etag)).toBe(false);
+        expect(etagMatches('W/"abc"', 'W/"abc"')).toBe(false);
+    });
+
+    it("compares weak tags by their value in the weak comparison used by If-None-Match", () => {
+        expect(etagMatches('W/"abc"', etag, true)).toBe(true);
+        expect(etagMatches('"abc"', 'W/"abc"', true)).toBe(true);
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * @file HTTP helpers for the listing resource routes.
+ * @module listingRest
+ * @description This file holds the HTTP details shared by the REST routes under `/api/listings`: entity tags (ETags)
+ * for conditional requests, resource responses with their `ETag` and `Location` headers, and the deprecation headers
+ * added by the legacy `/api/listing/*` routes.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * @constant LISTINGS_PATH
+ * @description The path of the listing collection resource.
+ */
+export const LISTINGS_PATH = "/api/listings";
+
+/**
+ * @function listingLocation
+ * @description Returns the path of a listing resource, sent in `Location` headers.
+ *
+ * @param {unknown} id - The ID of the listing.
+ * @returns {string} The path of the listing, e.g. `/api/listings/650a1b2c3d4e5f6a7b8c9d0`.
+ */
+export const listingLocation = (id: unknown): string => `${LISTINGS_PATH}/${String(id)}`;
+
+/**
+ * @function computeETag
+ * @description Computes the entity tag of a JSON representation. The same bytes always produce the same tag, so any
+ * change to the listing (including ones made by other routes) changes it.
+ *
+ * @param {string} body - The JSON representation of the resource.
+ * @returns {string} The quoted entity tag.
+ */
+export const computeETag = (body: string): string =>
+    `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+/**
+ * @function etagMatches
+ * @description Checks an `If-Match` or `If-None-Match` header against the current entity tag. The header may hold a
+ * comma-separated list of tags or `*` (any version). `If-Match` needs the strong comparison, where a weak tag
+ * (`W/"..."`) never matches; only `If-None-Match` may use the weak one, which compares tags by their value (RFC 9110
+ * §13.1.1 and §13.1.2).
+ *
+ * @param {string | null} header - The raw header value.
+ * @param {string} etag - The current entity tag.
+ * @param {boolean} [weak=false] - Whether to use the weak comparison.
+ * @returns {boolean} `true` if one of the tags matches.
+ *
+ * @example
+ * etagMatches('W/"abc"', '"abc"'); // false
+ * etagMatches('W/"abc"', '"abc"', true); // true
+ */
+export const etagMatches = (header: string | null, etag: string, weak = false): boolean => {
+    if (!header) return false;
+    if (header.trim() === "*") return true;
+
+    const normalize = (tag: string): string | null => {
+        const trimmed = tag.trim();
+        if (!trimmed.startsWith("W/")) return trimmed;
+        return weak ? trimmed.slice(2) : null; // Weak tags never match strongly
+    };
+    const current = normalize(etag);
+    return current !== null && header.split(",").some((tag) => normalize(tag) === current);
+};
+
+/**
+ * @function listingResponse
+ * @description Builds the response carrying a listing, with its `ETag` (and `Location`, for created listings).
+ *
+ * @param {unknown} listing - The listing (a Mongoose document or a plain object).
+ * @param {number} [status=200] - The status code.
+ * @param {HeadersInit} [headers] - Extra headers.
+ * @returns {Response} The response.
+ */
+export const listingResponse = (listing: unknown, status = 200, headers?: HeadersInit): Response => {
+    const body = JSON.stringify(listing);
+    const responseHeaders = new Headers(headers);
+    responseHeaders.set("Content-Type", "application/json");
+    responseHeaders.set("ETag", computeETag(body));
+
+    return new Response(body, { status, headers: responseHeaders });
+};
+
+/**
+ * @function preconditionFailedResponse
+ * @description Builds the 412 response for a write whose `If-Match` tag no longer matches the listing.
+ *
+ * @returns {Response} The error response.
+ */
+export const preconditionFailedResponse = (): Response =>
+    new Response(
+        JSON.stringify({
+            success: false,
+            message: "The listing was changed by someone else. Reload it and try again.",
+        }),
+        { status: 412 }
+    );
+
+/**
+ * @function deprecated
+ * @description Marks a response of a legacy `/api/listing/*` route as deprecated and points to the REST route that
+ * replaces it, so integrations can find out from the headers alone.
+ *
+ * @param {Response} response - The response of the legacy route.
+ * @param {string} successor - The path of the replacing route.
+ * @returns {Response} The same response, with the `Deprecation` and `Link` headers set.
+ *
+ * @example
+ * return deprecated(await searchListings(data), LISTINGS_PATH);
+ */
+export const deprecated = (response: Response, successor: string): Response => {
+    response.headers.set("Deprecation", "true");
+    response.headers.set("Link", `<${successor}>; rel="successor-version"`);
+    return response;
+};
@@ -0,0 +1,173 @@
+/**
+ * @file Listing search.
+ * @module listingSearch
+ * @description This file runs the listing searches behind `GET`/`POST /api/listing/get` and `GET /api/listings`: it
+ * builds the filter, sort and cursor from the search parameters and returns a page of listings (or, in facets mode, the
+ * facet counts) as a ready-to-send response. Price bounds may be given in any supported `currency`; they are converted
+ * to EGP, the currency of the stored base prices, before the search.
+ */
+
+import Listing from "@/lib/modals/listing.modal";
+import { buildListingFilter, ListingQuery, parseNumber, parseTriState } from "@/lib/filters/listing.filters";
+import { buildFacetPipeline, normalizeFacets } from "@/lib/filters/listing.facets";
+import { buildRelevanceStages, getListingSortSpec, LISTING_SORTS, resolveListingSort } from "@/lib/filters/listing.sort";
+import { buildCursorClause, decodeListingCursor, encodeListingCursor } from "@/lib/filters/listing.cursor";
+import { buildListingHighlights } from "@/lib/search/listing.highlight";
+import { BASE_CURRENCY, getRate, isCurrencyCode } from "@/lib/pricing/currency";
+import { getExchangeRates } from "@/lib/pricing/exchange.rates";
+
+/**
+ * @interface ListingSearchParams
+ * @description The search parameters: the filter criteria plus pagination, sorting and mode.
+ */
+export interface ListingSearchParams extends ListingQuery {
+    limit?: unknown;
+    startIndex?: unknown;
+    cursor?: unknown;
+    sort?: unknown;
+    order?: unknown;
+    facets?: unknown;
+}
+
+/**
+ * @constant PRICE_BOUND_KEYS
+ * @description The search parameters holding prices, converted to EGP when sent in another currency.
+ */
+const PRICE_BOUND_KEYS = ["minPrice", "maxPrice", "minPricePerSqm", "maxPricePerSqm", "maxMonthlyRent"] as const;
+
+/**
+ * @constant UPPER_PRICE_BOUND_KEYS
+ * @description The price bounds that are upper bounds.
+ */
+const UPPER_PRICE_BOUND_KEYS: readonly string[] = ["maxPrice", "maxPricePerSqm", "maxMonthlyRent"];
+
+/**
+ * @function toBaseCurrency
+ * @description Converts the price bounds of a search from its `currency` to EGP.
+ *
+ * @async
+ * @param {ListingSearchParams} data - The search parameters.
+ * @returns {Promise<{ data: ListingSearchParams; rate: number; response: null } | { response: Response }>} The search
+ * parameters with EGP bounds and the rate used, or the 400 response for an unknown currency or a missing rate.
+ */
+const toBaseCurrency = async (
+    data: ListingSearchParams
+): Promise<{ data: ListingSearchParams; rate: number; response: null } | { response: Response }> => {
+    const currency = data.currency || BASE_CURRENCY;
+    if (currency === BASE_CURRENCY) return { data, rate: 1, response: null };
+
+    const rate = isCurrencyCode(currency) ? getRate(currency, await getExchangeRates()) : null;
+    if (!rate) {
+        return {
+            response: new Response(
+                JSON.stringify({ success: false, message: `Prices cannot be searched in ${String(currency)}.` }),
+                { status: 400 }
+            ),
+        };
+    }
+
+    const converted: ListingSearchParams = { ...data };
+    for (const key of PRICE_BOUND_KEYS) {
+        const bound = parseNumber(data[key]);
+        if (bound === undefined) continue;
+
+        // Prices are whole units: an upper bound of N covers everything below N + 1, so a price bucket's upper bound
+        // reaches up to the next bucket's lower edge
+        converted[key] = UPPER_PRICE_BOUND_KEYS.includes(key) ? Math.round((bound + 1) * rate) - 1 : Math.round(bound * rate);
+    }
+    return { data: converted, rate, response: null };
+};
+
+/**
+ * @function searchListings
+ * @description Runs a listing search. See `/api/listing/get` for the accepted parameters and the response shapes.
+ * 
+ * @async
+ * @param {ListingSearchParams} params - The search criteria, pagination and sorting parameters.
+ * @returns {Promise<Response>} The page of listings (or the facet counts), or an error response.
+ */
+export const searchListings = async (params: ListingSearchParams): Promise<Response> => {
+    try {
+        // Compare prices in EGP, whatever the currency of the bounds
+        const normalized = await toBaseCurrency(params);
+        if (normalized.response) return normalized.response;
+        const { data, rate } = normalized;
+
+        // Facets mode: count the matches per filter option instead of returning listings
+        if (parseTriState(data.facets)) {
+            const [raw] = await Listing.aggregate(buildFacetPipeline(data, rate));
+            return new Response(JSON.stringify(normalizeFacets(raw, rate)), {
+                status: 200,
+            });
+        }
+
+        // Parse pagination and sorting parameters
+        const limit = parseInt(String(data.limit)) || 9; // Default limit: 9
+        const sortKey = resolveListingSort(data.sort, data.order, data.searchTerm); // Whitelisted sort key
+        const sortSpec = getListingSortSpec(sortKey);
+
+        // Continue after the cursor when one is given, otherwise from the legacy offset
+        let cursorClause = null;
+        if (data.cursor) {
+            const cursorValues = decodeListingCursor(data.cursor, sortKey, sortSpec);
+            if (!cursorValues) {
+                return new Response(
+                    JSON.stringify({ success: false, message: "Invalid cursor. Start again from the first page." }),
+                    { status: 400 }
+                );
+            }
+            cursorClause = buildCursorClause(sortSpec, cursorValues);
+        }
+        const startIndex = cursorClause ? 0 : parseInt(String(data.startIndex)) || 0; // Default start index: 0
+
+        // Build the MongoDB filter from the search criteria, the sell/rent/amenity flags and the numeric ranges
+        const filter = buildListingFilter(data);
+
+        // Fetch one listing more than requested to know whether there is a next page.
+        // Relevance is computed per listing, so it needs an aggregation instead of a plain find.
+        const staticSort = LISTING_SORTS[sortKey];
+        const [page, total] = await Promise.all([
+            staticSort
+                ? Listing.find(cursorClause ? { $and: [filter, cursorClause] } : filter)
+                    .sort(staticSort) // Sort by the whitelisted field
+                    .skip(startIndex) // Skip results for pagination
+                    .limit(limit + 1) // Limit the number of results
+                    .lean<Record<string, unknown>[]>()
+                : Listing.aggregate<Record<string, unknown>>([
+                    { $match: filter },
+                    ...buildRelevanceStages(data.searchTerm ?? ""),
+                    ...(cursorClause ? [{ $match: cursorClause }] : []), // The cursor compares the computed relevance
+                    { $skip: startIndex },
+                    { $limit: limit + 1 },
+                ]),
+            Listing.countDocuments(filter),
+        ]);
+
+        const hasMore = page.length > limit;
+        const listings = page.slice(0, limit);
+        const nextCursor = hasMore ? encodeListingCursor(sortKey, sortSpec, listings[listings.length - 1]) : null;
+
+        // Show where the search words matched (the unit-number shortcut has nothing to highlight), and drop the
+        // temporary ranking field
+        const searchTerm = typeof data.searchTerm === "string" ? data.searchTerm.trim() : "";
+        const items = listings.map((listing) => {
+            const item: Record<string, unknown> = { ...listing };
+            delete item.relevance;
+            if (searchTerm && isNaN(Number(searchTerm))) item.highlights = buildListingHighlights(listing, searchTerm);
+            return item;
+        });
+
+        // Return the page of listings
+        return new Response(JSON.stringify({ items, total, nextCursor }), {
+            status: 200,
+        });
+    } catch (error) {
+        // Log the error for debugging purposes
+        console.log('Error getting posts:', error);
+
+        // Return a 500 error for server errors
+        return new Response(JSON.stringify({ success: false, message: "Internal Server Error" }), {
+            status: 500,
+        });
+    }
+};
@@ -0,0 +1,339 @@
+/**
+ * @file Listing write operations.
+ * @module listingService
+ * @description This file creates, updates and deletes listings for both the REST routes under `/api/listings` and the
+ * legacy `/api/listing/*` routes, so validation, the project lookup, permissions, duplicate detection and the change
+ * history work the same way whichever route is used. Like `requireUser`, every operation returns either its result or
+ * a ready-made error response; the routes only decide how to present a success.
+ */
+
+import { isValidObjectId } from "mongoose";
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { SessionUser } from "@/lib/auth/session";
+import { checkListingPermission } from "@/lib/auth/permissions";
+import { recordListingChange } from "@/lib/history/listing.history";
+import { ListingInput, validateListingInput } from "@/lib/validation/listing.validation";
+import { validationErrorResponse } from "@/lib/validation/validation";
+import { duplicateListingResponse, isDuplicateKeyError } from "@/lib/validation/duplicateKey";
+import { computeETag, etagMatches, preconditionFailedResponse } from "@/lib/listings/listing.rest";
+import { BASE_CURRENCY, convertAmount } from "@/lib/pricing/currency";
+import { getExchangeRates } from "@/lib/pricing/exchange.rates";
+import { getPricePerSqm } from "@/lib/listings/unit.attributes";
+
+/**
+ * @typedef ListingDocument
+ * @description A listing loaded from the database.
+ */
+type ListingDocument = InstanceType<typeof Listing>;
+
+/**
+ * @typedef ListingResult
+ * @description The outcome of a listing operation: the listing, or the error response to send back.
+ */
+export type ListingResult = { listing: ListingDocument; response: null } | { listing: null; response: Response };
+
+/**
+ * @interface WriteOptions
+ * @description Options of the update and delete operations.
+ */
+interface WriteOptions {
+    ifMatch?: string | null; // The `If-Match` header: only write if the listing still has this entity tag
+}
+
+/**
+ * @function fail
+ * @description Wraps an error response in a `ListingResult`.
+ *
+ * @param {Response} response - The error response.
+ * @returns {ListingResult} The failed result.
+ */
+const fail = (response: Response): ListingResult => ({ listing: null, response });
+
+/**
+ * @function notFound
+ * @description Builds the 404 result for a listing that does not exist.
+ *
+ * @returns {ListingResult} The failed result.
+ */
+const notFound = (): ListingResult =>
+    fail(new Response(JSON.stringify({ success: false, message: "Listing not found" }), { status: 404 }));
+
+/**
+ * @function findListing
+ * @description Loads a listing by its ID. Malformed IDs are treated as unknown listings rather than server errors.
+ *
+ * @async
+ * @param {unknown} listingId - The ID of the listing.
+ * @returns {Promise<ListingDocument | null>} The listing, or `null` when it does not exist.
+ */
+export const findListing = async (listingId: unknown): Promise<ListingDocument | null> => {
+    if (!listingId || !isValidObjectId(listingId)) return null;
+    return Listing.findById(listingId);
+};
+
+/**
+ * @function toListingInput
+ * @description Turns a stored listing back into form input, so a partial update can be validated as a whole listing.
+ *
+ * @param {ListingDocument} listing - The stored listing.
+ * @returns {Record<string, unknown>} The listing as it would be sent by the listing form.
+ */
+const toListingInput = (listing: ListingDocument): Record<string, unknown> => {
+    const stored = listing.toObject();
+    const [longitude, latitude] = stored.location?.coordinates ?? []; // GeoJSON stores [longitude, latitude]
+
+    return {
+        projectId: stored.projectRef ? String(stored.projectRef) : undefined,
+        unitName: stored.unitName,
+        unitNumber: stored.unitNumber,
+        description: stored.description,
+        address: stored.address,
+        latitude,
+        longitude,
+        sell: stored.sell,
+        rent: stored.rent,
+        parkingSpot: stored.parkingSpot,
+        furnished: stored.furnished,
+        offer: stored.offer,
+        discountPrice: stored.discountPrice,
+        offerStartsAt: stored.offerStartsAt,
+        offerEndsAt: stored.offerEndsAt,
+        beds: stored.beds,
+        baths: stored.baths,
+        area: stored.area,
+        floor: stored.floor,
+        unitType: stored.unitType,
+        finishing: stored.finishing,
+        deliveryStatus: stored.deliveryStatus,
+        regularPrice: stored.regularPrice,
+        currency: stored.currency,
+        paymentPlans: stored.paymentPlans,
+        rentalTerms: stored.rentalTerms,
+        images: stored.images,
+    };
+};
+
+/**
+ * @function resolveListingFields
+ * @description Validates listing input and resolves its project into the fields written to the database.
+ *
+ * @async
+ * @param {unknown} input - The raw listing data.
+ * @returns {Promise<{ fields: Record<string, unknown>; unset: Record<string, 1>; response: null } | { response: Response }>}
+ * The fields to set and the optional fields to remove, or the 422 response for invalid data.
+ */
+const resolveListingFields = async (
+    input: unknown
+): Promise<{ fields: Record<string, unknown>; unset: Record<string, 1>; response: null } | { response: Response }> => {
+    // Validate the listing data before touching the database
+    const validation = validateListingInput(input);
+    if (!validation.success) return { response: validationErrorResponse(validation.errors) };
+    const data: ListingInput = validation.data;
+
+    // The listing must belong to an existing project
+    const project = await Project.findById(data.projectId);
+    if (!project) return { response: validationErrorResponse({ projectId: "Project not found." }) };
+
+    // Prices quoted in another currency are also stored in EGP, so all listings can be filtered and sorted together
+    const basePrice = convertAmount(data.regularPrice ?? 0, data.currency, BASE_CURRENCY, await getExchangeRates());
+    if (basePrice === null) {
+        return { response: validationErrorResponse({ currency: `No exchange rate is set for ${data.currency} yet.` }) };
+    }
+    const pricePerSqm = getPricePerSqm(basePrice, data.area); // Also in EGP
+
+    // Optional fields that are now empty are removed from the listing
+    const unset: Record<string, 1> = {};
+    if (!project.developerRef) unset.developerRef = 1; // The project has no developer
+    if (!data.location) unset.location = 1; // No coordinates were given
+    if (data.discountPrice === undefined) unset.discountPrice = 1; // No offer price (or no offer)
+    if (!data.offerStartsAt) unset.offerStartsAt = 1; // The offer runs right away
+    if (!data.offerEndsAt) unset.offerEndsAt = 1; // The offer does not expire
+    if (!data.rentalTerms) unset.rentalTerms = 1; // Not for rent
+    for (const field of ["area", "floor", "unitType", "finishing", "deliveryStatus"] as const) {
+        if (data[field] === undefined) unset[field] = 1; // Unit attributes left empty
+    }
+    if (pricePerSqm === null) unset.pricePerSqm = 1; // No area
+
+    const fields = {
+        projectRef: project._id,
+        projectName: project.name, // Copied so listings can be searched by project name
+        ...(project.developerRef && { developerRef: project.developerRef }), // Copied so listings can be filtered by developer
+        unitName: data.unitName,
+        unitNumber: data.unitNumber,
+        description: data.description,
+        address: data.address,
+        ...(data.location && { location: data.location }), // GeoJSON point
+        sell: data.sell,
+        rent: data.rent,
+        parkingSpot: data.parkingSpot,
+        furnished: data.furnished,
+        offer: data.offer,
+        ...(data.discountPrice !== undefined && { discountPrice: data.discountPrice }),
+        ...(data.offerStartsAt && { offerStartsAt: data.offerStartsAt }),
+        ...(data.offerEndsAt && { offerEndsAt: data.offerEndsAt }),
+        beds: data.beds,
+        baths: data.baths,
+        ...(data.area !== undefined && { area: data.area }), // Built-up area, in m²
+        ...(data.floor !== undefined && { floor: data.floor }),
+        ...(data.unitType && { unitType: data.unitType }),
+        ...(data.finishing && { finishing: data.finishing }),
+        ...(data.deliveryStatus && { deliveryStatus: data.deliveryStatus }),
+        regularPrice: data.regularPrice,
+        currency: data.currency,
+        basePrice,
+        ...(pricePerSqm !== null && { pricePerSqm }),
+        paymentPlans: data.paymentPlans, // Empty for listings that are not for sale
+        ...(data.rentalTerms && { rentalTerms: data.rentalTerms }), // Rent period, deposit, lease and availability
+        images: data.images, // Ordered photos from /api/upload
+    };
+
+    return { fields, unset, response: null };
+};
+
+/**
+ * @function createListing
+ * @description Creates a listing owned by the signed-in user.
+ *
+ * @async
+ * @param {SessionUser} user - The signed-in user.
+ * @param {unknown} input - The raw listing data.
+ * @returns {Promise<ListingResult>} The created listing, or a 403, 409 or 422 response.
+ */
+export const createListing = async (user: SessionUser, input: unknown): Promise<ListingResult> => {
+    // Only admins and agents can create listings
+    const denied = checkListingPermission(user, "create");
+    if (denied) return fail(denied);
+
+    const resolved = await resolveListingFields(input);
+    if (resolved.response) return fail(resolved.response);
+
+    try {
+        // Create the new listing (the unique indexes reject units already used in the same project)
+        const listing = await Listing.create({
+            ...resolved.fields,
+            userRef: user.id, // The signed-in user owns the new listing
+        });
+        return { listing, response: null };
+    } catch (error) {
+        // The unit name or number is already used in this project
+        if (isDuplicateKeyError(error)) return fail(duplicateListingResponse(error));
+        throw error;
+    }
+};
+
+/**
+ * @function updateListing
+ * @description Updates a listing and records the changes in its history. A full update replaces every field with
+ * `input`; a partial update only changes the fields present in `input` and keeps the others.
+ *
+ * @async
+ * @param {SessionUser} user - The signed-in user.
+ * @param {unknown} listingId - The ID of the listing.
+ * @param {unknown} input - The raw listing data.
+ * @param {WriteOptions & { partial?: boolean }} [options] - Whether the update is partial, and the `If-Match` tag.
+ * @returns {Promise<ListingResult>} The updated listing, or a 403, 404, 409, 412 or 422 response.
+ */
+export const updateListing = async (
+    user: SessionUser,
+    listingId: unknown,
+    input: unknown,
+    { partial = false, ifMatch = null }: WriteOptions & { partial?: boolean } = {}
+): Promise<ListingResult> => {
+    // Viewers can never update listings
+    const roleDenied = checkListingPermission(user, "update");
+    if (roleDenied) return fail(roleDenied);
+
+    // Load the current version of the listing so ownership can be checked and the changes recorded
+    const previous = await findListing(listingId);
+    if (!previous) return notFound();
+
+    // Agents can only update the listings they own
+    const denied = checkListingPermission(user, "update", previous);
+    if (denied) return fail(denied);
+
+    // Someone else changed the listing since the client read it (strong comparison, as `If-Match` requires)
+    if (ifMatch && !etagMatches(ifMatch, computeETag(JSON.stringify(previous)))) {
+        return fail(preconditionFailedResponse());
+    }
+
+    // A partial update is the current listing with some fields replaced (a missing body is still reported as missing)
+    const isPatch = partial && typeof input === "object" && input !== null && !Array.isArray(input);
+    const resolved = await resolveListingFields(isPatch ? { ...toListingInput(previous), ...input } : input);
+    if (resolved.response) return fail(resolved.response);
+
+    try {
+        // With If-Match, only update the version that was checked (the listing may change in between)
+        const updated = await Listing.findOneAndUpdate(
+            { _id: previous._id, ...(ifMatch && { updatedAt: previous.updatedAt }) },
+            {
+                $set: resolved.fields,
+                ...(Object.keys(resolved.unset).length > 0 && { $unset: resolved.unset }),
+            },
+            { new: true } // Return the updated document
+        );
+
+        // The listing was deleted, or changed after the If-Match check
+        if (!updated) return ifMatch ? fail(preconditionFailedResponse()) : notFound();
+
+        // Record the field-level changes in the listing history
+        await recordListingChange({
+            listingId: updated._id,
+            action: "update",
+            before: previous.toObject(),
+            after: updated.toObject(),
+            userRef: user.id,
+        });
+
+        return { listing: updated, response: null };
+    } catch (error) {
+        // The new unit name or number is already used in this project
+        if (isDuplicateKeyError(error)) return fail(duplicateListingResponse(error));
+        throw error;
+    }
+};
+
+/**
+ * @function deleteListing
+ * @description Deletes a listing and records its last values in its history.
+ *
+ * @async
+ * @param {SessionUser} user - The signed-in user.
+ * @param {unknown} listingId - The ID of the listing.
+ * @param {WriteOptions} [options] - The `If-Match` tag.
+ * @returns {Promise<ListingResult>} The deleted listing, or a 403, 404 or 412 response.
+ */
+export const deleteListing = async (
+    user: SessionUser,
+    listingId: unknown,
+    { ifMatch = null }: WriteOptions = {}
+): Promise<ListingResult> => {
+    // Viewers can never delete listings
+    const roleDenied = checkListingPermission(user, "delete");
+    if (roleDenied) return fail(roleDenied);
+
+    const listing = await findListing(listingId);
+    if (!listing) return notFound();
+
+    // Agents can only delete the listings they own
+    const denied = checkListingPermission(user, "delete", listing);
+    if (denied) return fail(denied);
+
+    // Someone else changed the listing since the client read it (strong comparison, as `If-Match` requires)
+    if (ifMatch && !etagMatches(ifMatch, computeETag(JSON.stringify(listing)))) {
+        return fail(preconditionFailedResponse());
+    }
+
+    await listing.deleteOne();
+
+    // Record the deleted values in the listing history
+    await recordListingChange({
+        listingId: listing._id,
+        action: "delete",
+        before: listing.toObject(),
+        after: null,
+        userRef: user.id,
+    });
+
+    return { listing, response: null };
+};
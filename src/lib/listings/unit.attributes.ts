@@ -0,0 +1,121 @@
+/**
+ * @file Unit attributes of listings.
+ * @module unitAttributes
+ * @description This file describes the attributes buyers filter units on besides beds and baths: the built-up area,
+ * the floor, the unit type, the finishing level and the delivery status. It has no database dependencies, so the listing
+ * pages and forms share the same options and labels as the server.
+ *
+ * Every attribute is optional, since listings created before they existed do not have them. Listings with an area also
+ * store their price per m² in EGP (`pricePerSqm`), so it can be filtered and sorted on; for rent listings it is the rent
+ * per m².
+ */
+
+/**
+ * @constant UNIT_TYPES
+ * @description The supported unit types, with their labels.
+ */
+export const UNIT_TYPES = {
+    apartment: "Apartment",
+    villa: "Villa",
+    townhouse: "Townhouse",
+    chalet: "Chalet",
+    duplex: "Duplex",
+} as const;
+
+/**
+ * @typedef {"apartment" | "villa" | "townhouse" | "chalet" | "duplex"} UnitType
+ * @description The type of a unit.
+ */
+export type UnitType = keyof typeof UNIT_TYPES;
+
+/**
+ * @constant FINISHING_LEVELS
+ * @description The supported finishing levels, from the least to the most finished, with their labels.
+ */
+export const FINISHING_LEVELS = {
+    coreAndShell: "Core & shell",
+    semiFinished: "Semi-finished",
+    fullyFinished: "Fully finished",
+} as const;
+
+/**
+ * @typedef {"coreAndShell" | "semiFinished" | "fullyFinished"} FinishingLevel
+ * @description The finishing level of a unit.
+ */
+export type FinishingLevel = keyof typeof FINISHING_LEVELS;
+
+/**
+ * @constant DELIVERY_STATUSES
+ * @description The supported delivery statuses, with their labels.
+ */
+export const DELIVERY_STATUSES = {
+    ready: "Ready to move",
+    offPlan: "Off-plan",
+} as const;
+
+/**
+ * @typedef {"ready" | "offPlan"} DeliveryStatus
+ * @description Whether a unit can be moved into now, or is sold before it is built.
+ */
+export type DeliveryStatus = keyof typeof DELIVERY_STATUSES;
+
+/**
+ * @constant MAX_AREA_SQM
+ * @description The largest accepted built-up area, in m².
+ */
+export const MAX_AREA_SQM = 10_000;
+
+/**
+ * @constant MIN_FLOOR
+ * @description The lowest accepted floor (basements are below 0; 0 is the ground floor).
+ */
+export const MIN_FLOOR = -5;
+
+/**
+ * @constant MAX_FLOOR
+ * @description The highest accepted floor.
+ */
+export const MAX_FLOOR = 200;
+
+/**
+ * @interface UnitAttributes
+ * @description The unit attributes of a listing.
+ */
+export interface UnitAttributes {
+    area?: number | null; // Built-up area, in m²
+    floor?: number | null; // 0 is the ground floor, negative floors are basements
+    unitType?: UnitType | null;
+    finishing?: FinishingLevel | null;
+    deliveryStatus?: DeliveryStatus | null;
+}
+
+/**
+ * @function getPricePerSqm
+ * @description Computes the price per m² of a unit.
+ *
+ * @param {number} price - The price of the unit.
+ * @param {number | null | undefined} area - The built-up area, in m².
+ * @returns {number | null} The price per m² rounded to whole units, or `null` when the area is unknown.
+ *
+ * @example
+ * getPricePerSqm(2500000, 120); // 20833
+ */
+export const getPricePerSqm = (price: number, area: number | null | undefined): number | null =>
+    typeof area === "number" && area > 0 ? Math.round(price / area) : null;
+
+/**
+ * @function formatFloor
+ * @description Describes a floor, e.g. "Ground floor", "3rd floor" or "Basement 1".
+ *
+ * @param {number} floor - The floor.
+ * @returns {string} The description of the floor.
+ */
+export const formatFloor = (floor: number): string => {
+    if (floor === 0) return "Ground floor";
+    if (floor < 0) return `Basement ${-floor}`;
+
+    // 1st, 2nd, 3rd, 4th... but 11th, 12th, 13th
+    const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+    const suffix = floor % 100 >= 11 && floor % 100 <= 13 ? "th" : suffixes[floor % 10] ?? "th";
+    return `${floor}${suffix} floor`;
+};
@@ -0,0 +1,50 @@
+/**
+ * @file Map configuration.
+ * @module mapConfig
+ * @description This file reads the map settings from the environment. Tiles come from a configurable tile server so
+ * the map also works against a locally hosted server (e.g. in offline environments). The values are inlined into the
+ * client bundle at build time, hence the `NEXT_PUBLIC_` prefix.
+ */
+
+/**
+ * @constant MAP_TILE_URL
+ * @description The tile URL template, with `{z}`, `{x}` and `{y}` placeholders (and optionally `{s}` for subdomains).
+ * Defaults to the public OpenStreetMap tile server.
+ */
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+/**
+ * @constant MAP_TILE_ATTRIBUTION
+ * @description The attribution shown in the corner of the map, as required by most tile providers.
+ */
+export const MAP_TILE_ATTRIBUTION =
+    process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/**
+ * @constant MAP_MAX_ZOOM
+ * @description The highest zoom level offered by the tile server.
+ */
+export const MAP_MAX_ZOOM = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) || 19;
+
+/**
+ * @constant MAP_DEFAULT_CENTER
+ * @description Where the map starts before any listing is shown: Cairo, as `[latitude, longitude]`.
+ */
+export const MAP_DEFAULT_CENTER: [number, number] = [30.0444, 31.2357];
+
+/**
+ * @constant MAP_DEFAULT_ZOOM
+ * @description The zoom level the map starts at.
+ */
+export const MAP_DEFAULT_ZOOM = 11;
+
+/**
+ * @interface MapBounds
+ * @description The edges of the visible map, in degrees, as accepted by the bounds filter of `/api/listing/get`.
+ */
+export interface MapBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
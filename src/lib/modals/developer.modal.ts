@@ -0,0 +1,63 @@
+/**
+ * @file Developer schema and model for MongoDB.
+ * @module Developer
+ * @description This file defines the schema and model for real estate developers in the MongoDB database.
+ * A developer owns projects (through the project's `developerRef`); the listings of those projects carry the same
+ * `developerRef` so they can be filtered by developer directly.
+ * 
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @function normalizeDeveloperName
+ * @description Normalizes a developer name for duplicate detection: trimmed, lowercase and with single spaces.
+ * 
+ * @param {string} name - The developer name.
+ * @returns {string} The normalized name.
+ * 
+ * @example
+ * normalizeDeveloperName(" Palm  Hills "); // "palm hills"
+ */
+export const normalizeDeveloperName = (name: string): string => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * @constant developerSchema
+ * @description The schema for developers in the MongoDB database.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} name - The display name of the developer. Required.
+ * @property {string} normalizedName - The normalized name, derived from `name`. Unique.
+ * @property {Date} createdAt - When the developer was created. Managed by Mongoose timestamps.
+ * @property {Date} updatedAt - When the developer was last updated. Managed by Mongoose timestamps.
+ */
+const developerSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    normalizedName: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+}, { timestamps: true });
+
+// Keep the normalized name in sync with the display name
+developerSchema.pre("validate", function (next) {
+    if (this.name) this.normalizedName = normalizeDeveloperName(this.name);
+    next();
+});
+
+/**
+ * @constant Developer
+ * @description The Mongoose model for developers.
+ * It is created using the `developerSchema` and ensures that the model is not redefined if it already exists.
+ * 
+ * @type {mongoose.Model}
+ */
+const Developer = mongoose.models.Developer || mongoose.model("Developer", developerSchema);
+
+export default Developer;
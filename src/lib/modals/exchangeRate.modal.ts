@@ -0,0 +1,50 @@
+/**
+ * @file Exchange rate schema and model for MongoDB.
+ * @module ExchangeRate
+ * @description This file defines the schema and model for the exchange rates maintained by admins. Each document holds
+ * the rate of one currency against the base currency (EGP), which needs no document of its own.
+ * 
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @constant exchangeRateSchema
+ * @description The schema for exchange rates in the MongoDB database.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} currency - The currency code, e.g. "USD". Required and unique.
+ * @property {number} rate - The number of EGP per unit of the currency. Required.
+ * @property {ObjectId} updatedBy - The admin who last set the rate. Only the ID is stored; the rate table resolves it to
+ * the admin's name.
+ * @property {Date} createdAt - When the rate was first set. Managed by Mongoose timestamps.
+ * @property {Date} updatedAt - When the rate was last changed. Managed by Mongoose timestamps.
+ */
+const exchangeRateSchema = new mongoose.Schema({
+    currency: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    rate: {
+        type: Number,
+        required: true,
+    },
+    updatedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        default: null,
+    },
+}, { timestamps: true });
+
+/**
+ * @constant ExchangeRate
+ * @description The Mongoose model for exchange rates.
+ * It is created using the `exchangeRateSchema` and ensures that the model is not redefined if it already exists.
+ * 
+ * @type {mongoose.Model}
+ */
+const ExchangeRate = mongoose.models.ExchangeRate || mongoose.model("ExchangeRate", exchangeRateSchema);
+
+export default ExchangeRate;
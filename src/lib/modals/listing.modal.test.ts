@@ -0,0 +1,28 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { Types } from "mongoose";
+import Listing from "@/lib/modals/listing.modal";
+import { clearTestDatabase, createListings, startTestDatabase, stopTestDatabase } from "@/test/database";
+
+beforeAll(async () => {
+    await startTestDatabase();
+    await Listing.init(); // Build the unique indexes before the tests rely on them
+});
+afterAll(stopTestDatabase);
+beforeEach(clearTestDatabase);
+
+describe("unit uniqueness", () => {
+    it("rejects a unit number or name already used in the same project", async () => {
+        const projectRef = new Types.ObjectId();
+        await createListings([{ projectRef, unitNumber: 101, unitName: "A-101" }]);
+
+        await expect(createListings([{ projectRef, unitNumber: 101 }])).rejects.toMatchObject({ code: 11000 });
+        await expect(createListings([{ projectRef, unitName: "A-101" }])).rejects.toMatchObject({ code: 11000 });
+    });
+
+    it("accepts the same unit in projects that share a name", async () => {
+        const unit = { projectName: "Mountain View", unitNumber: 101, unitName: "A-101" };
+        await createListings([{ ...unit, projectRef: new Types.ObjectId() }]);
+
+        await expect(createListings([{ ...unit, projectRef: new Types.ObjectId() }])).resolves.toHaveLength(1);
+    });
+});
@@ -9,27 +9,164 @@
 
 import mongoose from "mongoose";
 
+/**
+ * @constant listingImageSchema
+ * @description The schema for a listing photo: the original upload, its resized WebP variants and a blurred placeholder.
+ * Also used for the cover image of a project.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} url - The URL of the original upload. Required.
+ * @property {number} width - The width of the original, in pixels.
+ * @property {number} height - The height of the original, in pixels.
+ * @property {string} blurDataURL - A tiny blurred copy, as a data URL, shown while the photo loads.
+ * @property {Array} variants - The resized copies (`{ width, url }`), smallest first.
+ */
+export const listingImageSchema = new mongoose.Schema({
+    url: {
+        type: String,
+        required: true,
+    },
+    width: Number,
+    height: Number,
+    blurDataURL: String,
+    variants: {
+        type: [{ width: Number, url: String, _id: false }],
+        default: [],
+    },
+}, { _id: false });
+
+/**
+ * @constant pointSchema
+ * @description A GeoJSON point. Coordinates are stored as `[longitude, latitude]`, as GeoJSON requires.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} type - Always "Point".
+ * @property {number[]} coordinates - The `[longitude, latitude]` pair, in degrees.
+ */
+const pointSchema = new mongoose.Schema({
+    type: {
+        type: String,
+        enum: ["Point"],
+        required: true,
+    },
+    coordinates: {
+        type: [Number],
+        required: true,
+    },
+}, { _id: false });
+
+/**
+ * @constant paymentPlanSchema
+ * @description The schema for a payment plan of a sale listing: a down payment, then equal installments over a number of
+ * years, plus a maintenance fee due on delivery. Schedules are computed from it by `buildPaymentSchedule`.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} name - A label for the plan, e.g. "10% down, 8 years". Optional.
+ * @property {number} downPaymentPercent - The share of the price paid on signing (0-100). Required.
+ * @property {number} years - The length of the installment period (0 for a cash payment). Required.
+ * @property {string} frequency - How often installments are paid: "monthly", "quarterly", "semiannual" or "annual". Required.
+ * @property {number} maintenanceFeePercent - The share of the price paid on delivery, on top of the price. Defaults to 0.
+ */
+const paymentPlanSchema = new mongoose.Schema({
+    name: String,
+    downPaymentPercent: {
+        type: Number,
+        required: true,
+    },
+    years: {
+        type: Number,
+        required: true,
+    },
+    frequency: {
+        type: String,
+        enum: ["monthly", "quarterly", "semiannual", "annual"],
+        required: true,
+    },
+    maintenanceFeePercent: {
+        type: Number,
+        default: 0,
+    },
+}, { _id: false });
+
+/**
+ * @constant rentalTermsSchema
+ * @description The schema for the rental terms of a rent listing. The price of a rent listing (`regularPrice`) is the
+ * rent per `rentPeriod`; `monthlyRent` stores the equivalent monthly rent so rents can be filtered together.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} rentPeriod - The period covered by the rent: "monthly" or "yearly". Required.
+ * @property {number} monthlyRent - The rent per month, derived from the price and the period.
+ * @property {number} deposit - The security deposit. Optional.
+ * @property {number} minLeaseMonths - The minimum lease length, in months. Optional.
+ * @property {Date} availableFrom - When the unit can be moved into. Optional (available now).
+ */
+const rentalTermsSchema = new mongoose.Schema({
+    rentPeriod: {
+        type: String,
+        enum: ["monthly", "yearly"],
+        required: true,
+    },
+    monthlyRent: Number,
+    deposit: Number,
+    minLeaseMonths: Number,
+    availableFrom: Date,
+}, { _id: false });
+
 /**
  * @constant listingSchema
  * @description The schema for property listings in the MongoDB database.
  * It defines the structure and validation rules for listing documents.
  * 
  * @type {mongoose.Schema}
- * @property {string} projectName - The name of the project. Required.
- * @property {string} unitName - The name of the unit. Required and unique.
- * @property {number} unitNumber - The number of the unit. Required and unique.
+ * @property {ObjectId} projectRef - The project (compound) the unit belongs to. Indexed.
+ * @property {ObjectId} developerRef - The developer of the project, copied from the referenced project so listings can be
+ * filtered by developer. Indexed.
+ * @property {string} projectName - The name of the project, copied from the referenced project so listings can be searched
+ * and sorted by it. Required.
+ * @property {string} unitName - The name of the unit. Required and unique within its project.
+ * @property {number} unitNumber - The number of the unit. Required and unique within its project.
  * @property {string} description - A description of the listing. Required.
  * @property {string} address - The address of the listing. Required.
+ * @property {Object} location - The position of the listing as a GeoJSON point. Optional; indexed for geo queries.
  * @property {boolean} sell - Indicates if the listing is for sale. Required.
  * @property {boolean} rent - Indicates if the listing is for rent. Required.
  * @property {boolean} parkingSpot - Indicates if the listing includes a parking spot. Required.
  * @property {boolean} furnished - Indicates if the listing is furnished. Required.
  * @property {boolean} offer - Indicates if the listing has a special offer. Required.
+ * @property {number} discountPrice - The offer price, below `regularPrice`. Optional.
+ * @property {Date} offerStartsAt - When the offer starts. Optional (the offer runs right away).
+ * @property {Date} offerEndsAt - When the offer expires. Optional (the offer runs until it is removed).
  * @property {number} beds - The number of beds in the listing. Required.
  * @property {number} baths - The number of baths in the listing. Required.
- * @property {number} regularPrice - The regular price of the listing. Required.
+ * @property {number} area - The built-up area, in m². Optional.
+ * @property {number} floor - The floor of the unit (0 is the ground floor, negative floors are basements). Optional.
+ * @property {string} unitType - "apartment", "villa", "townhouse", "chalet" or "duplex". Optional.
+ * @property {string} finishing - "coreAndShell", "semiFinished" or "fullyFinished". Optional.
+ * @property {string} deliveryStatus - "ready" (ready to move) or "offPlan". Optional.
+ * @property {number} regularPrice - The regular price of the listing, in `currency`. Required.
+ * @property {string} currency - The currency of the prices of the listing ("EGP", "USD" or "EUR"). Defaults to "EGP".
+ * @property {number} basePrice - The regular price converted to EGP at the current exchange rate, used to filter and sort
+ * listings quoted in different currencies together. Updated when the rate changes.
+ * @property {number} pricePerSqm - The base price divided by the area (EGP per m²), used to filter and sort by price per
+ * m². Only set when the area is known; updated with the base price.
+ * @property {Array} paymentPlans - The payment plans offered on a sale listing. Defaults to none (cash only).
+ * @property {Object} rentalTerms - The rental terms of a rent listing (rent period, deposit, minimum lease, availability).
+ * @property {Array} images - The listing photos with their variants, in display order (the first one is the cover).
+ * @property {ObjectId} userRef - The user who created (and owns) the listing. Indexed.
+ * @property {Date} createdAt - When the listing was created. Managed by Mongoose timestamps.
+ * @property {Date} updatedAt - When the listing was last updated. Managed by Mongoose timestamps.
  */
 const listingSchema = new mongoose.Schema({
+    projectRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Project",
+        index: true,
+    },
+    developerRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Developer",
+        index: true,
+    },
     projectName: {
         type: String,
         required: true,
@@ -37,12 +174,10 @@ const listingSchema = new mongoose.Schema({
     unitName: {
         type: String,
         required: true,
-        unique: true,
     },
     unitNumber: {
         type: Number,
         required: true,
-        unique: true,
     },
     description: {
         type: String,
@@ -52,6 +187,9 @@ const listingSchema = new mongoose.Schema({
         type: String,
         required: true,
     },
+    location: {
+        type: pointSchema,
+    },
     sell: {
         type: Boolean,
         required: true,
@@ -72,6 +210,15 @@ const listingSchema = new mongoose.Schema({
         type: Boolean,
         required: true,
     },
+    discountPrice: {
+        type: Number,
+    },
+    offerStartsAt: {
+        type: Date,
+    },
+    offerEndsAt: {
+        type: Date,
+    },
     beds: {
         type: Number,
         required: true,
@@ -80,11 +227,86 @@ const listingSchema = new mongoose.Schema({
         type: Number,
         required: true,
     },
+    area: {
+        type: Number,
+    },
+    floor: {
+        type: Number,
+    },
+    unitType: {
+        type: String,
+        enum: ["apartment", "villa", "townhouse", "chalet", "duplex"],
+    },
+    finishing: {
+        type: String,
+        enum: ["coreAndShell", "semiFinished", "fullyFinished"],
+    },
+    deliveryStatus: {
+        type: String,
+        enum: ["ready", "offPlan"],
+    },
     regularPrice: {
         type: Number,
         required: true,
     },
-});
+    currency: {
+        type: String,
+        enum: ["EGP", "USD", "EUR"],
+        default: "EGP",
+    },
+    basePrice: {
+        type: Number,
+    },
+    pricePerSqm: {
+        type: Number,
+    },
+    paymentPlans: {
+        type: [paymentPlanSchema],
+        default: [],
+    },
+    rentalTerms: {
+        type: rentalTermsSchema,
+    },
+    images: {
+        type: [listingImageSchema],
+        default: [],
+    },
+    userRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        index: true,
+    },
+}, { timestamps: true });
+
+// Unit names and numbers only have to be unique within a project (unit 101 can exist in every compound).
+// The database enforces this, so concurrent requests cannot both create the same unit. The indexes are keyed on the
+// project itself, so projects sharing a display name do not block each other's units and renames do not matter.
+// Listings not yet linked to a project are left out until `scripts/migrations/backfill-projects.mjs` links them; the
+// older global and project-name indexes are dropped by `scripts/migrations/scope-unit-uniqueness.mjs`.
+const linkedToProject = { projectRef: { $type: "objectId" } };
+listingSchema.index(
+    { projectRef: 1, unitNumber: 1 },
+    { unique: true, name: "projectRef_unitNumber_unique", partialFilterExpression: linkedToProject }
+);
+listingSchema.index(
+    { projectRef: 1, unitName: 1 },
+    { unique: true, name: "projectRef_unitName_unique", partialFilterExpression: linkedToProject }
+);
+
+// Radius and map-bounds searches (listings without a location are simply not indexed)
+listingSchema.index({ location: "2dsphere" });
+
+// Price filters and sorts, comparing listings quoted in different currencies
+listingSchema.index({ basePrice: 1 });
+
+// Price per m² filters and sorts
+listingSchema.index({ pricePerSqm: 1 });
+
+// Full-text search for multi-word queries, ranked by where the words appear
+listingSchema.index(
+    { projectName: "text", unitName: "text", address: "text", description: "text" },
+    { name: "listing_text", weights: { projectName: 10, unitName: 8, address: 4, description: 1 } }
+);
 
 /**
  * @constant Listing
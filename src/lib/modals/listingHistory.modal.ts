@@ -0,0 +1,79 @@
+/**
+ * @file ListingHistory schema and model for MongoDB.
+ * @module ListingHistory
+ * @description This file defines the schema and model for the listing audit log. Every update or deletion of a
+ * listing stores one entry with the field-level changes that were made.
+ *
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @constant fieldChangeSchema
+ * @description The schema for a single field change inside a history entry.
+ *
+ * @type {mongoose.Schema}
+ * @property {string} field - The name of the listing field that changed. Required.
+ * @property {*} from - The value before the change (`null` if the field was unset).
+ * @property {*} to - The value after the change (`null` if the listing was deleted).
+ */
+const fieldChangeSchema = new mongoose.Schema({
+    field: {
+        type: String,
+        required: true,
+    },
+    from: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+    to: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+}, { _id: false });
+
+/**
+ * @constant listingHistorySchema
+ * @description The schema for listing history entries in the MongoDB database.
+ *
+ * @type {mongoose.Schema}
+ * @property {ObjectId} listingId - The ID of the listing that changed. Required and indexed.
+ * @property {string} action - The operation that produced the entry ("update" or "delete"). Required.
+ * @property {Array} changes - The field-level changes made by the operation.
+ * @property {ObjectId} userRef - The user who made the change, when known. Only the ID is stored; the history route
+ * resolves it to the user's name.
+ * @property {Date} createdAt - When the change was made. Managed by Mongoose timestamps.
+ */
+const listingHistorySchema = new mongoose.Schema({
+    listingId: {
+        type: mongoose.Schema.Types.ObjectId,
+        required: true,
+        index: true,
+    },
+    action: {
+        type: String,
+        enum: ["update", "delete"],
+        required: true,
+    },
+    changes: {
+        type: [fieldChangeSchema],
+        default: [],
+    },
+    userRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        default: null,
+    },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+/**
+ * @constant ListingHistory
+ * @description The Mongoose model for listing history entries.
+ * It is created using the `listingHistorySchema` and ensures that the model is not redefined if it already exists.
+ *
+ * @type {mongoose.Model}
+ */
+const ListingHistory = mongoose.models.ListingHistory || mongoose.model("ListingHistory", listingHistorySchema);
+
+export default ListingHistory;
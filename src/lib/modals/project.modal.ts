@@ -0,0 +1,100 @@
+/**
+ * @file Project schema and model for MongoDB.
+ * @module Project
+ * @description This file defines the schema and model for projects (compounds) in the MongoDB database.
+ * Listings reference the project they belong to through their `projectRef` field.
+ * 
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+import { listingImageSchema } from "@/lib/modals/listing.modal";
+
+/**
+ * @function normalizeProjectName
+ * @description Normalizes a project name for duplicate detection: trimmed, lowercase and with single spaces,
+ * so "Mountain View" and "mountain  view " are recognized as the same project.
+ * 
+ * @param {string} name - The project name.
+ * @returns {string} The normalized name.
+ * 
+ * @example
+ * normalizeProjectName(" Mountain  View "); // "mountain view"
+ */
+export const normalizeProjectName = (name: string): string => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * @constant projectSchema
+ * @description The schema for projects in the MongoDB database.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} name - The display name of the project. Required.
+ * @property {string} normalizedName - The normalized name, derived from `name`. Unique.
+ * @property {ObjectId} developerRef - The developer building (and owning) the project. Indexed.
+ * @property {string} developer - The name of the developer, copied from the referenced developer for display.
+ * @property {string} location - The area or city the project is located in.
+ * @property {string[]} amenities - The shared amenities of the project (e.g. "Pool", "Gym").
+ * @property {Date} deliveryDate - The expected delivery date of the units.
+ * @property {Object} coverImage - The cover photo, in the same shape as a listing photo.
+ * @property {ObjectId} userRef - The user who created the project.
+ * @property {Date} createdAt - When the project was created. Managed by Mongoose timestamps.
+ * @property {Date} updatedAt - When the project was last updated. Managed by Mongoose timestamps.
+ */
+const projectSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    normalizedName: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    developerRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Developer",
+        index: true,
+    },
+    developer: {
+        type: String,
+        trim: true,
+        default: "",
+    },
+    location: {
+        type: String,
+        trim: true,
+        default: "",
+    },
+    amenities: {
+        type: [String],
+        default: [],
+    },
+    deliveryDate: {
+        type: Date,
+    },
+    coverImage: {
+        type: listingImageSchema,
+    },
+    userRef: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+    },
+}, { timestamps: true });
+
+// Keep the normalized name in sync with the display name
+projectSchema.pre("validate", function (next) {
+    if (this.name) this.normalizedName = normalizeProjectName(this.name);
+    next();
+});
+
+/**
+ * @constant Project
+ * @description The Mongoose model for projects.
+ * It is created using the `projectSchema` and ensures that the model is not redefined if it already exists.
+ * 
+ * @type {mongoose.Model}
+ */
+const Project = mongoose.models.Project || mongoose.model("Project", projectSchema);
+
+export default Project;
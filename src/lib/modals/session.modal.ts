@@ -0,0 +1,49 @@
+/**
+ * @file Session schema and model for MongoDB.
+ * @module Session
+ * @description This file defines the schema and model for user sessions in the MongoDB database.
+ * Only a SHA-256 hash of the session token is stored, so a leaked database does not expose valid cookies.
+ * Expired sessions are removed automatically by a TTL index.
+ * 
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+
+/**
+ * @constant sessionSchema
+ * @description The schema for user sessions in the MongoDB database.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} tokenHash - The SHA-256 hash of the session token. Required and unique.
+ * @property {ObjectId} userId - The user the session belongs to. Required.
+ * @property {Date} expiresAt - When the session expires. Required; MongoDB deletes the session after this date.
+ */
+const sessionSchema = new mongoose.Schema({
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0, // TTL index: remove the document once expiresAt has passed
+    },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+/**
+ * @constant Session
+ * @description The Mongoose model for user sessions.
+ * It is created using the `sessionSchema` and ensures that the model is not redefined if it already exists.
+ * 
+ * @type {mongoose.Model}
+ */
+const Session = mongoose.models.Session || mongoose.model("Session", sessionSchema);
+
+export default Session;
@@ -0,0 +1,68 @@
+/**
+ * @file User schema and model for MongoDB.
+ * @module User
+ * @description This file defines the schema and model for user accounts in the MongoDB database.
+ * Passwords are never stored in plain text: only a salted scrypt hash is kept, and it is excluded from queries by default.
+ * 
+ * @requires mongoose
+ */
+
+import mongoose from "mongoose";
+import { ROLES } from "@/lib/auth/permissions";
+
+/**
+ * @constant userSchema
+ * @description The schema for user accounts in the MongoDB database.
+ * It defines the structure and validation rules for user documents.
+ * 
+ * @type {mongoose.Schema}
+ * @property {string} name - The display name of the user. Required.
+ * @property {string} email - The email address used to sign in. Required, unique and stored in lowercase.
+ * @property {string} passwordHash - The salted scrypt hash of the password. Required and not selected by default.
+ * @property {string} role - The user's role: "admin", "agent" or "viewer". Defaults to "viewer".
+ * @property {boolean} firstAdmin - Set on the account that signed up first and became the admin. At most one account
+ * has it (unique partial index), so concurrent first sign-ups cannot both become admins.
+ * @property {Date} createdAt - When the account was created. Managed by Mongoose timestamps.
+ * @property {Date} updatedAt - When the account was last updated. Managed by Mongoose timestamps.
+ */
+const userSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    email: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+    },
+    passwordHash: {
+        type: String,
+        required: true,
+        select: false,
+    },
+    role: {
+        type: String,
+        enum: ROLES,
+        default: "viewer",
+    },
+    firstAdmin: {
+        type: Boolean,
+    },
+}, { timestamps: true });
+
+// Only one account can ever be the first admin
+userSchema.index({ firstAdmin: 1 }, { unique: true, partialFilterExpression: { firstAdmin: true } });
+
+/**
+ * @constant User
+ * @description The Mongoose model for user accounts.
+ * It is created using the `userSchema` and ensures that the model is not redefined if it already exists.
+ * 
+ * @type {mongoose.Model}
+ */
+const User = mongoose.models.User || mongoose.model("User", userSchema);
+
+export default User;
@@ -0,0 +1,99 @@
+/**
+ * @file Listing currencies.
+ * @module currency
+ * @description This file lists the currencies listing prices can be quoted in and converts and formats prices. It has no
+ * database dependencies, so the currency switcher and the price components share it with the server.
+ *
+ * Exchange rates are expressed as the number of base currency units (EGP) per unit of a currency, e.g. `{ USD: 48.5 }`.
+ * Every listing also stores its price in the base currency (`basePrice`), so listings quoted in different currencies
+ * can be filtered and sorted together.
+ */
+
+/**
+ * @constant CURRENCIES
+ * @description The supported currency codes (ISO 4217). The first one is the base currency.
+ */
+export const CURRENCIES = ["EGP", "USD", "EUR"] as const;
+
+/**
+ * @typedef {"EGP" | "USD" | "EUR"} CurrencyCode
+ * @description A supported currency code.
+ */
+export type CurrencyCode = (typeof CURRENCIES)[number];
+
+/**
+ * @constant BASE_CURRENCY
+ * @description The currency exchange rates are expressed in, and the currency of listings created before currencies
+ * existed.
+ */
+export const BASE_CURRENCY: CurrencyCode = "EGP";
+
+/**
+ * @typedef {Partial<Record<CurrencyCode, number>>} ExchangeRates
+ * @description Base currency units per unit of each currency. Currencies without a rate cannot be converted.
+ */
+export type ExchangeRates = Partial<Record<CurrencyCode, number>>;
+
+/**
+ * @function isCurrencyCode
+ * @description Checks whether a raw value is a supported currency code.
+ *
+ * @param {unknown} value - The raw value.
+ * @returns {boolean} `true` if the value is a supported currency code.
+ */
+export const isCurrencyCode = (value: unknown): value is CurrencyCode => CURRENCIES.includes(value as CurrencyCode);
+
+/**
+ * @function getRate
+ * @description Returns the rate of a currency; the base currency is always 1.
+ *
+ * @param {CurrencyCode} currency - The currency.
+ * @param {ExchangeRates} rates - The exchange rates.
+ * @returns {number | null} Base currency units per unit, or `null` when no rate is set.
+ */
+export const getRate = (currency: CurrencyCode, rates: ExchangeRates): number | null =>
+    currency === BASE_CURRENCY ? 1 : rates[currency] ?? null;
+
+/**
+ * @function convertAmount
+ * @description Converts an amount between currencies through the base currency.
+ *
+ * @param {number} amount - The amount.
+ * @param {CurrencyCode} from - The currency of the amount.
+ * @param {CurrencyCode} to - The currency to convert to.
+ * @param {ExchangeRates} rates - The exchange rates.
+ * @returns {number | null} The converted amount rounded to whole units, or `null` when a rate is missing.
+ *
+ * @example
+ * convertAmount(100, "USD", "EGP", { USD: 48.5 }); // 4850
+ */
+export const convertAmount = (
+    amount: number,
+    from: CurrencyCode,
+    to: CurrencyCode,
+    rates: ExchangeRates
+): number | null => {
+    if (from === to) return amount;
+    const fromRate = getRate(from, rates);
+    const toRate = getRate(to, rates);
+    if (!fromRate || !toRate) return null;
+    return Math.round((amount * fromRate) / toRate);
+};
+
+/**
+ * @function formatPrice
+ * @description Formats a price with its currency, e.g. "$1,250,000", "€900" or "EGP 2,500,000".
+ *
+ * @param {number} amount - The price.
+ * @param {CurrencyCode} currency - The currency of the price.
+ * @param {Object} [options] - Formatting options.
+ * @param {boolean} [options.compact=false] - Abbreviate large prices, e.g. "$2.5M" (used by map pins).
+ * @returns {string} The formatted price.
+ */
+export const formatPrice = (amount: number, currency: CurrencyCode, { compact = false } = {}): string =>
+    new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency,
+        maximumFractionDigits: compact ? 1 : 0,
+        ...(compact && { notation: "compact" as const }),
+    }).format(amount);
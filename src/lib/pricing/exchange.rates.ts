@@ -0,0 +1,86 @@
+/**
+ * @file Exchange rate table.
+ * @module exchangeRates
+ * @description This file reads and updates the admin-maintained exchange rates. Changing a rate also re-prices the
+ * listings quoted in that currency, so their stored base price (used by the price filters and sorts) follows the rate.
+ */
+
+import ExchangeRate from "@/lib/modals/exchangeRate.modal";
+import Listing from "@/lib/modals/listing.modal";
+import User from "@/lib/modals/user.modal";
+import { BASE_CURRENCY, CurrencyCode, ExchangeRates, isCurrencyCode } from "@/lib/pricing/currency";
+
+/**
+ * @interface ExchangeRateTable
+ * @description The exchange rates as sent to clients.
+ */
+export interface ExchangeRateTable {
+    base: CurrencyCode;
+    rates: ExchangeRates; // Includes the base currency (always 1)
+    updatedAt: Date | null; // When a rate last changed
+    updatedBy?: string | null; // Name of the admin who made that change, for admins only
+}
+
+/**
+ * @function getExchangeRateTable
+ * @description Loads the current exchange rates.
+ *
+ * @async
+ * @param {boolean} [withEditor=false] - Whether to include the name of the admin who made the last change.
+ * @returns {Promise<ExchangeRateTable>} The exchange rates, with the base currency.
+ */
+export const getExchangeRateTable = async (withEditor = false): Promise<ExchangeRateTable> => {
+    const query = ExchangeRate.find();
+    if (withEditor) query.populate({ path: "updatedBy", select: "name", model: User });
+    const documents = await query.lean<{ currency: string; rate: number; updatedAt?: Date; updatedBy?: { name: string } | null }[]>();
+
+    const rates: ExchangeRates = { [BASE_CURRENCY]: 1 };
+    let updatedAt: Date | null = null;
+    let updatedBy: string | null = null;
+    for (const { currency, rate, updatedAt: changedAt, updatedBy: editor } of documents) {
+        if (!isCurrencyCode(currency) || currency === BASE_CURRENCY) continue; // Currencies no longer supported
+        rates[currency] = rate;
+        if (changedAt && (!updatedAt || changedAt > updatedAt)) {
+            updatedAt = changedAt;
+            updatedBy = editor?.name ?? null;
+        }
+    }
+
+    return { base: BASE_CURRENCY, rates, updatedAt, ...(withEditor && { updatedBy }) };
+};
+
+/**
+ * @function getExchangeRates
+ * @description Loads the current exchange rates, without the table details.
+ *
+ * @async
+ * @returns {Promise<ExchangeRates>} Base currency units per unit of each currency with a rate.
+ */
+export const getExchangeRates = async (): Promise<ExchangeRates> => (await getExchangeRateTable()).rates;
+
+/**
+ * @function setExchangeRate
+ * @description Sets the rate of a currency and re-prices the listings quoted in it.
+ *
+ * @async
+ * @param {CurrencyCode} currency - The currency (not the base currency).
+ * @param {number} rate - Base currency units per unit of the currency.
+ * @param {string} updatedBy - The ID of the admin setting the rate.
+ * @returns {Promise<number>} The number of listings re-priced.
+ */
+export const setExchangeRate = async (currency: CurrencyCode, rate: number, updatedBy: string): Promise<number> => {
+    await ExchangeRate.findOneAndUpdate({ currency }, { $set: { rate, updatedBy } }, { upsert: true });
+
+    // Recompute the base price (and the price per m²) of every listing quoted in this currency, in the database
+    const result = await Listing.updateMany({ currency }, [
+        { $set: { basePrice: { $round: [{ $multiply: ["$regularPrice", rate] }, 0] } } },
+        {
+            $set: {
+                pricePerSqm: {
+                    $cond: [{ $gt: ["$area", 0] }, { $round: [{ $divide: ["$basePrice", "$area"] }, 0] }, "$$REMOVE"],
+                },
+            },
+        },
+    ]);
+    return result.modifiedCount;
+};
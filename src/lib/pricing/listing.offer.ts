@@ -0,0 +1,55 @@
+/**
+ * @file Listing offer rules.
+ * @module listingOffer
+ * @description This file decides whether a listing's offer is running and which price applies. It has no database
+ * dependencies, so the listing pages and cards use the same rules as `/api/listing/get`, which only matches running offers.
+ *
+ * An offer runs while the `offer` flag is set, from `offerStartsAt` (if any) until `offerEndsAt` (if any, exclusive).
+ */
+
+import type { CurrencyCode } from "@/lib/pricing/currency";
+
+/**
+ * @interface ListingPricing
+ * @description The price and offer fields of a listing. Dates may be `Date` objects or ISO strings (as sent in JSON).
+ * Listings without a currency were created before currencies existed and are priced in EGP.
+ */
+export interface ListingPricing {
+    regularPrice: number;
+    currency?: CurrencyCode;
+    discountPrice?: number | null;
+    offer?: boolean;
+    offerStartsAt?: Date | string | null;
+    offerEndsAt?: Date | string | null;
+}
+
+/**
+ * @function isOfferActive
+ * @description Checks whether a listing's offer is running.
+ *
+ * @param {ListingPricing} listing - The listing.
+ * @param {Date} [now=new Date()] - The moment to check.
+ * @returns {boolean} `true` if the offer flag is set and `now` is within the offer window.
+ *
+ * @example
+ * isOfferActive({ regularPrice: 2000, offer: true, offerEndsAt: "2020-01-01" }); // false: the offer expired
+ */
+export const isOfferActive = (listing: ListingPricing, now: Date = new Date()): boolean => {
+    if (!listing.offer) return false;
+    if (listing.offerStartsAt && new Date(listing.offerStartsAt) > now) return false;
+    if (listing.offerEndsAt && new Date(listing.offerEndsAt) <= now) return false;
+    return true;
+};
+
+/**
+ * @function getOfferPrice
+ * @description Returns the discounted price of a listing while its offer runs.
+ *
+ * @param {ListingPricing} listing - The listing.
+ * @param {Date} [now=new Date()] - The moment to check.
+ * @returns {number | null} The discounted price, or `null` when the regular price applies.
+ */
+export const getOfferPrice = (listing: ListingPricing, now: Date = new Date()): number | null =>
+    isOfferActive(listing, now) && typeof listing.discountPrice === "number" && listing.discountPrice < listing.regularPrice
+        ? listing.discountPrice
+        : null;
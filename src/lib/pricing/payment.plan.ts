@@ -0,0 +1,162 @@
+/**
+ * @file Payment plans and installment schedules.
+ * @module paymentPlan
+ * @description This file describes the payment plans offered on sale listings (a down payment, then equal installments
+ * over a number of years, plus a maintenance fee due on delivery) and computes their payment schedules. It has no
+ * database dependencies, so the listing forms can share the plan constants with the server.
+ *
+ * Amounts are rounded to whole pounds; the rounding difference is added to the last installment, so the schedule always
+ * adds up to the price exactly.
+ */
+
+/**
+ * @constant INSTALLMENT_FREQUENCIES
+ * @description The supported installment frequencies, with the number of installments per year.
+ */
+export const INSTALLMENT_FREQUENCIES = {
+    monthly: 12,
+    quarterly: 4,
+    semiannual: 2,
+    annual: 1,
+} as const;
+
+/**
+ * @typedef {"monthly" | "quarterly" | "semiannual" | "annual"} InstallmentFrequency
+ * @description How often installments are paid.
+ */
+export type InstallmentFrequency = keyof typeof INSTALLMENT_FREQUENCIES;
+
+/**
+ * @constant FREQUENCY_LABELS
+ * @description Human-readable names of the installment frequencies.
+ */
+export const FREQUENCY_LABELS: Record<InstallmentFrequency, string> = {
+    monthly: "Monthly",
+    quarterly: "Quarterly",
+    semiannual: "Every 6 months",
+    annual: "Yearly",
+};
+
+/**
+ * @constant MAX_PLAN_YEARS
+ * @description The longest accepted installment period, in years.
+ */
+export const MAX_PLAN_YEARS = 15;
+
+/**
+ * @constant MAX_PAYMENT_PLANS
+ * @description The number of payment plans a listing can offer.
+ */
+export const MAX_PAYMENT_PLANS = 5;
+
+/**
+ * @interface PaymentPlan
+ * @description A payment plan of a sale listing. A plan with 0 years is a cash payment.
+ */
+export interface PaymentPlan {
+    name?: string; // e.g. "10% down, 8 years"
+    downPaymentPercent: number; // Share of the price paid on signing, 0-100
+    years: number; // Length of the installment period
+    frequency: InstallmentFrequency;
+    maintenanceFeePercent: number; // Share of the price paid on delivery, on top of the price
+}
+
+/**
+ * @interface ScheduledPayment
+ * @description One payment of a schedule. The maintenance fee has no due date when the delivery date is unknown.
+ */
+export interface ScheduledPayment {
+    number: number; // Position in the schedule, starting at 1
+    kind: "downPayment" | "installment" | "maintenance";
+    dueDate: Date | null;
+    amount: number;
+}
+
+/**
+ * @interface PaymentSchedule
+ * @description The full payment schedule of a plan, with its totals.
+ */
+export interface PaymentSchedule {
+    price: number; // The price the plan applies to (the offer price while an offer runs)
+    plan: PaymentPlan;
+    downPayment: number;
+    installmentCount: number;
+    installmentAmount: number; // The regular installment (the last one may differ by the rounding)
+    maintenanceFee: number;
+    total: number; // Price plus maintenance fee
+    payments: ScheduledPayment[];
+}
+
+/**
+ * @function addMonths
+ * @description Adds whole months to a date, keeping the day of the month where possible (Jan 31 + 1 month = Feb 28).
+ *
+ * @param {Date} date - The start date.
+ * @param {number} months - The number of months to add.
+ * @returns {Date} The new date.
+ */
+const addMonths = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, lastDay));
+    return result;
+};
+
+/**
+ * @function buildPaymentSchedule
+ * @description Computes the payment schedule of a plan: the down payment on the start date, then equal installments
+ * (the first one a full period later), and the maintenance fee on delivery.
+ *
+ * @param {number} price - The price of the unit.
+ * @param {PaymentPlan} plan - The payment plan.
+ * @param {Object} [options] - The schedule dates.
+ * @param {Date} [options.startDate=new Date()] - When the contract is signed (the down payment is due).
+ * @param {Date | null} [options.deliveryDate=null] - When the unit is delivered (the maintenance fee is due), if known.
+ * @returns {PaymentSchedule} The schedule and its totals.
+ *
+ * @example
+ * buildPaymentSchedule(1_000_000, { downPaymentPercent: 10, years: 1, frequency: "quarterly", maintenanceFeePercent: 8 });
+ * // { downPayment: 100000, installmentCount: 4, installmentAmount: 225000, maintenanceFee: 80000, total: 1080000, ... }
+ */
+export const buildPaymentSchedule = (
+    price: number,
+    plan: PaymentPlan,
+    { startDate = new Date(), deliveryDate = null }: { startDate?: Date; deliveryDate?: Date | null } = {}
+): PaymentSchedule => {
+    // A plan without installments is paid in full up front
+    const installmentCount = Math.round(plan.years * INSTALLMENT_FREQUENCIES[plan.frequency]);
+    const downPayment = installmentCount > 0 ? Math.round((price * plan.downPaymentPercent) / 100) : price;
+    const installmentAmount = installmentCount > 0 ? Math.floor((price - downPayment) / installmentCount) : 0;
+    const maintenanceFee = Math.round((price * plan.maintenanceFeePercent) / 100);
+    const monthsBetween = 12 / INSTALLMENT_FREQUENCIES[plan.frequency];
+
+    const payments: ScheduledPayment[] = [{ number: 1, kind: "downPayment", dueDate: startDate, amount: downPayment }];
+    for (let index = 1; index <= installmentCount; index++) {
+        payments.push({
+            number: index + 1,
+            kind: "installment",
+            dueDate: addMonths(startDate, index * monthsBetween),
+            // The last installment takes the rounding difference
+            amount: index === installmentCount
+                ? price - downPayment - installmentAmount * (installmentCount - 1)
+                : installmentAmount,
+        });
+    }
+    if (maintenanceFee > 0) {
+        payments.push({ number: payments.length + 1, kind: "maintenance", dueDate: deliveryDate, amount: maintenanceFee });
+    }
+
+    return {
+        price,
+        plan,
+        downPayment,
+        installmentCount,
+        installmentAmount,
+        maintenanceFee,
+        total: price + maintenanceFee,
+        payments,
+    };
+};
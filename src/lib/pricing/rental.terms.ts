@@ -0,0 +1,78 @@
+/**
+ * @file Rental terms of rent listings.
+ * @module rentalTerms
+ * @description This file describes the rental terms of rent listings: what period the price of a rent listing covers,
+ * the deposit, the minimum lease length and when the unit becomes available. It has no database dependencies, so the
+ * listing pages and forms share the same rules as the server.
+ *
+ * For rent listings, `regularPrice` is the rent per `rentPeriod`. The equivalent monthly rent is stored alongside the
+ * terms so rents quoted per month and per year can be filtered together. Listings created before rental terms existed
+ * have no terms; their price is treated as a monthly rent.
+ */
+
+/**
+ * @constant RENT_PERIOD_MONTHS
+ * @description The supported rent periods, with the number of months they cover.
+ */
+export const RENT_PERIOD_MONTHS = {
+    monthly: 1,
+    yearly: 12,
+} as const;
+
+/**
+ * @typedef {"monthly" | "yearly"} RentPeriod
+ * @description The period covered by the rent of a listing.
+ */
+export type RentPeriod = keyof typeof RENT_PERIOD_MONTHS;
+
+/**
+ * @constant RENT_PERIOD_SUFFIXES
+ * @description The suffix shown after a rent, e.g. "$12000 / month".
+ */
+export const RENT_PERIOD_SUFFIXES: Record<RentPeriod, string> = {
+    monthly: "/ month",
+    yearly: "/ year",
+};
+
+/**
+ * @constant MAX_LEASE_MONTHS
+ * @description The longest accepted minimum lease length, in months.
+ */
+export const MAX_LEASE_MONTHS = 120;
+
+/**
+ * @interface RentalTerms
+ * @description The rental terms of a rent listing. Dates may be `Date` objects or ISO strings (as sent in JSON).
+ */
+export interface RentalTerms {
+    rentPeriod: RentPeriod;
+    monthlyRent?: number; // The rent per month, derived from `regularPrice` and `rentPeriod`
+    deposit?: number | null; // Refundable security deposit
+    minLeaseMonths?: number | null; // Shortest lease accepted
+    availableFrom?: Date | string | null; // When the unit can be moved into (available now when missing)
+}
+
+/**
+ * @function toMonthlyRent
+ * @description Converts a rent to the equivalent monthly rent.
+ *
+ * @param {number} rent - The rent per period.
+ * @param {RentPeriod} period - The period the rent covers.
+ * @returns {number} The rent per month, rounded to whole pounds.
+ *
+ * @example
+ * toMonthlyRent(120000, "yearly"); // 10000
+ */
+export const toMonthlyRent = (rent: number, period: RentPeriod): number => Math.round(rent / RENT_PERIOD_MONTHS[period]);
+
+/**
+ * @function getRentSuffix
+ * @description Returns the suffix shown after the price of a listing, e.g. "/ month" for a monthly rent.
+ *
+ * @param {Object} listing - The listing.
+ * @param {boolean} [listing.rent] - Whether the listing is for rent.
+ * @param {RentalTerms | null} [listing.rentalTerms] - The rental terms, if any.
+ * @returns {string | null} The suffix, or `null` for listings that are not for rent.
+ */
+export const getRentSuffix = (listing: { rent?: boolean; rentalTerms?: RentalTerms | null }): string | null =>
+    listing.rent ? RENT_PERIOD_SUFFIXES[listing.rentalTerms?.rentPeriod ?? "monthly"] : null;
@@ -0,0 +1,114 @@
+/**
+ * @file Search result highlighting.
+ * @module listingHighlight
+ * @description This file builds the highlighted snippets returned with search results: for each searchable field that
+ * contains a search word, a short excerpt around the first match, split into plain and highlighted fragments. The
+ * fragments are plain text, so the UI renders them with `<mark>` elements without injecting any HTML.
+ */
+
+import { escapeRegex, SEARCHABLE_FIELDS } from "@/lib/filters/listing.filters";
+
+/**
+ * @interface HighlightFragment
+ * @description A piece of a snippet; `highlight` is `true` for the parts that matched a search word.
+ */
+export interface HighlightFragment {
+    text: string;
+    highlight: boolean;
+}
+
+/**
+ * @interface ListingHighlight
+ * @description The highlighted snippet of one listing field.
+ */
+export interface ListingHighlight {
+    field: (typeof SEARCHABLE_FIELDS)[number];
+    fragments: HighlightFragment[];
+}
+
+/**
+ * @constant SNIPPET_CONTEXT
+ * @description How many characters of context are kept on each side of the first match.
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * @function buildWordPattern
+ * @description Builds the regex matching the words of a search term. Like the text index, it ignores quotes and
+ * negated words, and matches other forms of a word (a trailing "s" is dropped, and longer words starting with the
+ * term match too), e.g. "apartments" also highlights "apartment".
+ *
+ * @param {string} searchTerm - The search term.
+ * @returns {RegExp | null} The pattern, or `null` when the term has no words to highlight.
+ */
+const buildWordPattern = (searchTerm: string): RegExp | null => {
+    const words = searchTerm
+        .split(/\s+/)
+        .filter((word) => word && !word.startsWith("-")) // Negated words are excluded from the results, not highlighted
+        .map((word) => word.replace(/["']/g, ""))
+        .map((word) => (word.length > 3 ? word.replace(/e?s$/i, "") : word))
+        .filter(Boolean);
+
+    if (words.length === 0) return null;
+    return new RegExp(`\\b(?:${words.map(escapeRegex).join("|")})\\w*`, "gi");
+};
+
+/**
+ * @function splitFragments
+ * @description Splits a snippet into plain and highlighted fragments.
+ *
+ * @param {string} text - The snippet.
+ * @param {RegExp} pattern - The pattern of the search words.
+ * @returns {HighlightFragment[]} The fragments, in order.
+ */
+const splitFragments = (text: string, pattern: RegExp): HighlightFragment[] => {
+    const fragments: HighlightFragment[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        if (start > last) fragments.push({ text: text.slice(last, start), highlight: false });
+        fragments.push({ text: match[0], highlight: true });
+        last = start + match[0].length;
+    }
+    if (last < text.length) fragments.push({ text: text.slice(last), highlight: false });
+
+    return fragments;
+};
+
+/**
+ * @function buildListingHighlights
+ * @description Builds the highlighted snippets of a listing for a search term.
+ *
+ * @param {Record<string, unknown>} listing - The listing (a plain object).
+ * @param {string} searchTerm - The search term.
+ * @returns {ListingHighlight[]} One entry per searchable field containing a search word.
+ *
+ * @example
+ * buildListingHighlights({ description: "Bright apartment with a sea view" }, "sea view");
+ * // [{ field: "description", fragments: [{ text: "Bright apartment with a ", highlight: false },
+ * //   { text: "sea", highlight: true }, { text: " ", highlight: false }, { text: "view", highlight: true }] }]
+ */
+export const buildListingHighlights = (listing: Record<string, unknown>, searchTerm: string): ListingHighlight[] => {
+    const pattern = buildWordPattern(searchTerm.trim());
+    if (!pattern) return [];
+
+    const highlights: ListingHighlight[] = [];
+    for (const field of SEARCHABLE_FIELDS) {
+        const value = listing[field];
+        if (typeof value !== "string") continue;
+
+        pattern.lastIndex = 0;
+        const first = pattern.exec(value);
+        if (!first) continue;
+
+        // Keep some context around the first match, with ellipses where the text was cut
+        const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+        const end = Math.min(value.length, first.index + first[0].length + SNIPPET_CONTEXT);
+        const snippet = `${start > 0 ? "…" : ""}${value.slice(start, end)}${end < value.length ? "…" : ""}`;
+
+        highlights.push({ field, fragments: splitFragments(snippet, pattern) });
+    }
+
+    return highlights;
+};
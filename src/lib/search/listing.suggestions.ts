@@ -0,0 +1,110 @@
+/**
+ * @file Search box suggestions.
+ * @module listingSuggestions
+ * @description This file finds the suggestions shown under the header search box as the user types: the project names,
+ * unit names and addresses that contain a word starting with the typed term. Each kind is looked up separately so a
+ * popular project cannot push every unit and address out of the list.
+ */
+
+import Listing from "@/lib/modals/listing.modal";
+import Project from "@/lib/modals/project.modal";
+import { escapeRegex } from "@/lib/filters/listing.filters";
+
+/**
+ * @typedef {"project" | "unit" | "address"} SuggestionType
+ * @description The kind of value a suggestion completes.
+ */
+export type SuggestionType = "project" | "unit" | "address";
+
+/**
+ * @interface Suggestion
+ * @description A single search box suggestion. `projectId` is set for projects and `listingId` for units, so the UI can
+ * link straight to the filtered results or to the listing.
+ */
+export interface Suggestion {
+    type: SuggestionType;
+    label: string;
+    detail?: string; // Secondary text, e.g. the project of a unit
+    projectId?: string;
+    listingId?: string;
+}
+
+/**
+ * @constant MIN_SUGGESTION_LENGTH
+ * @description The shortest term suggestions are looked up for; shorter terms match too much to be useful.
+ */
+export const MIN_SUGGESTION_LENGTH = 2;
+
+/**
+ * @constant MAX_SUGGESTIONS_PER_TYPE
+ * @description The upper bound of suggestions returned for each kind.
+ */
+export const MAX_SUGGESTIONS_PER_TYPE = 10;
+
+/**
+ * @function buildPrefixPattern
+ * @description Builds a case-insensitive pattern matching values that contain a word starting with the term,
+ * e.g. "pal" matches "Palm Hills" and "Hills of Palmyra" but not "Opal Tower".
+ *
+ * @param {string} term - The raw term typed by the user.
+ * @returns {RegExp} The pattern.
+ */
+const buildPrefixPattern = (term: string): RegExp => new RegExp(`(?:^|[\\s,\\-/])${escapeRegex(term)}`, "i");
+
+/**
+ * @function findListingSuggestions
+ * @description Finds the project, unit and address suggestions for a term, in that order. Terms shorter than
+ * `MIN_SUGGESTION_LENGTH` return no suggestions.
+ *
+ * @async
+ * @param {string} term - The term typed by the user.
+ * @param {number} [limit=5] - The maximum number of suggestions of each kind.
+ * @returns {Promise<Suggestion[]>} The suggestions.
+ *
+ * @example
+ * await findListingSuggestions("moun");
+ * // [{ type: "project", label: "Mountain View", projectId: "..." }, { type: "unit", label: "Mountain Villa", ... }]
+ */
+export const findListingSuggestions = async (term: string, limit = 5): Promise<Suggestion[]> => {
+    const trimmed = term.trim();
+    if (trimmed.length < MIN_SUGGESTION_LENGTH) return [];
+
+    const pattern = buildPrefixPattern(trimmed);
+    const perType = Math.min(Math.max(limit, 1), MAX_SUGGESTIONS_PER_TYPE);
+
+    const [projects, units, addresses] = await Promise.all([
+        Project.find({ name: pattern })
+            .sort({ normalizedName: 1 })
+            .limit(perType)
+            .select("name location")
+            .lean(),
+        Listing.find({ unitName: pattern })
+            .sort({ unitName: 1 })
+            .limit(perType)
+            .select("unitName projectName")
+            .lean(),
+        // Many units share an address, so suggest each address once
+        Listing.aggregate<{ _id: string }>([
+            { $match: { address: pattern } },
+            { $group: { _id: "$address" } },
+            { $sort: { _id: 1 } },
+            { $limit: perType },
+        ]),
+    ]);
+
+    return [
+        ...projects.map((project) => ({
+            type: "project" as const,
+            label: project.name,
+            detail: project.location || undefined,
+            projectId: String(project._id),
+        })),
+        ...units.map((unit) => ({
+            type: "unit" as const,
+            label: unit.unitName,
+            detail: unit.projectName,
+            listingId: String(unit._id),
+        })),
+        ...addresses.map((address) => ({ type: "address" as const, label: address._id })),
+    ];
+};
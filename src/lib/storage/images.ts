@@ -0,0 +1,70 @@
+/**
+ * @file Image upload validation.
+ * @module images
+ * @description This file checks that uploaded files are real images of an allowed type and size.
+ * The declared MIME type is not trusted: the first bytes of the file must match the format.
+ */
+
+// Maximum size of a single image (5 MB)
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Maximum number of images per upload request
+export const MAX_IMAGES_PER_UPLOAD = 10;
+
+/**
+ * @constant IMAGE_TYPES
+ * @description The accepted image formats, with their file extension and a check on the file signature.
+ */
+const IMAGE_TYPES: Record<string, { extension: string; matches: (bytes: Buffer) => boolean }> = {
+    "image/jpeg": {
+        extension: "jpg",
+        matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+    },
+    "image/png": {
+        extension: "png",
+        matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    },
+    "image/webp": {
+        extension: "webp",
+        matches: (bytes) => bytes.toString("ascii", 0, 4) === "RIFF" && bytes.toString("ascii", 8, 12) === "WEBP",
+    },
+};
+
+/**
+ * @function validateImage
+ * @description Validates an uploaded image.
+ *
+ * @param {string} contentType - The declared MIME type of the file.
+ * @param {Buffer} bytes - The file contents.
+ * @returns {{ extension: string } | { error: string }} The file extension to store it with, or the reason it was rejected.
+ *
+ * @example
+ * const result = validateImage(file.type, buffer);
+ * if ("error" in result) console.log(result.error);
+ */
+export const validateImage = (contentType: string, bytes: Buffer): { extension: string } | { error: string } => {
+    const type = IMAGE_TYPES[contentType];
+    if (!type) {
+        return { error: "Only JPEG, PNG and WebP images are allowed." };
+    }
+    if (bytes.length > MAX_IMAGE_SIZE) {
+        return { error: `Images must be smaller than ${MAX_IMAGE_SIZE / (1024 * 1024)} MB.` };
+    }
+    if (!type.matches(bytes)) {
+        return { error: "The file content does not match its image type." };
+    }
+    return { extension: type.extension };
+};
+
+/**
+ * @function contentTypeForKey
+ * @description Returns the MIME type of a stored image from its file extension.
+ *
+ * @param {string} key - The storage key.
+ * @returns {string} The MIME type (defaults to "application/octet-stream").
+ */
+export const contentTypeForKey = (key: string): string => {
+    const extension = key.split(".").pop()?.toLowerCase();
+    const match = Object.entries(IMAGE_TYPES).find(([, type]) => type.extension === extension);
+    return match ? match[0] : "application/octet-stream";
+};
@@ -0,0 +1,79 @@
+/**
+ * @file Listing image type and variant selection.
+ * @module listingImage
+ * @description This file describes a stored listing photo with its resized variants, and picks the variant to download
+ * for a given display width. It has no server-only dependencies, so it is shared by the API routes and the UI.
+ */
+
+/**
+ * @interface ImageVariant
+ * @description A resized WebP copy of a listing photo.
+ */
+export interface ImageVariant {
+    width: number;
+    url: string;
+}
+
+/**
+ * @interface ListingImage
+ * @description A listing photo: the original upload, its resized variants (smallest first) and a tiny blurred placeholder.
+ */
+export interface ListingImage {
+    url: string;
+    width?: number;
+    height?: number;
+    blurDataURL?: string;
+    variants: ImageVariant[];
+}
+
+// Widths of the generated WebP variants
+export const VARIANT_WIDTHS = [320, 640, 1024, 1600];
+
+/**
+ * @function pickImageVariant
+ * @description Returns the URL of the smallest variant at least as wide as the requested width.
+ * Falls back to the largest variant, then to the original when the photo has no variants.
+ *
+ * @param {ListingImage} image - The listing photo.
+ * @param {number} width - The width the photo will be displayed at, in device pixels.
+ * @returns {string} The URL to download.
+ *
+ * @example
+ * pickImageVariant(image, 500); // URL of the 640px variant
+ */
+export const pickImageVariant = (image: ListingImage, width: number): string => {
+    if (!image.variants?.length) return image.url;
+
+    const variant = image.variants.find((candidate) => candidate.width >= width);
+    return (variant ?? image.variants[image.variants.length - 1]).url;
+};
+
+/**
+ * @function normalizeListingImages
+ * @description Converts the `images` sent by the create and update forms into stored listing images.
+ * Plain URL strings (as sent by older clients) are accepted and stored without variants; anything else is dropped.
+ *
+ * @param {unknown} value - The raw `images` value from the request body.
+ * @returns {ListingImage[]} The listing images, in order.
+ */
+export const normalizeListingImages = (value: unknown): ListingImage[] => {
+    if (!Array.isArray(value)) return [];
+
+    return value.flatMap((item): ListingImage[] => {
+        if (typeof item === "string") return [{ url: item, variants: [] }];
+        if (!item || typeof item !== "object" || typeof item.url !== "string") return [];
+
+        return [{
+            url: item.url,
+            width: typeof item.width === "number" ? item.width : undefined,
+            height: typeof item.height === "number" ? item.height : undefined,
+            blurDataURL: typeof item.blurDataURL === "string" ? item.blurDataURL : undefined,
+            variants: Array.isArray(item.variants)
+                ? item.variants
+                    .filter((variant: ImageVariant) => typeof variant?.width === "number" && typeof variant?.url === "string")
+                    .map((variant: ImageVariant) => ({ width: variant.width, url: variant.url }))
+                    .sort((a: ImageVariant, b: ImageVariant) => a.width - b.width)
+                : [],
+        }];
+    });
+};
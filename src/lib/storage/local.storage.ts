@@ -0,0 +1,71 @@
+/**
+ * @file Local disk storage backend.
+ * @module localStorage
+ * @description This backend writes uploaded files under `UPLOAD_DIR` (default: `./uploads`) and serves them back through
+ * the `/api/upload/[...key]` route. Files are kept outside `public/` because Next.js only serves public files that existed
+ * at build time.
+ *
+ * @requires fs
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { StorageBackend } from "@/lib/storage/storage";
+
+/**
+ * @function getUploadDir
+ * @description Returns the absolute directory uploaded files are written to.
+ *
+ * @returns {string} The upload directory.
+ */
+export const getUploadDir = (): string => path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+/**
+ * @function resolveUploadPath
+ * @description Resolves a storage key to a file path inside the upload directory.
+ * Keys that would escape the directory (e.g. with "..") are rejected.
+ *
+ * @param {string} key - The storage key.
+ * @returns {string | null} The absolute file path, or `null` if the key is not safe.
+ */
+export const resolveUploadPath = (key: string): string | null => {
+    const uploadDir = getUploadDir();
+    const filePath = path.resolve(uploadDir, key);
+    return filePath.startsWith(uploadDir + path.sep) ? filePath : null;
+};
+
+/**
+ * @class LocalStorage
+ * @description Stores files on the local disk.
+ * @implements {StorageBackend}
+ */
+export class LocalStorage implements StorageBackend {
+    async save(key: string, body: Buffer): Promise<string> {
+        const filePath = resolveUploadPath(key);
+        if (!filePath) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, body);
+
+        return `/api/upload/${key}`;
+    }
+
+    /**
+     * Reads a stored file back from disk.
+     *
+     * @param {string} key - The storage key.
+     * @returns {Promise<Buffer | null>} The file contents, or `null` if the file does not exist.
+     */
+    async read(key: string): Promise<Buffer | null> {
+        const filePath = resolveUploadPath(key);
+        if (!filePath) return null;
+
+        try {
+            return await readFile(filePath);
+        } catch {
+            return null;
+        }
+    }
+}
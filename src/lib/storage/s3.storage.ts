@@ -0,0 +1,70 @@
+/**
+ * @file S3-compatible storage backend.
+ * @module s3Storage
+ * @description This backend writes uploaded files to an S3-compatible bucket. It is configured with:
+ *
+ * - `S3_BUCKET` (required): the bucket name.
+ * - `S3_REGION`: the bucket region (default: "us-east-1").
+ * - `S3_ENDPOINT`: a custom endpoint for S3-compatible services such as MinIO.
+ * - `S3_ACCESS_KEY_ID` / `S3_SECRET_ACCESS_KEY`: credentials (falls back to the default AWS credential chain).
+ * - `S3_FORCE_PATH_STYLE`: "true" to use path-style URLs (needed by most self-hosted services).
+ * - `S3_PUBLIC_URL`: the base URL objects are publicly served from (default: derived from the endpoint and bucket).
+ *
+ * @requires @aws-sdk/client-s3
+ */
+
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { StorageBackend } from "@/lib/storage/storage";
+
+/**
+ * @class S3Storage
+ * @description Stores files in an S3-compatible bucket.
+ * @implements {StorageBackend}
+ */
+export class S3Storage implements StorageBackend {
+    private client: S3Client;
+    private bucket: string;
+    private publicUrl: string;
+
+    constructor() {
+        const bucket = process.env.S3_BUCKET;
+        if (!bucket) {
+            throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is \"s3\".");
+        }
+
+        const region = process.env.S3_REGION || "us-east-1";
+        const endpoint = process.env.S3_ENDPOINT;
+        const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === "true";
+
+        this.bucket = bucket;
+        this.client = new S3Client({
+            region,
+            endpoint,
+            forcePathStyle,
+            ...(process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY && {
+                credentials: {
+                    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                },
+            }),
+        });
+
+        // Default public URL: path-style on the custom endpoint, or the standard AWS virtual-hosted URL
+        this.publicUrl = (
+            process.env.S3_PUBLIC_URL ||
+            (endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`)
+        ).replace(/\/+$/, "");
+    }
+
+    async save(key: string, body: Buffer, contentType: string): Promise<string> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+            CacheControl: "public, max-age=31536000, immutable", // Keys are unique, so objects never change
+        }));
+
+        return `${this.publicUrl}/${key}`;
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * @file Pluggable file storage for uploaded listing images.
+ * @module storage
+ * @description This file defines the storage backend interface and picks the configured backend.
+ * Set `STORAGE_DRIVER` to "local" (the default) to write files to disk, or to "s3" to write them to an S3-compatible
+ * bucket (AWS S3, MinIO, Cloudflare R2, ...). See `local.storage.ts` and `s3.storage.ts` for their settings.
+ */
+
+import { LocalStorage } from "@/lib/storage/local.storage";
+import { S3Storage } from "@/lib/storage/s3.storage";
+
+/**
+ * @interface StorageBackend
+ * @description A place where uploaded files can be written and read back from a URL.
+ */
+export interface StorageBackend {
+    /**
+     * Writes a file and returns the URL it can be fetched from.
+     *
+     * @param {string} key - The unique file name (may contain "/" separators).
+     * @param {Buffer} body - The file contents.
+     * @param {string} contentType - The MIME type of the file.
+     * @returns {Promise<string>} The public URL of the stored file.
+     */
+    save(key: string, body: Buffer, contentType: string): Promise<string>;
+}
+
+let backend: StorageBackend | null = null;
+
+/**
+ * @function getStorage
+ * @description Returns the configured storage backend, creating it on first use.
+ *
+ * @returns {StorageBackend} The storage backend selected by `STORAGE_DRIVER`.
+ *
+ * @example
+ * const url = await getStorage().save("listings/abc.jpg", buffer, "image/jpeg");
+ */
+export const getStorage = (): StorageBackend => {
+    if (!backend) {
+        backend = process.env.STORAGE_DRIVER === "s3" ? new S3Storage() : new LocalStorage();
+    }
+    return backend;
+};
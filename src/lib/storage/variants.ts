@@ -0,0 +1,60 @@
+/**
+ * @file Responsive image variant generation.
+ * @module variants
+ * @description This file resizes uploaded listing photos into WebP variants and a blurred placeholder with sharp.
+ * Variants are never upscaled: a photo narrower than a variant width only gets the variants it can fill.
+ *
+ * @requires sharp
+ */
+
+import sharp from "sharp";
+import { VARIANT_WIDTHS } from "@/lib/storage/listingImage";
+
+/**
+ * @interface GeneratedVariants
+ * @description The result of processing an uploaded photo.
+ */
+export interface GeneratedVariants {
+    width: number;
+    height: number;
+    blurDataURL: string;
+    variants: { width: number; body: Buffer }[];
+}
+
+/**
+ * @function generateImageVariants
+ * @description Generates the WebP variants and the blur placeholder of a photo.
+ * The photo is auto-rotated from its EXIF orientation first, so phone pictures are not displayed sideways.
+ *
+ * @async
+ * @param {Buffer} bytes - The original image.
+ * @returns {Promise<GeneratedVariants>} The original dimensions, the blur placeholder and the variants (smallest first).
+ */
+export const generateImageVariants = async (bytes: Buffer): Promise<GeneratedVariants> => {
+    const image = sharp(bytes).rotate();
+
+    // EXIF orientations 5 to 8 are rotated by 90 degrees, so width and height swap once auto-rotated
+    const metadata = await image.metadata();
+    const swapped = (metadata.orientation ?? 1) >= 5;
+    const width = (swapped ? metadata.height : metadata.width) ?? 0;
+    const height = (swapped ? metadata.width : metadata.height) ?? 0;
+
+    // Always keep at least one variant, even for photos narrower than the smallest width
+    const widths = VARIANT_WIDTHS.filter((variantWidth) => variantWidth <= width);
+    if (widths.length === 0) widths.push(width);
+
+    const variants = await Promise.all(widths.map(async (variantWidth) => ({
+        width: variantWidth,
+        body: await image.clone().resize({ width: variantWidth, withoutEnlargement: true }).webp({ quality: 80 }).toBuffer(),
+    })));
+
+    // A 16px wide blurred copy, inlined as a data URL for next/image's placeholder
+    const blur = await image.clone().resize({ width: 16 }).webp({ quality: 40 }).toBuffer();
+
+    return {
+        width,
+        height,
+        blurDataURL: `data:image/webp;base64,${blur.toString("base64")}`,
+        variants,
+    };
+};
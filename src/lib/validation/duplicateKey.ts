@@ -0,0 +1,60 @@
+/**
+ * @file Duplicate key error handling for listings.
+ * @module duplicateKey
+ * @description This file maps MongoDB duplicate key errors (code 11000) raised by the per-project unit indexes of the
+ * `Listing` model to 409 responses with a field-level message, in the same shape as the 422 validation responses so the
+ * listing forms can show the message next to the offending input. `isDuplicateKeyError` is also used for the other
+ * unique indexes, such as user emails.
+ */
+
+import { FieldErrors } from "@/lib/validation/validation";
+
+/**
+ * @interface DuplicateKeyError
+ * @description The parts of a MongoDB duplicate key error used here.
+ */
+interface DuplicateKeyError {
+    code: 11000;
+    keyPattern?: Record<string, unknown>;
+}
+
+/**
+ * @function isDuplicateKeyError
+ * @description Checks whether an error is a MongoDB duplicate key error.
+ *
+ * @param {unknown} error - The caught error.
+ * @returns {boolean} `true` if the error was caused by a unique index.
+ */
+export const isDuplicateKeyError = (error: unknown): error is DuplicateKeyError =>
+    typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+
+/**
+ * @function duplicateListingResponse
+ * @description Builds the 409 response for a listing that clashes with an existing unit of the same project.
+ *
+ * @param {DuplicateKeyError} error - The duplicate key error.
+ * @returns {Response} The error response.
+ *
+ * @example
+ * try {
+ *     await Listing.create(data);
+ * } catch (error) {
+ *     if (isDuplicateKeyError(error)) return duplicateListingResponse(error);
+ *     throw error;
+ * }
+ */
+export const duplicateListingResponse = (error: DuplicateKeyError): Response => {
+    const errors: FieldErrors = {};
+
+    // `keyPattern` tells which compound index was violated
+    if (error.keyPattern && "unitName" in error.keyPattern) {
+        errors.unitName = "Unit Name already exists in this project. Please choose a unique Unit Name.";
+    } else {
+        errors.unitNumber = "Unit Number already exists in this project. Please choose a unique Unit Number.";
+    }
+
+    return new Response(
+        JSON.stringify({ success: false, message: Object.values(errors)[0], errors }),
+        { status: 409 }
+    );
+};
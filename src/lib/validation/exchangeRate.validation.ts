@@ -0,0 +1,43 @@
+/**
+ * @file Exchange rate input validation schema.
+ * @module exchangeRateValidation
+ * @description This file defines the validation schema for the exchange rates sent to `PUT /api/exchange-rates`.
+ *
+ * @requires zod
+ */
+
+import { z } from "zod";
+import { BASE_CURRENCY, CURRENCIES } from "@/lib/pricing/currency";
+import { numberField, validateInput } from "@/lib/validation/validation";
+
+/**
+ * @constant exchangeRatesInputSchema
+ * @description The validation schema for an exchange rate update: EGP per unit of each currency to change. Currencies
+ * left out keep their rate; the base currency (EGP) always has a rate of 1 and cannot be set.
+ */
+export const exchangeRatesInputSchema = z.object({
+    rates: z.object(
+        Object.fromEntries(
+            CURRENCIES.filter((currency) => currency !== BASE_CURRENCY).map((currency) => [
+                currency,
+                numberField(`${currency} rate`, { min: 0.0001, optional: true }),
+            ])
+        ),
+        { required_error: "Rates are required.", invalid_type_error: "Rates must be an object." }
+    ).strict(`Rates can only be set for: ${CURRENCIES.filter((currency) => currency !== BASE_CURRENCY).join(", ")}.`),
+});
+
+/**
+ * @typedef {z.infer<typeof exchangeRatesInputSchema>} ExchangeRatesInput
+ * @description Validated exchange rates, ready to be written to the database.
+ */
+export type ExchangeRatesInput = z.infer<typeof exchangeRatesInputSchema>;
+
+/**
+ * @function validateExchangeRatesInput
+ * @description Validates exchange rate data against `exchangeRatesInputSchema`.
+ *
+ * @param {unknown} data - The raw exchange rate data from the request body.
+ * @returns {ValidationResult<ExchangeRatesInput>} The validated data, or the first error message of every invalid field.
+ */
+export const validateExchangeRatesInput = (data: unknown) => validateInput(exchangeRatesInputSchema, data);
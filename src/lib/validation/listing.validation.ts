@@ -0,0 +1,189 @@
+/**
+ * @file Listing input validation schema.
+ * @module listingValidation
+ * @description This file defines the shared validation schema for listing data sent to `/api/listings` (and the legacy
+ * `/api/listing/create` and `/api/listing/update`).
+ *
+ * @requires zod
+ */
+
+import { z } from "zod";
+import { normalizeListingImages } from "@/lib/storage/listingImage";
+import { INSTALLMENT_FREQUENCIES, InstallmentFrequency, MAX_PAYMENT_PLANS, MAX_PLAN_YEARS } from "@/lib/pricing/payment.plan";
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode } from "@/lib/pricing/currency";
+import { MAX_LEASE_MONTHS, RENT_PERIOD_MONTHS, RentPeriod, toMonthlyRent } from "@/lib/pricing/rental.terms";
+import {
+    DELIVERY_STATUSES,
+    DeliveryStatus,
+    FINISHING_LEVELS,
+    FinishingLevel,
+    MAX_AREA_SQM,
+    MAX_FLOOR,
+    MIN_FLOOR,
+    UNIT_TYPES,
+    UnitType,
+} from "@/lib/listings/unit.attributes";
+import {
+    booleanField,
+    numberField,
+    objectIdField,
+    optionalDateField,
+    optionalEnumField,
+    requiredText,
+    validateInput,
+} from "@/lib/validation/validation";
+
+/**
+ * @constant paymentPlanInputSchema
+ * @description The validation schema for a payment plan. Also used by the payment schedule calculator.
+ */
+export const paymentPlanInputSchema = z.object({
+    name: z.string({ invalid_type_error: "Plan name must be text." })
+        .trim()
+        .max(100, "Plan name must be at most 100 characters.")
+        .optional(),
+    downPaymentPercent: numberField("Down payment", { min: 0, max: 100 }),
+    years: numberField("Years", { min: 0, max: MAX_PLAN_YEARS, integer: true }),
+    frequency: z.enum(Object.keys(INSTALLMENT_FREQUENCIES) as [InstallmentFrequency, ...InstallmentFrequency[]], {
+        errorMap: () => ({ message: "Installment frequency must be monthly, quarterly, semiannual or annual." }),
+    }),
+    maintenanceFeePercent: numberField("Maintenance fee", { min: 0, max: 100, optional: true })
+        .transform((value) => value ?? 0),
+});
+
+/**
+ * @constant rentalTermsInputSchema
+ * @description The validation schema for the rental terms of a rent listing. The rent period defaults to monthly.
+ */
+export const rentalTermsInputSchema = z.object({
+    rentPeriod: z.enum(Object.keys(RENT_PERIOD_MONTHS) as [RentPeriod, ...RentPeriod[]], {
+        errorMap: () => ({ message: "Rent period must be monthly or yearly." }),
+    }).default("monthly"),
+    deposit: numberField("Deposit", { min: 0, optional: true }),
+    minLeaseMonths: numberField("Minimum lease", { min: 1, max: MAX_LEASE_MONTHS, integer: true, optional: true }),
+    availableFrom: optionalDateField("Available from"),
+}, { invalid_type_error: "Rental terms must be an object." });
+
+/**
+ * @constant listingInputSchema
+ * @description The validation schema for the listing data of the create and update routes. The project is referenced by
+ * `projectId`; its name is copied onto the listing by the routes. The optional `latitude` and `longitude` are turned into
+ * the GeoJSON `location` point. The optional `discountPrice` and offer dates are only kept for listings with an offer,
+ * the `paymentPlans` only for listings for sale, and the `rentalTerms` only for listings for rent (where `regularPrice` is
+ * the rent per `rentalTerms.rentPeriod`; the monthly rent is derived from it). The unit attributes (area, floor, unit
+ * type, finishing and delivery status) are optional.
+ */
+export const listingInputSchema = z.object({
+    projectId: objectIdField("Project"),
+    unitName: requiredText("Unit name", 200),
+    unitNumber: numberField("Unit number", { min: 0, integer: true }),
+    description: requiredText("Description", 5000),
+    address: requiredText("Address", 500),
+    latitude: numberField("Latitude", { min: -90, max: 90, optional: true }),
+    longitude: numberField("Longitude", { min: -180, max: 180, optional: true }),
+    sell: booleanField("Sell"),
+    rent: booleanField("Rent"),
+    parkingSpot: booleanField("Parking spot"),
+    furnished: booleanField("Furnished"),
+    offer: booleanField("Offer"),
+    beds: numberField("Beds", { min: 0, max: 50, integer: true }),
+    baths: numberField("Baths", { min: 0, max: 50, integer: true }),
+    area: numberField("Area", { min: 1, max: MAX_AREA_SQM, optional: true }),
+    floor: numberField("Floor", { min: MIN_FLOOR, max: MAX_FLOOR, integer: true, optional: true }),
+    unitType: optionalEnumField("Unit type", Object.keys(UNIT_TYPES) as [UnitType, ...UnitType[]]),
+    finishing: optionalEnumField("Finishing", Object.keys(FINISHING_LEVELS) as [FinishingLevel, ...FinishingLevel[]]),
+    deliveryStatus: optionalEnumField("Delivery status", Object.keys(DELIVERY_STATUSES) as [DeliveryStatus, ...DeliveryStatus[]]),
+    regularPrice: numberField("Regular price", { min: 0 }),
+    currency: z.enum(CURRENCIES as unknown as [CurrencyCode, ...CurrencyCode[]], {
+        errorMap: () => ({ message: `Currency must be one of: ${CURRENCIES.join(", ")}.` }),
+    }).default(BASE_CURRENCY),
+    discountPrice: numberField("Discount price", { min: 0, optional: true }),
+    offerStartsAt: optionalDateField("Offer start date"),
+    offerEndsAt: optionalDateField("Offer expiry date"),
+    paymentPlans: z.array(paymentPlanInputSchema, { invalid_type_error: "Payment plans must be a list." })
+        .max(MAX_PAYMENT_PLANS, `A listing can have at most ${MAX_PAYMENT_PLANS} payment plans.`)
+        .default([]),
+    rentalTerms: rentalTermsInputSchema.optional(),
+    images: z.array(z.unknown(), { invalid_type_error: "Images must be a list." })
+        .max(30, "A listing can have at most 30 photos.")
+        .default([])
+        .transform(normalizeListingImages),
+}).refine((listing) => listing.sell || listing.rent, {
+    message: "A listing must be for sale, for rent, or both.",
+    path: ["sell"],
+}).refine((listing) => listing.latitude !== undefined || listing.longitude === undefined, {
+    message: "Latitude is required when a longitude is given.",
+    path: ["latitude"],
+}).refine((listing) => listing.longitude !== undefined || listing.latitude === undefined, {
+    message: "Longitude is required when a latitude is given.",
+    path: ["longitude"],
+}).refine((listing) => !listing.offer || listing.discountPrice === undefined || listing.discountPrice < (listing.regularPrice ?? 0), {
+    message: "Discount price must be below the regular price.",
+    path: ["discountPrice"],
+}).refine((listing) => !listing.offerStartsAt || !listing.offerEndsAt || listing.offerEndsAt > listing.offerStartsAt, {
+    message: "The offer must expire after it starts.",
+    path: ["offerEndsAt"],
+}).transform(({ latitude, longitude, discountPrice, offerStartsAt, offerEndsAt, paymentPlans, rentalTerms, ...listing }) => ({
+    ...listing,
+    // Installments are only offered when buying
+    paymentPlans: listing.sell ? paymentPlans : [],
+    // Rental terms are only kept when renting (a monthly rent by default)
+    rentalTerms: listing.rent
+        ? {
+            ...(rentalTerms ?? { rentPeriod: "monthly" as const }),
+            monthlyRent: toMonthlyRent(listing.regularPrice ?? 0, rentalTerms?.rentPeriod ?? "monthly"),
+        }
+        : undefined,
+    // The discount and its dates only mean something for an offer
+    discountPrice: listing.offer ? discountPrice : undefined,
+    offerStartsAt: listing.offer ? offerStartsAt : undefined,
+    offerEndsAt: listing.offer ? offerEndsAt : undefined,
+    // GeoJSON stores [longitude, latitude]
+    location: latitude !== undefined && longitude !== undefined
+        ? { type: "Point" as const, coordinates: [longitude, latitude] }
+        : undefined,
+}));
+
+/**
+ * @typedef {z.infer<typeof listingInputSchema>} ListingInput
+ * @description Validated listing data, ready to be written to the database.
+ */
+export type ListingInput = z.infer<typeof listingInputSchema>;
+
+/**
+ * @function validateListingInput
+ * @description Validates listing data against `listingInputSchema`.
+ *
+ * @param {unknown} data - The raw listing data from the request body.
+ * @returns {ValidationResult<ListingInput>} The validated data, or the first error message of every invalid field.
+ */
+export const validateListingInput = (data: unknown) => validateInput(listingInputSchema, data);
+
+/**
+ * @constant paymentScheduleRequestSchema
+ * @description The validation schema for the payment schedule calculator: which of the listing's plans to use, optional
+ * adjustments of its terms, and the contract date (today by default).
+ */
+export const paymentScheduleRequestSchema = z.object({
+    planIndex: numberField("Plan", { min: 0, max: MAX_PAYMENT_PLANS - 1, integer: true, optional: true })
+        .transform((value) => value ?? 0),
+    downPaymentPercent: numberField("Down payment", { min: 0, max: 100, optional: true }),
+    years: numberField("Years", { min: 0, max: MAX_PLAN_YEARS, integer: true, optional: true }),
+    frequency: paymentPlanInputSchema.shape.frequency.optional(),
+    startDate: optionalDateField("Start date"),
+});
+
+/**
+ * @typedef {z.infer<typeof paymentScheduleRequestSchema>} PaymentScheduleRequest
+ * @description A validated payment schedule calculator request.
+ */
+export type PaymentScheduleRequest = z.infer<typeof paymentScheduleRequestSchema>;
+
+/**
+ * @function validatePaymentScheduleRequest
+ * @description Validates a payment schedule calculator request against `paymentScheduleRequestSchema`.
+ *
+ * @param {unknown} data - The raw request data.
+ * @returns {ValidationResult<PaymentScheduleRequest>} The validated data, or the first error message of every invalid field.
+ */
+export const validatePaymentScheduleRequest = (data: unknown) => validateInput(paymentScheduleRequestSchema, data);
@@ -0,0 +1,69 @@
+/**
+ * @file Project input validation schema.
+ * @module projectValidation
+ * @description This file defines the validation schema for project data sent to `/api/project/create` and
+ * `/api/project/update`.
+ *
+ * @requires zod
+ */
+
+import { z } from "zod";
+import { normalizeListingImages } from "@/lib/storage/listingImage";
+import { validateInput } from "@/lib/validation/validation";
+
+/**
+ * @function optionalText
+ * @description An optional, trimmed string field. Missing values become an empty string.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @param {number} max - The maximum length.
+ * @returns {z.ZodDefault} The field schema.
+ */
+const optionalText = (label: string, max: number) =>
+    z.string({ invalid_type_error: `${label} must be text.` })
+        .trim()
+        .max(max, `${label} must be at most ${max} characters.`)
+        .default("");
+
+/**
+ * @constant projectInputSchema
+ * @description The validation schema for the project data of the create and update routes.
+ * `amenities` accepts a list or a comma-separated string; `coverImage` accepts an uploaded image or a plain URL.
+ */
+export const projectInputSchema = z.object({
+    name: z.string({ required_error: "Project name is required.", invalid_type_error: "Project name must be text." })
+        .trim()
+        .min(1, "Project name is required.")
+        .max(200, "Project name must be at most 200 characters."),
+    developer: optionalText("Developer", 200),
+    location: optionalText("Location", 500),
+    amenities: z.preprocess(
+        (value) => (typeof value === "string" ? value.split(",") : value),
+        z.array(z.string({ invalid_type_error: "Amenities must be text." }).trim(), { invalid_type_error: "Amenities must be a list." })
+            .max(50, "A project can have at most 50 amenities.")
+            .default([])
+            .transform((amenities) => amenities.filter(Boolean))
+    ),
+    deliveryDate: z.preprocess(
+        (value) => (value === "" || value === null ? undefined : value),
+        z.coerce.date({ invalid_type_error: "Delivery date is not a valid date." }).optional()
+    ),
+    coverImage: z.unknown()
+        .optional()
+        .transform((value) => normalizeListingImages(value ? [value] : [])[0]),
+});
+
+/**
+ * @typedef {z.infer<typeof projectInputSchema>} ProjectInput
+ * @description Validated project data, ready to be written to the database.
+ */
+export type ProjectInput = z.infer<typeof projectInputSchema>;
+
+/**
+ * @function validateProjectInput
+ * @description Validates project data against `projectInputSchema`.
+ *
+ * @param {unknown} data - The raw project data from the request body.
+ * @returns {ValidationResult<ProjectInput>} The validated data, or the first error message of every invalid field.
+ */
+export const validateProjectInput = (data: unknown) => validateInput(projectInputSchema, data);
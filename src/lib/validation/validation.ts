@@ -0,0 +1,162 @@
+/**
+ * @file Shared request validation helpers.
+ * @module validation
+ * @description This file contains the field builders and error formatting shared by the request schemas in this folder.
+ * Numbers may arrive as strings (HTML number inputs send strings) and are coerced; anything that does not fit produces a
+ * field-level error message that the forms show next to the matching input.
+ *
+ * @requires zod
+ */
+
+import { z } from "zod";
+
+/**
+ * @typedef {Record<string, string>} FieldErrors
+ * @description Validation messages keyed by field name (nested fields use dotted paths, e.g. "images.0").
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * @typedef {Object} ValidationResult
+ * @description The outcome of a validation: the parsed data, or the first error message of every invalid field.
+ */
+export type ValidationResult<T> = { success: true; data: T } | { success: false; errors: FieldErrors };
+
+/**
+ * @function requiredText
+ * @description A required, trimmed string field.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @param {number} max - The maximum length.
+ * @returns {z.ZodString} The field schema.
+ */
+export const requiredText = (label: string, max: number) =>
+    z.string({ required_error: `${label} is required.`, invalid_type_error: `${label} must be text.` })
+        .trim()
+        .min(1, `${label} is required.`)
+        .max(max, `${label} must be at most ${max} characters.`);
+
+/**
+ * @function numberField
+ * @description A numeric field that also accepts numeric strings. Empty strings count as missing, which is an error
+ * unless the field is optional.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @param {Object} options - The constraints on the value.
+ * @param {number} options.min - The inclusive minimum.
+ * @param {number} [options.max] - The inclusive maximum.
+ * @param {boolean} [options.integer] - Whether the value must be a whole number.
+ * @param {boolean} [options.optional] - Whether the field may be left empty.
+ * @returns {z.ZodEffects} The field schema.
+ */
+export const numberField = (
+    label: string,
+    { min, max, integer = false, optional = false }: { min: number; max?: number; integer?: boolean; optional?: boolean }
+) => {
+    let schema = z.number({ required_error: `${label} is required.`, invalid_type_error: `${label} must be a number.` })
+        .finite(`${label} must be a number.`)
+        .min(min, `${label} must be at least ${min}.`);
+    if (max !== undefined) schema = schema.max(max, `${label} must be at most ${max}.`);
+    if (integer) schema = schema.int(`${label} must be a whole number.`);
+
+    return z.preprocess((value) => {
+        if (value === "" || value === null) return undefined;
+        if (typeof value === "string" && value.trim() !== "") return Number(value);
+        return value;
+    }, optional ? schema.optional() : schema);
+};
+
+/**
+ * @function booleanField
+ * @description A boolean flag. Missing values default to `false`.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @returns {z.ZodDefault} The field schema.
+ */
+export const booleanField = (label: string) =>
+    z.boolean({ invalid_type_error: `${label} must be true or false.` }).default(false);
+
+/**
+ * @function optionalDateField
+ * @description An optional date, sent as an ISO string (e.g. from a date input). Empty values are treated as missing.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @returns {z.ZodEffects} The field schema.
+ */
+export const optionalDateField = (label: string) =>
+    z.preprocess(
+        (value) => (value === "" || value === null ? undefined : value),
+        z.coerce.date({ invalid_type_error: `${label} is not a valid date.` }).optional()
+    );
+
+/**
+ * @function optionalEnumField
+ * @description An optional choice among fixed values (e.g. from a select with a "Not specified" option). Empty values
+ * are treated as missing.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @param {readonly string[]} values - The accepted values.
+ * @returns {z.ZodEffects} The field schema.
+ */
+export const optionalEnumField = <T extends string>(label: string, values: readonly [T, ...T[]]) =>
+    z.preprocess(
+        (value) => (value === "" || value === null ? undefined : value),
+        z.enum(values, { errorMap: () => ({ message: `${label} must be one of: ${values.join(", ")}.` }) }).optional()
+    );
+
+/**
+ * @function objectIdField
+ * @description A required MongoDB ObjectId, sent as a 24-character hex string.
+ *
+ * @param {string} label - The human-readable field name used in messages.
+ * @returns {z.ZodString} The field schema.
+ */
+export const objectIdField = (label: string) =>
+    z.string({ required_error: `${label} is required.`, invalid_type_error: `${label} is required.` })
+        .trim()
+        .min(1, `${label} is required.`)
+        .regex(/^[0-9a-f]{24}$/i, `${label} is not valid.`);
+
+/**
+ * @function validateInput
+ * @description Validates request data against a schema.
+ *
+ * @param {z.ZodTypeAny} schema - The schema to validate against.
+ * @param {unknown} data - The raw data from the request body.
+ * @returns {ValidationResult} The parsed data, or the first error message of every invalid field.
+ *
+ * @example
+ * const result = validateInput(listingInputSchema, { projectName: "Sunrise", beds: "-1" });
+ * if (!result.success) console.log(result.errors); // { unitName: "Unit name is required.", beds: "Beds must be at least 0.", ... }
+ */
+export const validateInput = <S extends z.ZodTypeAny>(schema: S, data: unknown): ValidationResult<z.infer<S>> => {
+    if (!data || typeof data !== "object") {
+        return { success: false, errors: { formData: "Form data is required." } };
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+
+    // Keep the first message of every field
+    const errors: FieldErrors = {};
+    for (const issue of result.error.issues) {
+        const field = issue.path.join(".") || "formData";
+        errors[field] ??= issue.message;
+    }
+    return { success: false, errors };
+};
+
+/**
+ * @function validationErrorResponse
+ * @description Builds the 422 response returned when request data is invalid.
+ *
+ * @param {FieldErrors} errors - The field-level error messages.
+ * @returns {Response} The error response.
+ */
+export const validationErrorResponse = (errors: FieldErrors): Response =>
+    new Response(
+        JSON.stringify({ success: false, message: "Please fix the highlighted fields.", errors }),
+        { status: 422 }
+    );
@@ -0,0 +1,32 @@
+/**
+ * @file Middleware protecting the listing management pages.
+ * @module middleware
+ * @description This middleware redirects visitors without a session cookie from the create and update listing pages,
+ * "My listings" and the admin pages to the sign-in page. It only checks that the cookie is present; the session itself is validated by the API routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+// Must match SESSION_COOKIE in "@/lib/auth/session" (which cannot be imported here, as it depends on Node APIs)
+const SESSION_COOKIE = "session";
+
+/**
+ * @function middleware
+ * @description Redirects to `/sign-in` when the session cookie is missing, remembering the requested page.
+ * 
+ * @param {NextRequest} req - The incoming request.
+ * @returns {NextResponse} A redirect to the sign-in page, or the request passed through unchanged.
+ */
+export function middleware(req: NextRequest) {
+    if (!req.cookies.get(SESSION_COOKIE)) {
+        const signInUrl = new URL("/sign-in", req.url);
+        signInUrl.searchParams.set("redirect", req.nextUrl.pathname);
+        return NextResponse.redirect(signInUrl);
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ["/create-listing", "/update-listing/:path*", "/my-listings", "/admin/:path*"],
+};
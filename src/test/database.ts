@@ -0,0 +1,86 @@
+/**
+ * @file In-memory MongoDB for the tests.
+ * @module testDatabase
+ * @description This file starts a throwaway MongoDB server (mongodb-memory-server) and connects Mongoose to it, so the
+ * tests run the real queries without touching the database in MONGO_URL. It also builds valid listings with unique
+ * unit names and numbers, so each test only spells out the fields it is about.
+ */
+
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import Listing from "@/lib/modals/listing.modal";
+
+let server: MongoMemoryServer | null = null;
+
+/**
+ * @function startTestDatabase
+ * @description Starts the in-memory server and connects Mongoose to it. Call it in `beforeAll`.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+export const startTestDatabase = async (): Promise<void> => {
+    server = await MongoMemoryServer.create();
+    await mongoose.connect(server.getUri());
+};
+
+/**
+ * @function stopTestDatabase
+ * @description Disconnects Mongoose and stops the in-memory server. Call it in `afterAll`.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+export const stopTestDatabase = async (): Promise<void> => {
+    await mongoose.disconnect();
+    await server?.stop();
+    server = null;
+};
+
+/**
+ * @function clearTestDatabase
+ * @description Removes every document, so each test starts from an empty database. Call it in `beforeEach`.
+ *
+ * @async
+ * @returns {Promise<void>}
+ */
+export const clearTestDatabase = async (): Promise<void> => {
+    const collections = await mongoose.connection.db?.collections() ?? [];
+    await Promise.all(collections.map((collection) => collection.deleteMany({})));
+};
+
+// Gives every test listing its own unit name and number
+let unitCounter = 0;
+
+/**
+ * @function createListings
+ * @description Stores listings built from defaults (for sale, no amenities, no offer) and the given fields.
+ *
+ * @async
+ * @param {Record<string, unknown>[]} overrides - The fields of each listing that differ from the defaults.
+ * @returns {Promise<string[]>} The unit names of the listings, in the same order.
+ */
+export const createListings = async (overrides: Record<string, unknown>[]): Promise<string[]> => {
+    const listings = overrides.map((fields) => {
+        unitCounter += 1;
+        return {
+            projectName: "Test Project",
+            unitName: `Unit ${unitCounter}`,
+            unitNumber: unitCounter,
+            description: "A test listing",
+            address: "1 Test Street",
+            sell: true,
+            rent: false,
+            parkingSpot: false,
+            furnished: false,
+            offer: false,
+            beds: 2,
+            baths: 1,
+            regularPrice: 1_000_000,
+            ...fields,
+        };
+    });
+
+    await Listing.create(listings);
+    return listings.map((listing) => listing.unitName);
+};
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": fileURLToPath(new URL("./src", import.meta.url)), // Same as the `@/*` path in tsconfig.json
+        },
+    },
+    test: {
+        environment: "node",
+        include: ["src/**/*.test.ts"],
+        hookTimeout: 120_000, // The first run downloads the in-memory MongoDB binary
+        fileParallelism: false, // Every test file starts its own MongoDB server
+    },
+});